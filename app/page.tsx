@@ -1,7 +1,7 @@
 // @ts-nocheck
 "use client";
 
-import React, { useMemo, useState, useRef, useEffect } from "react";
+import React, { useMemo, useState, useRef, useEffect, useCallback } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,16 +9,88 @@ import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Download, Upload, Search, Filter, AlertTriangle, CalendarDays, Timer, Play, PlusCircle, Trash2, RotateCcw, ChevronRight } from "lucide-react";
+import { Download, Upload, Search, Filter, AlertTriangle, CalendarDays, Timer, Play, PlusCircle, Trash2, RotateCcw, ChevronRight, CheckCircle2, XCircle, MinusCircle, TrendingUp, Gauge, Printer, Save } from "lucide-react";
 import Image from "next/image";
 import { motion } from "framer-motion";
 import * as htmlToImage from "html-to-image";
 import * as XLSX from "xlsx";
+import { parseMSPDI } from "@/lib/mspdi";
+import { buildXERSchedule, decodeXER, parseXER } from "@/lib/xer";
+import {
+  MAPPING_FIELDS,
+  applyColumnMapping,
+  detectColumnMapping,
+  headerSignature,
+  loadSavedMapping,
+  missingRequiredFields,
+  readSheetHeaders,
+  saveMapping,
+} from "@/lib/column-mapping";
+import { buildImportDiagnostics, diagnosticsToCSV } from "@/lib/import-diagnostics";
+import { findLogicLoops, loopLinkKey } from "@/lib/logic-loops";
+import { drivingPathToCSV, traceDrivingPath } from "@/lib/driving-path";
+import { RISK_DISTRIBUTIONS, createRandom, percentileOf, readThreePointRanges, sampleDuration } from "@/lib/risk";
+import {
+  UPLOAD_BASELINE_ID,
+  baselineBarFinish,
+  baselineCoverage,
+  baselineDatesFor,
+  captureBaseline,
+  formatVariance,
+  scheduleVariance,
+  varianceTone,
+} from "@/lib/baseline";
+import { runDcmaCheck } from "@/lib/dcma";
+import { EV_MEASURES, availableMeasures, earnedValue } from "@/lib/earned-value";
+import { LINK_ACTIONS, LINK_TYPES, applyFragnet, fragnetSize, impactSummaryHTML, milestoneImpact } from "@/lib/fragnet";
+import { compareScenarios, comparisonSheetRows, milestoneComparisonRows } from "@/lib/scenario-compare";
+import {
+  deleteProject,
+  formatBytes,
+  listProjects,
+  loadProject,
+  loadSetting,
+  newProjectId,
+  renameProject,
+  saveProject,
+  saveSetting,
+  storageUsage,
+} from "@/lib/project-store";
+import { attachAssignments, readAssignmentRows, resourceLoading } from "@/lib/resources";
+import { PAPER_SIZES, layoutGanttPages, layoutGanttSheet, paperDimensions, sceneToSVG, scenesToPDF } from "@/lib/gantt-print";
+import { activitySheetRows, calendarSheetRows, relationshipSheetRows, resourceSheetRows, scenarioSheetRows } from "@/lib/schedule-export";
+import { CHANGE_GROUPS, changeLogRows, compareScheduleUpdates } from "@/lib/update-compare";
+import { buildWbsTree, collapseToLevel, collapseWbsTree, repointLinks, revealWbsRows, wbsLinkId } from "@/lib/wbs-tree";
+import {
+  CONSTRAINT_LABELS,
+  LEVELING_PRIORITIES,
+  buildSummaryMeta,
+  deriveDurationDays,
+  normalizeActivityId,
+  normalizeConstraintType,
+  parseDate,
+  simulateScenario,
+} from "@/lib/cpm";
+import { createScheduleEngine } from "@/lib/cpm-client";
+import {
+  DAY_MS,
+  WEEKDAY_LABELS,
+  applyShiftHours,
+  createCalendar,
+  createDefaultCalendars,
+  hourValue,
+  hoursToWorkDays,
+  readCalendarRows,
+  resolveCalendar,
+} from "@/lib/calendars";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import {
   BarChart,
   Bar,
+  LineChart,
+  Line,
+  Legend,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -29,18 +101,36 @@ import {
 /**
  * RCP Gantt Pro Viewer
  * - Single-file Excel ingestion (tasks + predecessors)
+ * - Column-mapping step for workbooks with unrecognised headers
+ * - Import diagnostics report (dates, IDs, logic) with CSV download
+ * - Microsoft Project XML (MSPDI) and Primavera P6 XER ingestion
+ * - String activity IDs throughout ("101", "A1010", "CIV-220")
+ * - Working calendars (work week, holidays, shift hours) in the CPM passes
+ * - Activity constraints (SNET/SNLT/FNET/FNLT/MSO/MFO/ALAP/mandatory) with negative float
+ * - Logic-loop detection: loops are listed, block scenario runs and are traced in the Gantt
+ * - Progress: actual start/finish + remaining duration, data date, retained logic / progress override
+ * - Driving-path trace (zero relationship free float) with CSV export
+ * - Monte Carlo risk analysis: three-point durations, P10–P90 finishes, histogram, criticality index
+ * - CPM and risk runs in a Web Worker with progress and cancellation
  * - Gantt with independent LEFT/RIGHT labels (Name | ID | Start | Finish | None)
+ * - Collapsible WBS outline: chevrons, expand to level / collapse all, links roll up to visible summaries
+ * - Named baselines (captured or imported by ActivityID) with a selectable comparison baseline
+ * - Previous-update comparison: change log (activities, durations, dates, logic, constraints, float erosion) with Excel export
+ * - XLSX export of the active rows (floats, criticality, relationships, scenario, calendars) that loads back in
+ * - Resource assignments (column or Resources/Assignments sheet): stacked loading histogram, over-allocation, levelling
+ * - Earned value at the data date (PV/EV/AC, SPI/CPI, SV/CV, EAC, TCPI) with S-curves and a period histogram
+ * - Scenario fragnets (time impact analysis): new activities and link edits, before/after milestone dates and float, printable summary
+ * - Side-by-side comparison of saved scenarios: ES/EF/TF per activity, milestone finishes, Gantt ghost bars, Excel export
+ * - Projects saved in the browser (IndexedDB): recent list, save/rename/delete, auto-save, restored view settings, storage usage
+ * - Vector SVG and paginated PDF export of the full chart (paper size, orientation, rows per page, title block, page numbers)
+ * - DCMA 14-point health check with thresholds and clickable offenders
+ * - Baseline bars with start/finish variance (tooltip, labels, threshold colouring) and a slipped filter
+ * - Virtualised Gantt rows: only rows in the scroll window (and links touching them) are rendered
  * - Toggle logic links with colored FS/SS/FF/SF curves and lag badges
  * - Timescale zoom with smart axis (days -> weeks -> months -> quarters -> years)
  * - Float distribution chart + KPIs + search + threshold filter
  */
 
-function parseDate(d) {
-  if (!d) return null;
-  const t = new Date(d);
-  return isNaN(t.getTime()) ? null : t;
-}
-
 function fmt(d) {
   if (!d) return "-";
   return d.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "2-digit" });
@@ -54,7 +144,6 @@ const sampleData = [
   { ActivityID: 700, TaskName: "Commissioning", ES: "2026-06-10", EF: "2026-07-15", LS: "2026-06-10", LF: "2026-07-15", DurDays: 25, TotalFloat_d: 0, FreeFloat_d: 0, Milestone: false },
 ];
 
-const DAY_MS = 24 * 60 * 60 * 1000;
 const initialRows = prepareRows(sampleData.map((row) => normalizeRow(row)));
 
 // Normalize numeric/boolean fields coming from Excel to ensure bars render
@@ -67,8 +156,10 @@ function normalizeRow(r) {
     return m ? Number(m[0]) : NaN;
   };
 
-  // Duration
-  const dur = parseNumLike(r.DurDays ?? r.Duration ?? r["Duration"]);
+  // Duration; hour-based ones ("16h") keep their hours and become days once calendars are known (applyShiftHours)
+  const durCell = r.DurDays ?? r.Duration ?? r["Duration"];
+  const durHours = Number.isFinite(Number(r.DurHours)) && r.DurHours !== "" && r.DurHours !== null ? Number(r.DurHours) : hourValue(durCell);
+  const dur = Number.isFinite(durHours) ? hoursToWorkDays(durHours, null) : parseNumLike(durCell);
 
   // Total & Free float (support many header variants + fuzzy match)
   let tfRaw =
@@ -150,6 +241,9 @@ function normalizeRow(r) {
   const constraintDate = coerceDate(
     r.Constraint_Date ?? r["Constraint Date"] ?? r.ConstraintDate
   );
+  const calendarId = normalizeActivityId(
+    r.CalendarID ?? r["Calendar ID"] ?? r.Calendar ?? r["Calendar"]
+  );
   const successors =
     r.Successors ??
     r["Successor"] ??
@@ -172,6 +266,30 @@ function normalizeRow(r) {
   const LS = r.LS ?? r.LateStart ?? undefined;
   const LF = r.LF ?? r.LateFinish ?? undefined;
 
+  // Progress: actual dates fix statused work; remaining duration drives the rest
+  const actualStart = coerceDate(r.ActualStart ?? r["Actual Start"] ?? r.AS ?? r["Act Start"]);
+  const actualFinish = coerceDate(r.ActualFinish ?? r["Actual Finish"] ?? r.AF ?? r["Act Finish"]);
+  const remaining = parseNumLike(
+    r.RemainingDuration ?? r["Remaining Duration"] ?? r.RemDur ?? r["Rem Dur"]
+  );
+  if (actualFinish && pct === 0) pct = 100;
+
+  // Three-point estimate for risk runs
+  const durMin = parseNumLike(
+    r.DurMin ?? r.Optimistic ?? r["Optimistic Duration"] ?? r["Min Duration"] ?? r["Minimum Duration"] ?? r["Best Case"]
+  );
+  const durMostLikely = parseNumLike(r.DurMostLikely ?? r["Most Likely"] ?? r["Most Likely Duration"]);
+  const durMax = parseNumLike(
+    r.DurMax ?? r.Pessimistic ?? r["Pessimistic Duration"] ?? r["Max Duration"] ?? r["Maximum Duration"] ?? r["Worst Case"]
+  );
+
+  // Earned value budgets and actuals ("$12,500" and "1 200" read as numbers)
+  const parseAmount = (v) => (typeof v === "number" ? v : parseNumLike(String(v ?? "").replace(/[,\s]/g, "")));
+  const budgetCost = parseAmount(r.BudgetCost ?? r["Budgeted Cost"] ?? r["Budget Cost"] ?? r.Budget ?? r.BAC ?? r["Planned Cost"]);
+  const budgetHours = parseAmount(r.BudgetHours ?? r["Budgeted Hours"] ?? r["Budget Hours"] ?? r["Planned Hours"] ?? r.Work ?? r["Budgeted Units"]);
+  const actualCost = parseAmount(r.ActualCost ?? r["Actual Cost"] ?? r.AC ?? r["Actual Total Cost"]);
+  const actualHours = parseAmount(r.ActualHours ?? r["Actual Hours"] ?? r["Actual Work"] ?? r["Actual Units"]);
+
   return {
     ...r,
     ES: coerceDate(ES),
@@ -179,78 +297,40 @@ function normalizeRow(r) {
     LS: coerceDate(LS),
     LF: coerceDate(LF),
     DurDays: isNaN(dur) ? 0 : dur,
+    DurHours: Number.isFinite(durHours) ? durHours : undefined,
     TotalFloat_d: tf,
     FreeFloat_d: ff,
     PctComplete: pct,
     Milestone: ms,
     WBSLevel: isNaN(WBSLevel) ? undefined : WBSLevel,
     IsSummaryExcel: summaryFromExcel,
-    ConstraintType: constraintType ? String(constraintType).trim() : undefined,
+    ConstraintType: constraintType
+      ? normalizeConstraintType(constraintType) ?? String(constraintType).trim()
+      : undefined,
     ConstraintDate: constraintDate,
+    CalendarID: calendarId,
+    ActualStart: actualStart,
+    ActualFinish: actualFinish,
+    RemainingDuration: isNaN(remaining) ? undefined : remaining,
+    DurMin: isNaN(durMin) ? undefined : durMin,
+    DurMostLikely: isNaN(durMostLikely) ? undefined : durMostLikely,
+    DurMax: isNaN(durMax) ? undefined : durMax,
+    BudgetCost: isNaN(budgetCost) ? undefined : budgetCost,
+    BudgetHours: isNaN(budgetHours) ? undefined : budgetHours,
+    ActualCost: isNaN(actualCost) ? undefined : actualCost,
+    ActualHours: isNaN(actualHours) ? undefined : actualHours,
     Successors: successors,
-    ActivityID:
-      (r.ActivityID ??
+    ActivityID: normalizeActivityId(
+      r.ActivityID ??
         r.ID ??
         r.UniqueID ??
         r["Unique ID"] ??
-        r["UniqueID"]) !== undefined
-        ? Number(
-            r.ActivityID ??
-              r.ID ??
-              r.UniqueID ??
-              r["Unique ID"] ??
-              r["UniqueID"]
-          )
-        : undefined,
+        r["UniqueID"]
+    ),
     TaskName: r.TaskName ?? r.Name ?? r["Task Name"] ?? r["Task"],
   };
 }
 
-function getWbsLevel(row) {
-  const raw =
-    row.WBSLevel ??
-    row["WBS Level"] ??
-    row.OutlineLevel ??
-    row["Outline Level"];
-  const level = Number(raw);
-  return Number.isFinite(level) ? level : null;
-}
-
-function buildSummaryMeta(rows) {
-  const meta = rows.map(() => ({
-    isSummary: false,
-    children: [],
-    parentIndex: null,
-    level: null,
-  }));
-  const stack = [];
-  for (let i = 0; i < rows.length; i++) {
-    const level = getWbsLevel(rows[i]);
-    meta[i].level = level;
-    if (rows[i]?.IsSummaryExcel) {
-      meta[i].isSummary = true;
-    }
-    while (
-      stack.length &&
-      (level == null || level <= (stack[stack.length - 1]?.level ?? -Infinity))
-    ) {
-      stack.pop();
-    }
-    if (stack.length) {
-      const parent = stack[stack.length - 1];
-      meta[parent.index].children.push(i);
-      meta[parent.index].isSummary = true;
-      meta[i].parentIndex = parent.index;
-    }
-    if (Number.isFinite(level)) {
-      stack.push({ level, index: i });
-    } else {
-      stack.length = 0;
-    }
-  }
-  return meta;
-}
-
 function annotateSummaries(rows) {
   const meta = buildSummaryMeta(rows);
   return rows.map((row, idx) => ({
@@ -277,275 +357,13 @@ function withBaselineAnchors(rows) {
   });
 }
 
-function prepareRows(rows) {
-  return withBaselineAnchors(annotateSummaries(rows));
-}
-
-function deriveDurationDays(row) {
-  const dur = Number(row.DurDays);
-  if (Number.isFinite(dur) && dur >= 0) return dur;
-  const es = parseDate(row.ES);
-  const ef = parseDate(row.EF);
-  if (es && ef) return Math.max(0, Math.round((ef.getTime() - es.getTime()) / DAY_MS));
-  return 0;
-}
-
-function toISODate(ms) {
-  if (!Number.isFinite(ms)) return undefined;
-  const d = new Date(ms);
-  if (isNaN(d.getTime())) return undefined;
-  return d.toISOString().slice(0, 10);
-}
-
-function normalizeRelType(type) {
-  const t = String(type || "FS").toUpperCase();
-  return ["FS", "SS", "FF", "SF"].includes(t) ? t : "FS";
+// Stable position in the loaded schedule, so diagnostics can point at a row after filtering
+function withRowIndex(rows) {
+  return rows.map((row, idx) => ({ ...row, __rowIndex: idx }));
 }
 
-function simulateScenario(rows, rels, impact) {
-  if (!rows?.length) return [];
-  const summaryMeta = buildSummaryMeta(rows);
-  const tasks = rows.map((row, idx) => {
-    const id = Number(row.ActivityID);
-    const baseES = Number.isFinite(row.__baselineES)
-      ? row.__baselineES
-      : parseDate(row.ES)?.getTime();
-    const baseEF = Number.isFinite(row.__baselineEF)
-      ? row.__baselineEF
-      : parseDate(row.EF)?.getTime();
-    return {
-      row,
-      id,
-      idx,
-      duration: deriveDurationDays(row),
-      baseES,
-      baseEF,
-      baseLS: parseDate(row.LS)?.getTime(),
-      baseLF: parseDate(row.LF)?.getTime(),
-      ES: undefined,
-      EF: undefined,
-      LS: undefined,
-      LF: undefined,
-      TotalFloat_d: Number(row.TotalFloat_d ?? 0),
-      FreeFloat_d: Number(row.FreeFloat_d ?? 0),
-      isSummary: summaryMeta[idx]?.isSummary ?? false,
-    };
-  });
-  const logicTasks = tasks.filter(
-    (task) => Number.isFinite(task.id) && !task.isSummary
-  );
-  const idMap = new Map();
-  logicTasks.forEach((task) => {
-    idMap.set(task.id, task);
-  });
-  if (!idMap.size) {
-    return applySummaryEnvelopes(
-      rows.map((row, idx) => ({
-        ...row,
-        IsSummary: summaryMeta[idx]?.isSummary ?? row.IsSummary,
-      })),
-      summaryMeta
-    );
-  }
-  const defaultStart = (() => {
-    let min = Infinity;
-    logicTasks.forEach((task) => {
-      if (Number.isFinite(task.baseES)) min = Math.min(min, task.baseES);
-    });
-    return Number.isFinite(min) ? min : 0;
-  })();
-  const anchor = (task) =>
-    Number.isFinite(task.baseES) ? task.baseES : defaultStart;
-  logicTasks.forEach((task) => {
-    if (!Number.isFinite(task.duration)) task.duration = 0;
-  });
-  const impactList = Array.isArray(impact?.impacts)
-    ? impact.impacts
-    : Number.isFinite(Number(impact?.activityId))
-    ? [impact]
-    : [];
-  impactList.forEach((entry) => {
-    const hit = idMap.get(Number(entry.activityId));
-    if (hit) {
-      const delta = Number(entry.deltaDays) || 0;
-      hit.duration = Math.max(0, hit.duration + delta);
-    }
-  });
-  const edges = rels
-    .filter((rel) => idMap.has(rel.PredID) && idMap.has(rel.SuccID))
-    .map((rel) => ({ ...rel, RelType: normalizeRelType(rel.RelType) }));
-  const succMap = new Map();
-  const indegree = new Map(Array.from(idMap.values()).map((task) => [task.id, 0]));
-  const push = (map, key, value) => {
-    const arr = map.get(key) || [];
-    arr.push(value);
-    map.set(key, arr);
-  };
-  edges.forEach((rel) => {
-    push(succMap, rel.PredID, rel);
-    indegree.set(rel.SuccID, (indegree.get(rel.SuccID) ?? 0) + 1);
-  });
-  const queue = logicTasks
-    .filter((task) => (indegree.get(task.id) ?? 0) === 0)
-    .sort((a, b) => anchor(a) - anchor(b));
-  const pending = new Map();
-  const topo = [];
-  while (queue.length) {
-    const current = queue.shift();
-    topo.push(current.id);
-    const startReq = pending.get(current.id);
-    const start = Number.isFinite(startReq)
-      ? Math.max(startReq, anchor(current))
-      : anchor(current);
-    current.ES = start;
-    current.EF = current.ES + current.duration * DAY_MS;
-    for (const rel of succMap.get(current.id) || []) {
-      const succ = idMap.get(rel.SuccID);
-      if (!succ) continue;
-      const lagMs = (Number(rel.Lag_d) || 0) * DAY_MS;
-      let needed = current.EF + lagMs;
-      if (rel.RelType === "SS") {
-        needed = current.ES + lagMs;
-      } else if (rel.RelType === "FF") {
-        needed = current.EF + lagMs - succ.duration * DAY_MS;
-      } else if (rel.RelType === "SF") {
-        needed = current.ES + lagMs - succ.duration * DAY_MS;
-      }
-      const prev = pending.get(succ.id);
-      pending.set(succ.id, prev !== undefined ? Math.max(prev, needed) : needed);
-      const deg = (indegree.get(succ.id) ?? 0) - 1;
-      indegree.set(succ.id, deg);
-      if (deg === 0) {
-        queue.push(succ);
-        queue.sort((a, b) => anchor(a) - anchor(b));
-      }
-    }
-  }
-  idMap.forEach((task) => {
-    if (!Number.isFinite(task.ES)) {
-      task.ES = anchor(task);
-      task.EF = task.ES + task.duration * DAY_MS;
-    }
-  });
-  const topoOrder = topo.slice();
-  idMap.forEach((task) => {
-    if (!topoOrder.includes(task.id)) topoOrder.push(task.id);
-  });
-  const projectFinish = topoOrder.reduce((max, id) => {
-    const t = idMap.get(id);
-    if (!t) return max;
-    const ef = Number.isFinite(t.EF)
-      ? t.EF
-      : Number.isFinite(t.baseEF)
-      ? t.baseEF
-      : anchor(t) + t.duration * DAY_MS;
-    return Math.max(max, ef);
-  }, defaultStart);
-  const reverse = topoOrder.slice().reverse();
-  for (const id of reverse) {
-    const task = idMap.get(id);
-    if (!task) continue;
-    const outgoing = succMap.get(id) || [];
-    let lfLimit = Infinity;
-    let lsLimit = Infinity;
-    for (const rel of outgoing) {
-      const succ = idMap.get(rel.SuccID);
-      if (!succ) continue;
-      const lagMs = (Number(rel.Lag_d) || 0) * DAY_MS;
-      if (rel.RelType === "FS") {
-        lfLimit = Math.min(
-          lfLimit,
-          (succ.ES ?? anchor(succ)) - lagMs
-        );
-      } else if (rel.RelType === "FF") {
-        lfLimit = Math.min(
-          lfLimit,
-          (succ.EF ?? (succ.ES + succ.duration * DAY_MS)) - lagMs
-        );
-      } else if (rel.RelType === "SS") {
-        lsLimit = Math.min(
-          lsLimit,
-          (succ.ES ?? anchor(succ)) - lagMs
-        );
-      } else if (rel.RelType === "SF") {
-        lsLimit = Math.min(
-          lsLimit,
-          (succ.EF ?? (succ.ES + succ.duration * DAY_MS)) - lagMs
-        );
-      }
-    }
-    let lf = Number.isFinite(lfLimit)
-      ? lfLimit
-      : Math.max(
-          task.EF ?? (task.baseEF ?? projectFinish),
-          projectFinish
-        );
-    let ls = lf - task.duration * DAY_MS;
-    if (Number.isFinite(lsLimit)) {
-      ls = Math.min(ls, lsLimit);
-      lf = ls + task.duration * DAY_MS;
-    }
-    if (!Number.isFinite(lf))
-      lf = task.EF ?? (task.baseEF ?? projectFinish);
-    if (!Number.isFinite(ls)) ls = lf - task.duration * DAY_MS;
-    task.LF = lf;
-    task.LS = ls;
-  }
-  idMap.forEach((task) => {
-    const tfMs = (task.LS ?? task.ES ?? anchor(task)) - (task.ES ?? anchor(task));
-    task.TotalFloat_d = Math.round(tfMs / DAY_MS);
-    const outgoing = succMap.get(task.id) || [];
-    let minConstraint = Infinity;
-    for (const rel of outgoing) {
-      const succ = idMap.get(rel.SuccID);
-      if (!succ) continue;
-      const lagMs = (Number(rel.Lag_d) || 0) * DAY_MS;
-      if (rel.RelType === "FS") {
-        minConstraint = Math.min(
-          minConstraint,
-          (succ.ES ?? anchor(succ)) - lagMs
-        );
-      } else if (rel.RelType === "FF") {
-        minConstraint = Math.min(
-          minConstraint,
-          (succ.EF ?? (succ.ES + succ.duration * DAY_MS)) - lagMs
-        );
-      }
-    }
-    if (minConstraint < Infinity) {
-      const ffMs =
-        minConstraint - (task.EF ?? (task.ES + task.duration * DAY_MS));
-      task.FreeFloat_d = Math.max(0, Math.round(ffMs / DAY_MS));
-    } else {
-      task.FreeFloat_d = Math.max(0, task.TotalFloat_d);
-    }
-  });
-  const updated = rows.map((row, idx) => {
-    const id = Number(row.ActivityID);
-    const task = idMap.get(id);
-    if (!task) {
-      return {
-        ...row,
-        IsSummary: summaryMeta[idx]?.isSummary ?? row.IsSummary,
-      };
-    }
-    const ES = toISODate(task.ES);
-    const EF = toISODate(task.EF);
-    const LS = toISODate(task.LS ?? task.baseLS);
-    const LF = toISODate(task.LF ?? task.baseLF);
-    return {
-      ...row,
-      ES: ES ?? row.ES,
-      EF: EF ?? row.EF,
-      LS: LS ?? row.LS,
-      LF: LF ?? row.LF,
-      DurDays: Math.round(task.duration * 100) / 100,
-      TotalFloat_d: task.TotalFloat_d ?? row.TotalFloat_d,
-      FreeFloat_d: task.FreeFloat_d ?? row.FreeFloat_d,
-      IsSummary: summaryMeta[idx]?.isSummary ?? row.IsSummary,
-    };
-  });
-  return applySummaryEnvelopes(updated, summaryMeta);
+function prepareRows(rows) {
+  return withRowIndex(withBaselineAnchors(annotateSummaries(rows)));
 }
 
 // Pure helper for tests and hook
@@ -573,42 +391,78 @@ function useScale(items) {
 }
 
 // Relationship parsing helpers (no-regex to avoid editor escaping issues)
-function parseLinkToken(token, succId) {
+// Tokens read as <ID>[type][+/-lag]: "101", "101FS+3", "A1010 SS", "CIV-220SS+3d"
+function parseLinkToken(token, succId, knownIds = null) {
   if (token === undefined || token === null) return null;
   const t = String(token).trim();
   if (!t) return null;
-  let i = 0;
-  while (i < t.length && t[i] >= '0' && t[i] <= '9') i++;
-  const idStr = t.slice(0, i);
-  const id = Number(idStr);
-  if (!Number.isFinite(id)) return null;
-  let rest = t.slice(i).trim();
-  let RelType = 'FS';
-  const maybeType = rest.slice(0,2).toUpperCase();
-  if (["FS","SS","FF","SF"].includes(maybeType)) {
-    RelType = maybeType;
-    rest = rest.slice(2).trim();
-  }
+  const SuccID = normalizeActivityId(succId);
+  if (knownIds?.has(t)) return { PredID: t, SuccID, RelType: 'FS', Lag_d: 0 };
+  const isDigit = (c) => c >= '0' && c <= '9';
+  const isLetter = (c) => c.toLowerCase() !== c.toUpperCase();
+  const allDigits = (str) => str.length > 0 && str.split('').every(isDigit);
+
+  // Trailing lag: sign, number, optional unit letters ("+3", "- 2", "+1.5d")
+  let body = t;
   let Lag_d = 0;
-  const plus = rest.indexOf('+');
-  const minus = rest.indexOf('-');
-  let pos = -1; let sign = 1;
-  if (plus !== -1 && (minus === -1 || plus < minus)) { pos = plus; sign = 1; }
-  else if (minus !== -1) { pos = minus; sign = -1; }
-  if (pos !== -1) {
-    let j = pos + 1;
-    let numStr = '';
-    while (j < rest.length && rest[j] === ' ') j++;
-    while (j < rest.length && rest[j] >= '0' && rest[j] <= '9') { numStr += rest[j]; j++; }
-    if (numStr) Lag_d = sign * Number(numStr);
+  let hasLag = false;
+  let j = t.length;
+  while (j > 0 && isLetter(t[j - 1])) j--;
+  const unit = t.slice(j);
+  let LagHours;
+  while (j > 0 && t[j - 1] === ' ') j--;
+  let k = j;
+  while (k > 0 && (isDigit(t[k - 1]) || t[k - 1] === '.')) k--;
+  const numStr = t.slice(k, j);
+  let m = k;
+  while (m > 0 && t[m - 1] === ' ') m--;
+  const sign = t[m - 1];
+  if (numStr && isDigit(numStr[0]) && (sign === '+' || sign === '-') && Number.isFinite(Number(numStr))) {
+    hasLag = true;
+    Lag_d = (sign === '-' ? -1 : 1) * Number(numStr);
+    // Hour lags ("+4h") become days on the successor's calendar once calendars are known
+    if (Number.isFinite(hourValue(numStr + unit))) {
+      LagHours = Lag_d;
+      Lag_d = hoursToWorkDays(LagHours, null);
+    }
+    body = t.slice(0, m - 1).trim();
+  }
+
+  // Relationship type directly after the ID: needs a digit or a space in front of it,
+  // so an ID such as "CLASS" is not read as "CLA" + SS
+  const splitType = (str) => {
+    const maybeType = str.slice(-2).toUpperCase();
+    if (!["FS","SS","FF","SF"].includes(maybeType)) return null;
+    const before = str.slice(0, -2);
+    const idPart = before.trim();
+    if (!idPart) return null;
+    if (before !== idPart || isDigit(idPart[idPart.length - 1]) || knownIds?.has(idPart)) {
+      return { idPart, RelType: maybeType };
+    }
+    return null;
+  };
+  if (!body) return null;
+  let typed = splitType(body);
+  // Without a type, "CIV-220" is an ID rather than CIV with a -220 lag
+  if (hasLag && !typed && !allDigits(body) && !knownIds?.has(body)) {
+    body = t;
+    Lag_d = 0;
+    LagHours = undefined;
+    typed = splitType(body);
   }
-  return { PredID: id, SuccID: Number(succId), RelType, Lag_d };
+  const RelType = typed ? typed.RelType : 'FS';
+  if (typed) body = typed.idPart;
+  const PredID = normalizeActivityId(body);
+  if (PredID === undefined) return null;
+  return LagHours !== undefined ? { PredID, SuccID, RelType, Lag_d, LagHours } : { PredID, SuccID, RelType, Lag_d };
 }
-function buildLinksFromPredecessors(rows) {
+function buildLinksFromPredecessors(rows, rejected = null) {
   const edges = [];
+  const idOf = (r) => normalizeActivityId(r.ActivityID ?? r.ID ?? r["Unique ID"] ?? r["UniqueID"]);
+  const knownIds = new Set(rows.map(idOf).filter((id) => id !== undefined));
   for (const r of rows) {
-    const succ = r.ActivityID ?? r.ID ?? r["Unique ID"] ?? r["UniqueID"];
-    if (!Number.isFinite(Number(succ))) continue;
+    const succ = idOf(r);
+    if (succ === undefined) continue;
     // Try common predecessor headers, otherwise fall back to any column containing 'pred'
     let predStr = r.Predecessors ?? r["Predecessor"] ?? r["Predecessors"] ?? r["Links"] ?? r["Dependencies"];
     if (!predStr) {
@@ -618,65 +472,17 @@ function buildLinksFromPredecessors(rows) {
     if (!predStr) continue;
     const parts = String(predStr).split(/[,;]+/);
     for (const p of parts) {
-      const edge = parseLinkToken(p, Number(succ));
+      const edge = parseLinkToken(p, succ, knownIds);
       if (edge) edges.push(edge);
+      else if (rejected && p.trim()) rejected.push({ succId: succ, token: p.trim() });
     }
   }
   return edges;
 }
 
-function applySummaryEnvelopes(rows, meta) {
-  if (!meta?.length) return rows;
-  const ensureSummary = (idx, seen = new Set()) => {
-    if (seen.has(idx)) return;
-    seen.add(idx);
-    const info = meta[idx];
-    if (!info?.isSummary || !info.children?.length) {
-      rows[idx] = { ...rows[idx], IsSummary: info?.isSummary ?? rows[idx].IsSummary };
-      return;
-    }
-    let minES = Infinity;
-    let maxEF = -Infinity;
-    let minLS = Infinity;
-    let maxLF = -Infinity;
-    for (const childIdx of info.children) {
-      if (meta[childIdx]?.isSummary) ensureSummary(childIdx, seen);
-      const child = rows[childIdx];
-      const es = parseDate(child.ES)?.getTime();
-      const ef = parseDate(child.EF)?.getTime();
-      const ls = parseDate(child.LS)?.getTime();
-      const lf = parseDate(child.LF)?.getTime();
-      if (Number.isFinite(es)) minES = Math.min(minES, es);
-      if (Number.isFinite(ef)) maxEF = Math.max(maxEF, ef);
-      if (Number.isFinite(ls)) minLS = Math.min(minLS, ls);
-      if (Number.isFinite(lf)) maxLF = Math.max(maxLF, lf);
-    }
-    if (minES < Infinity && maxEF > -Infinity) {
-      const esIso = toISODate(minES);
-      const efIso = toISODate(maxEF);
-      const lsIso = Number.isFinite(minLS) ? toISODate(minLS) : esIso;
-      const lfIso = Number.isFinite(maxLF) ? toISODate(maxLF) : efIso;
-      rows[idx] = {
-        ...rows[idx],
-        ES: esIso ?? rows[idx].ES,
-        EF: efIso ?? rows[idx].EF,
-        LS: lsIso ?? rows[idx].LS,
-        LF: lfIso ?? rows[idx].LF,
-        DurDays: Math.max(0, Math.round((maxEF - minES) / DAY_MS)),
-        IsSummary: true,
-      };
-    } else {
-      rows[idx] = { ...rows[idx], IsSummary: true };
-    }
-  };
-  for (let i = rows.length - 1; i >= 0; i--) {
-    if (meta[i]?.isSummary) ensureSummary(i);
-  }
-  return rows;
-}
-
 
-function readRelationshipSheet(wb) {
+// Links from a dedicated sheet; rows with an unknown RelType are skipped and reported through `rejected`
+function readRelationshipSheet(wb, rejected = null) {
   const prefer = ["Relationships","Links","Logic","CPM_Relationships","Predecessor_Successor"];
   const hit = wb.SheetNames.find(n => prefer.includes(n));
   if (!hit) return [];
@@ -684,103 +490,1273 @@ function readRelationshipSheet(wb) {
   const raw = XLSX.utils.sheet_to_json(sheet, { defval: '' });
   const edges = [];
   for (const e of raw) {
-    const PredID = Number(e.PredID ?? e.Predecessor ?? e.Pred ?? e.From ?? e["Pred ID"]);
-    const SuccID = Number(e.SuccID ?? e.Successor ?? e.Succ ?? e.To ?? e["Succ ID"]);
-    const RelType = String(e.RelType ?? e.Type ?? 'FS').toUpperCase();
-    const Lag_d = Number(e.Lag_d ?? e.Lag ?? 0);
-    if (Number.isFinite(PredID) && Number.isFinite(SuccID)) edges.push({ PredID, SuccID, RelType, Lag_d });
+    const PredID = normalizeActivityId(e.PredID ?? e.Predecessor ?? e.Pred ?? e.From ?? e["Pred ID"]);
+    const SuccID = normalizeActivityId(e.SuccID ?? e.Successor ?? e.Succ ?? e.To ?? e["Succ ID"]);
+    if (PredID === undefined || SuccID === undefined) continue;
+    const typeCell = String(e.RelType ?? e.Type ?? '').trim();
+    const RelType = (typeCell || 'FS').toUpperCase();
+    if (!["FS","SS","FF","SF"].includes(RelType)) {
+      rejected?.push({ succId: SuccID, token: `${PredID} ${typeCell}` });
+      continue;
+    }
+    const lagCell = e.Lag_d ?? e.Lag ?? 0;
+    // Hour lags ("4h", or a LagHours column) become days on the successor's calendar once calendars are known
+    const LagHours = Number.isFinite(Number(e.LagHours)) && e.LagHours !== "" && e.LagHours !== null ? Number(e.LagHours) : hourValue(lagCell);
+    if (Number.isFinite(LagHours)) edges.push({ PredID, SuccID, RelType, Lag_d: hoursToWorkDays(LagHours, null), LagHours });
+    else edges.push({ PredID, SuccID, RelType, Lag_d: Number(lagCell) || 0 });
   }
   return edges;
 }
 
-function LegendItem({ color, label }) {
+const SCHEDULE_SHEET_NAMES = [
+  'Schedule - CPM Results','CPM_Schedule_Results','CPM Results','Schedule_Results',
+  'Activities','Tasks','Task_Table'
+];
+
+function pickScheduleSheet(wb) {
+  return wb.SheetNames.find(n => SCHEDULE_SHEET_NAMES.includes(n)) ?? wb.SheetNames[0];
+}
+
+// Mapped workbook rows with Start/Finish/Duration fallbacks, ready for normalizeRow
+function mapScheduleRows(raw, mapping) {
+  return applyColumnMapping(raw, mapping).map(r => {
+    if (!r.ES && (r.Start || r['Start'])) r.ES = r.ES || r.Start || r['Start'];
+    if (!r.EF && (r.Finish || r['Finish'])) r.EF = r.EF || r.Finish || r['Finish'];
+    if (!('DurDays' in r) && !('DurHours' in r) && (r.Duration || r['Duration'])) {
+      const s = String(r.Duration || r['Duration']).toLowerCase();
+      const m = s.match(/(-?[0-9]+)/);
+      r.DurDays = m ? Number(m[1]) : Number(r.Duration || 0);
+    }
+    return r;
+  });
+}
+
+// Largest trailing number among ids like "baseline-3", for counters that continue a stored list
+const highestIdNumber = (items) => Math.max(0, ...items.map((item) => Number(String(item.id).match(/(\d+)$/)?.[1]) || 0));
+
+function downloadBlob(data, type, fileName) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function downloadWorkbook(wb, fileName) {
+  const data = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+  downloadBlob(data, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", fileName);
+}
+
+// 1-based sheet row of each sheet_to_json row; blank rows are skipped, so the index alone drifts
+const sheetRowNumbers = (raw) => raw.map((r, idx) => (Number.isInteger(r.__rowNum__) ? r.__rowNum__ + 1 : idx + 2));
+
+function readScheduleSheet(wb, sheetName) {
+  const raw = XLSX.utils.sheet_to_json(wb.Sheets[sheetName], { defval: '' });
+  const headers = readSheetHeaders(raw);
+  const signature = headerSignature(headers);
+  const saved = loadSavedMapping(signature);
+  return { sheetName, raw, headers, signature, saved, mapping: saved ?? detectColumnMapping(headers) };
+}
+
+// Projects kept in this browser: save the loaded one, reopen, rename or delete, with storage usage
+function ProjectsPanel({ projects, currentId, name, onNameChange, available, usage, onSave, onOpen, onRename, onDelete, status }) {
+  const [open, setOpen] = useState(true);
+  const [editing, setEditing] = useState(null);
+  const [confirmDelete, setConfirmDelete] = useState(null);
+  const commitRename = () => {
+    if (editing?.name.trim()) onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
   return (
-    <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm" style={{ background: color }} />
-      <span className="text-sm text-muted-foreground">{label}</span>
-    </div>
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="projects-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Projects</div>
+            <p className="text-xs text-muted-foreground">
+              Schedules, baselines, scenarios and view settings saved in this browser. Saved projects keep saving as you work.
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="projects-panel" className="space-y-3">
+            {!available ? (
+              <div className="text-xs text-muted-foreground">Browser storage (IndexedDB) is unavailable here, so projects cannot be saved.</div>
+            ) : (
+              <>
+                <div className="flex flex-col gap-2 md:flex-row md:items-center">
+                  <Input className="rounded-xl md:w-80" placeholder="Project name" value={name} onChange={(e) => onNameChange(e.target.value)} />
+                  <div className="flex gap-2">
+                    <Button size="sm" className="rounded-full" onClick={() => onSave(false)}>
+                      <Save className="w-4 h-4 mr-1" />
+                      {currentId ? "Save" : "Save project"}
+                    </Button>
+                    {currentId && (
+                      <Button size="sm" variant="secondary" className="rounded-full" onClick={() => onSave(true)}>
+                        Save as new
+                      </Button>
+                    )}
+                  </div>
+                  {usage && (
+                    <span className="text-xs text-muted-foreground md:ml-auto">
+                      Projects {formatBytes(usage.projects)}
+                      {usage.used != null && ` · browser storage ${formatBytes(usage.used)}${usage.quota != null ? ` of ${formatBytes(usage.quota)}` : ""}`}
+                    </span>
+                  )}
+                </div>
+                {projects.length === 0 ? (
+                  <div className="text-xs text-muted-foreground">No saved projects yet. Load a schedule and save it to reopen it after a refresh.</div>
+                ) : (
+                  <div className="max-h-72 overflow-auto rounded-xl border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Recent projects</th>
+                          <th className="px-3 py-2 text-left">Source</th>
+                          <th className="px-3 py-2 text-right">Activities</th>
+                          <th className="px-3 py-2 text-left">Saved</th>
+                          <th className="px-3 py-2 text-right">Size</th>
+                          <th className="px-3 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {projects.map((p) => (
+                          <tr key={p.id} className={p.id === currentId ? "bg-sky-50" : undefined}>
+                            <td className="px-3 py-2">
+                              {editing?.id === p.id ? (
+                                <Input
+                                  autoFocus
+                                  className="h-8 rounded-lg"
+                                  value={editing.name}
+                                  onChange={(e) => setEditing({ id: p.id, name: e.target.value })}
+                                  onBlur={commitRename}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter") commitRename();
+                                    if (e.key === "Escape") setEditing(null);
+                                  }}
+                                />
+                              ) : (
+                                <span className="font-medium">{p.name}</span>
+                              )}
+                              {p.id === currentId && (
+                                <Badge variant="secondary" className="ml-2 rounded-full text-[11px]">
+                                  Open
+                                </Badge>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-xs text-muted-foreground">{p.fileName}</td>
+                            <td className="px-3 py-2 text-right">{p.activityCount}</td>
+                            <td className="px-3 py-2 text-xs">{p.savedAt ? fmt(new Date(p.savedAt)) : "—"}</td>
+                            <td className="px-3 py-2 text-right text-xs">{formatBytes(p.bytes)}</td>
+                            <td className="px-3 py-2">
+                              <div className="flex justify-end gap-1">
+                                <Button size="sm" variant="ghost" className="rounded-full" onClick={() => onOpen(p.id)} disabled={p.id === currentId}>
+                                  Open
+                                </Button>
+                                <Button size="sm" variant="ghost" className="rounded-full" onClick={() => setEditing({ id: p.id, name: p.name })}>
+                                  Rename
+                                </Button>
+                                {confirmDelete === p.id ? (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="rounded-full text-red-600"
+                                    onClick={() => {
+                                      setConfirmDelete(null);
+                                      onDelete(p.id);
+                                    }}
+                                    onBlur={() => setConfirmDelete(null)}
+                                  >
+                                    Confirm delete
+                                  </Button>
+                                ) : (
+                                  <Button size="icon" variant="ghost" className="rounded-full" aria-label={`Delete ${p.name}`} onClick={() => setConfirmDelete(p.id)}>
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+            {status && <div className="text-xs text-muted-foreground">{status}</div>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
   );
 }
 
-function KPI({ label, value, icon: Icon, tone = "" }) {
+function ColumnMappingWizard({ state, onSheetChange, onFieldChange, onConfirm, onCancel }) {
+  const missing = missingRequiredFields(state.mapping);
+  const preview = (header) => {
+    if (!header) return "";
+    return state.raw
+      .map((r) => r[header])
+      .filter((v) => v !== "" && v !== undefined && v !== null)
+      .slice(0, 3)
+      .map((v) => (v instanceof Date ? fmt(v) : String(v)))
+      .join(", ");
+  };
   return (
-    <Card className={"shadow-sm rounded-2xl " + (tone || "") }>
-      <CardContent className="p-4 flex items-center gap-3">
-        <div className="p-2 rounded-xl bg-muted"><Icon className="w-5 h-5" /></div>
-        <div>
-          <div className="text-xs text-muted-foreground">{label}</div>
-          <div className="text-xl font-semibold">{value}</div>
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <div className="text-sm font-semibold">Map columns — {state.fileName}</div>
+            <p className="text-xs text-muted-foreground">
+              Assign the sheet's headers to schedule fields. The mapping is remembered for workbooks with the same headers.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="text-xs text-muted-foreground">Sheet</div>
+            <Select value={state.sheetName} onValueChange={onSheetChange}>
+              <SelectTrigger className="rounded-xl md:w-64"><SelectValue placeholder="Select sheet" /></SelectTrigger>
+              <SelectContent>
+                {state.wb.SheetNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid gap-2">
+          {MAPPING_FIELDS.map((field) => {
+            const header = state.mapping[field.key] ?? "";
+            const isMissing = missing.includes(field.key);
+            return (
+              <div key={field.key} className="grid gap-2 md:grid-cols-[180px_260px_1fr] md:items-center">
+                <div className="text-sm">
+                  {field.label}
+                  {field.required && <span className="text-red-500"> *</span>}
+                </div>
+                <Select value={header || "__none"} onValueChange={(val) => onFieldChange(field.key, val === "__none" ? undefined : val)}>
+                  <SelectTrigger className={"rounded-xl " + (isMissing ? "ring-1 ring-red-300" : "")}>
+                    <SelectValue placeholder="Not mapped" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-64">
+                    <SelectItem value="__none">— Not mapped —</SelectItem>
+                    {state.headers.map((h) => (
+                      <SelectItem key={h} value={h}>{h}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-muted-foreground truncate">{preview(header) || (header ? "(empty column)" : "")}</div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div className="text-xs text-muted-foreground">
+            {state.raw.length} rows · {state.headers.length} columns
+            {missing.length > 0 &&
+              ` · Map ${missing
+                .map((key) => (key === "EF" ? "Finish (EF) or Duration" : MAPPING_FIELDS.find((f) => f.key === key)?.label))
+                .join(", ")} to continue`}
+          </div>
+          <div className="flex gap-2">
+            <Button className="rounded-2xl" onClick={onConfirm} disabled={missing.length > 0}>
+              Load schedule
+            </Button>
+            <Button variant="ghost" className="rounded-2xl" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
         </div>
       </CardContent>
     </Card>
   );
 }
 
-function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showLinks = false, rels = [], zoom = 1, labelWidth = 220 }) {
-  const wrapperRef = useRef(null);
-  const [width, setWidth] = useState(1000);
-  useEffect(() => {
-    const obs = new ResizeObserver((entries) => {
-      for (const e of entries) setWidth(e.contentRect.width);
-    });
-    if (wrapperRef.current) obs.observe(wrapperRef.current);
-    return () => obs.disconnect();
-  }, []);
+function DiagnosticsPanel({ entries, onShowRow, onDownload }) {
+  const [open, setOpen] = useState(true);
+  const [category, setCategory] = useState("all");
+  const errors = entries.filter((e) => e.severity === "error").length;
+  const warnings = entries.length - errors;
+  const categories = useMemo(() => Array.from(new Set(entries.map((e) => e.category))), [entries]);
+  const visible = category === "all" ? entries : entries.filter((e) => e.category === category);
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <button
+            type="button"
+            onClick={() => setOpen((prev) => !prev)}
+            className="flex items-center gap-2 text-left"
+            aria-expanded={open}
+          >
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+            <div className="text-sm font-semibold">Import diagnostics</div>
+            {errors > 0 && <Badge className="rounded-full bg-red-600 text-white">{errors} error{errors === 1 ? "" : "s"}</Badge>}
+            {warnings > 0 && <Badge variant="secondary" className="rounded-full">{warnings} warning{warnings === 1 ? "" : "s"}</Badge>}
+            <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+          </button>
+          <div className="flex items-center gap-2">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="rounded-xl w-48"><SelectValue placeholder="All issues" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All issues</SelectItem>
+                {categories.map((c) => (
+                  <SelectItem key={c} value={c}>{c}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" className="rounded-full" onClick={onDownload}>
+              <Download className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
+        {open && (
+          <div className="max-h-64 overflow-auto divide-y rounded-xl border">
+            {visible.map((entry, idx) => (
+              <div key={idx} className="flex items-start gap-3 px-3 py-2 text-sm">
+                <Badge
+                  variant={entry.severity === "error" ? "default" : "outline"}
+                  className={"rounded-full shrink-0 " + (entry.severity === "error" ? "bg-red-600 text-white" : "")}
+                >
+                  {entry.category}
+                </Badge>
+                <div className="flex-1">
+                  <div>{entry.message}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.sourceRow != null ? `Row ${entry.sourceRow}` : "Workbook"}
+                    {entry.activityId !== "" ? ` · ID ${entry.activityId}` : ""}
+                  </div>
+                </div>
+                {entry.rowIndex != null && (
+                  <Button size="sm" variant="ghost" className="rounded-full shrink-0" onClick={() => onShowRow(entry)}>
+                    Show
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
-  const domain = useScale(data);
-  const min = domain.min;
-  const max = domain.max;
-  const [today] = useState(() => new Date());
-  const showToday = domain.min && domain.max && today >= domain.min && today <= domain.max;
-  const rowHeight = 28;
-  const barRadius = 8;
-  const axisHeight = 48;
-  const chartTop = 16;
-  const chartHeight = chartTop + (data.length + 1) * rowHeight + 20;
-  const idColumnWidth = 60;
-  const leftPadding = 12;
-  const gapBetween = 12;
-  const effectiveLabelWidth = Math.max(80, Math.min(400, labelWidth));
-  const leftGutter = leftPadding + idColumnWidth + gapBetween + effectiveLabelWidth;
-  const rightPadding = 80;
-  const domainMin = domain.min ? domain.min.getTime() : 0;
-  const domainMax = domain.max ? domain.max.getTime() : domainMin + 1;
-  const totalMs = Math.max(1, domainMax - domainMin);
-  const baseChartWidth = Math.max(200, width - leftGutter - rightPadding);
-  const chartWidth = baseChartWidth * zoom;
-  const svgWidth = leftGutter + chartWidth + rightPadding;
-  const scaleX = (date) => {
-    const t = parseDate(date)?.getTime();
-    const clamped = Number.isFinite(t) ? t : domainMin;
-    const ratio = (clamped - domainMin) / totalMs;
-    return leftGutter + ratio * chartWidth;
-  };
+function LogicLoopsPanel({ loops, selected, onSelect, allowRuns, onAllowRunsChange }) {
+  return (
+    <Card className="rounded-2xl border-red-200">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-red-600" />
+            <div className="text-sm font-semibold">Logic loops</div>
+            <Badge className="rounded-full bg-red-600 text-white">{loops.length}</Badge>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch checked={allowRuns} onCheckedChange={onAllowRunsChange} />
+            Run scenarios anyway (loop activities keep their imported start)
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          These activities depend on themselves through their links, so no forward or backward pass can order them.
+          Remove or retype one link in each loop.
+        </p>
+        <div className="max-h-64 overflow-auto divide-y rounded-xl border">
+          {loops.map((loop, idx) => (
+            <div key={idx} className={"flex items-start gap-3 px-3 py-2 text-sm " + (selected === idx ? "bg-red-50" : "")}>
+              <Badge variant="outline" className="rounded-full shrink-0">Loop {idx + 1}</Badge>
+              <div className="flex-1 space-y-1">
+                <div className="font-mono text-xs break-words">{loop.path.join(" → ")}</div>
+                <div className="text-xs text-muted-foreground">
+                  {loop.ids.length} activit{loop.ids.length === 1 ? "y" : "ies"}: {loop.ids.join(", ")}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Links:{" "}
+                  {loop.links
+                    .map((l) => `${l.PredID} → ${l.SuccID} ${l.RelType || "FS"}${l.Lag_d ? `${l.Lag_d > 0 ? "+" : ""}${l.Lag_d}d` : ""}`)
+                    .join("; ")}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant={selected === idx ? "secondary" : "ghost"}
+                className="rounded-full shrink-0"
+                onClick={() => onSelect(selected === idx ? null : idx)}
+              >
+                {selected === idx ? "Hide" : "Trace"}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
-  const buildAxis = useMemo(() => {
-    if (!min || !max) return { ticks: [], fmt: () => "" };
-    let mode = 'month';
-    if (zoom >= 3) mode = 'day';
-    else if (zoom >= 2) mode = 'week';
-    else if (zoom >= 1) mode = 'month';
-    else if (zoom >= 0.8) mode = 'quarter';
-    else mode = 'year';
-    const ticks = [];
-    const d = new Date(min);
-    if (mode === 'day') {
-      while (d <= max) { ticks.push(new Date(d)); d.setDate(d.getDate() + 1); }
-    } else if (mode === 'week') {
-      const day = d.getDay(); const delta = (day === 0 ? 6 : day - 1); d.setDate(d.getDate() - delta);
-      while (d <= max) { ticks.push(new Date(d)); d.setDate(d.getDate() + 7); }
-    } else if (mode === 'month') {
-      d.setDate(1); while (d <= max) { ticks.push(new Date(d)); d.setMonth(d.getMonth() + 1); }
-    } else if (mode === 'quarter') {
-      d.setMonth(Math.floor(d.getMonth() / 3) * 3, 1); while (d <= max) { ticks.push(new Date(d)); d.setMonth(d.getMonth() + 3); }
-    } else {
-      d.setMonth(0,1); while (d <= max) { ticks.push(new Date(d)); d.setFullYear(d.getFullYear() + 1); }
-    }
-    const fmtTick = (t) => {
-      if (mode === 'day') return t.toLocaleDateString(undefined, { month: 'short', day: '2-digit' });
-      if (mode === 'week') return 'Wk ' + getISOWeek(t) + ' ' + t.getFullYear().toString().slice(-2);
-      if (mode === 'month') return t.toLocaleString(undefined, { month: 'short', year: '2-digit' });
+function DrivingPathPanel({ path, targetId, options, onTargetChange, onShowRow, onDownload }) {
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <div className="text-sm font-semibold">Driving path</div>
+            <p className="text-xs text-muted-foreground">
+              Predecessors with zero relationship free float, traced back from the selected activity.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={targetId ?? ""} onValueChange={(v) => onTargetChange(v || null)}>
+              <SelectTrigger className="rounded-xl w-64"><SelectValue placeholder="Select an activity" /></SelectTrigger>
+              <SelectContent>
+                {options.map((opt) => (
+                  <SelectItem key={opt.id} value={opt.id}>{opt.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" className="rounded-full" onClick={onDownload} disabled={!path?.length}>
+              <Download className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+            {targetId && (
+              <Button size="sm" variant="ghost" className="rounded-full" onClick={() => onTargetChange(null)}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+        {targetId && !path && (
+          <div className="text-sm text-muted-foreground">Activity {targetId} is not in the current schedule.</div>
+        )}
+        {path && (
+          <div className="max-h-72 overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">#</th>
+                  <th className="px-3 py-2 text-left">Activity</th>
+                  <th className="px-3 py-2 text-left">Start</th>
+                  <th className="px-3 py-2 text-left">Finish</th>
+                  <th className="px-3 py-2 text-right">TF</th>
+                  <th className="px-3 py-2 text-left">Driving link</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {path.map((step, idx) => (
+                  <tr key={step.id} className={step.id === targetId ? "bg-teal-50" : undefined}>
+                    <td className="px-3 py-2 text-muted-foreground">{idx + 1}</td>
+                    <td className="px-3 py-2">
+                      <span className="font-mono">{step.id}</span> — {step.TaskName}
+                    </td>
+                    <td className="px-3 py-2">{fmt(parseDate(step.ES))}</td>
+                    <td className="px-3 py-2">{fmt(parseDate(step.EF))}</td>
+                    <td className="px-3 py-2 text-right">{step.TotalFloat_d}</td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {step.drives.length
+                        ? step.drives
+                            .map((d) => `→ ${d.SuccID} ${d.RelType}${d.Lag_d ? `${d.Lag_d > 0 ? "+" : ""}${d.Lag_d}d` : ""}`)
+                            .join(", ")
+                        : "Traced activity"}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button size="sm" variant="ghost" className="rounded-full" onClick={() => onShowRow(step)}>
+                        Show
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BaselinesPanel({ baselines, loadedFinish, comparisonId, onCompare, coverageOf, captureLabel, onCapture, onImport, onDelete, status }) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const comparing = baselines.find((b) => b.id === comparisonId);
+  const entries = [
+    { id: UPLOAD_BASELINE_ID, name: "As loaded", source: "Dates at upload", createdAt: null, finish: loadedFinish },
+    ...baselines,
+  ];
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="baselines-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Baselines</div>
+            <p className="text-xs text-muted-foreground">
+              Comparing against {comparing ? `"${comparing.name}"` : "the schedule as loaded"} · {baselines.length} stored baseline{baselines.length === 1 ? "" : "s"}.
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="baselines-panel" className="space-y-3">
+            <div className="flex flex-col gap-2 md:flex-row md:items-center">
+              <Input
+                placeholder="Baseline name (e.g. Contract baseline)"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="rounded-xl md:w-72"
+              />
+              <Button
+                size="sm"
+                className="rounded-full"
+                onClick={() => {
+                  onCapture(name.trim());
+                  setName("");
+                }}
+              >
+                <PlusCircle className="w-4 h-4 mr-1" />
+                {captureLabel}
+              </Button>
+              <label className="inline-flex items-center gap-2 cursor-pointer rounded-full border px-3 py-1.5 text-sm hover:bg-muted transition-colors">
+                <Upload className="w-4 h-4" />
+                Import from workbook
+                <input
+                  type="file"
+                  accept=".xlsx,.xls"
+                  className="hidden"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (!file) return;
+                    await onImport(file, name.trim());
+                    setName("");
+                  }}
+                />
+              </label>
+            </div>
+            {status && <div className="text-xs text-muted-foreground">{status}</div>}
+            <div className="max-h-72 overflow-auto rounded-xl border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Baseline</th>
+                    <th className="px-3 py-2 text-left">Source</th>
+                    <th className="px-3 py-2 text-left">Created</th>
+                    <th className="px-3 py-2 text-left">Project finish</th>
+                    <th className="px-3 py-2 text-right">Matched</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {entries.map((b) => {
+                    const active = b.id === comparisonId;
+                    const coverage = b.id === UPLOAD_BASELINE_ID ? null : coverageOf(b);
+                    return (
+                      <tr key={b.id} className={active ? "bg-muted/50" : undefined}>
+                        <td className="px-3 py-2 font-medium">{b.name}</td>
+                        <td className="px-3 py-2 text-muted-foreground">{b.source}</td>
+                        <td className="px-3 py-2">{b.createdAt ? new Date(b.createdAt).toLocaleString() : "-"}</td>
+                        <td className="px-3 py-2">{fmt(b.finish != null ? new Date(b.finish) : null)}</td>
+                        <td className="px-3 py-2 text-right">{coverage ? `${coverage.matched}/${coverage.total}` : "all"}</td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          <Button
+                            size="sm"
+                            variant={active ? "default" : "outline"}
+                            className="rounded-full"
+                            onClick={() => onCompare(b.id)}
+                          >
+                            {active ? "Comparing" : "Compare"}
+                          </Button>
+                          {b.id !== UPLOAD_BASELINE_ID && (
+                            <Button size="icon" variant="ghost" className="rounded-full" onClick={() => onDelete(b.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function UpdateComparisonPanel({ log, previousName, onLoad, onClear, group, onGroupChange, onShowInGantt, onShowRow, onDownload, status }) {
+  const [open, setOpen] = useState(false);
+  const entries = log ? log.entries.filter((e) => group === "all" || e.group === group) : [];
+  const groupLabel = new Map(CHANGE_GROUPS.map((g) => [g.key, g.label]));
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="update-compare-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Update comparison</div>
+            <p className="text-xs text-muted-foreground">
+              {log
+                ? `Against ${previousName} · ${log.entries.length} change${log.entries.length === 1 ? "" : "s"} across ${log.changedIds.size} activit${log.changedIds.size === 1 ? "y" : "ies"}.`
+                : "Load the previous update to list what changed in this one."}
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="update-compare-panel" className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="inline-flex items-center gap-2 cursor-pointer rounded-full border px-3 py-1.5 text-sm hover:bg-muted transition-colors">
+                <Upload className="w-4 h-4" />
+                {log ? "Replace previous update" : "Load previous update"}
+                <input
+                  type="file"
+                  accept=".xlsx,.xls"
+                  className="hidden"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (!file) return;
+                    await onLoad(file);
+                  }}
+                />
+              </label>
+              {log && (
+                <>
+                  <Select value={group} onValueChange={onGroupChange}>
+                    <SelectTrigger className="rounded-xl w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All changes</SelectItem>
+                      {CHANGE_GROUPS.map((g) => (
+                        <SelectItem key={g.key} value={g.key}>{g.label} ({log.counts[g.key]})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" variant="outline" className="rounded-full" onClick={onShowInGantt}>
+                    <Filter className="w-4 h-4 mr-1" />
+                    Show changed rows
+                  </Button>
+                  <Button size="sm" variant="outline" className="rounded-full" onClick={onDownload} disabled={!log.entries.length}>
+                    <Download className="w-4 h-4 mr-1" />
+                    Excel
+                  </Button>
+                  <Button size="sm" variant="ghost" className="rounded-full" onClick={onClear}>
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+            {status && <div className="text-xs text-muted-foreground">{status}</div>}
+            {log && (
+              <div className="flex flex-wrap gap-2">
+                {CHANGE_GROUPS.map((g) => (
+                  <Badge key={g.key} variant={log.counts[g.key] ? "secondary" : "outline"} className="rounded-full">
+                    {g.label}: {log.counts[g.key]}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {log && entries.length > 0 && (
+              <div className="max-h-72 overflow-auto rounded-xl border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Category</th>
+                      <th className="px-3 py-2 text-left">Activity</th>
+                      <th className="px-3 py-2 text-left">Change</th>
+                      <th className="px-3 py-2 text-left">Before</th>
+                      <th className="px-3 py-2 text-left">After</th>
+                      <th className="px-3 py-2 text-right">Delta</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {entries.map((e, idx) => (
+                      <tr key={idx}>
+                        <td className="px-3 py-2 text-muted-foreground">{groupLabel.get(e.group)}</td>
+                        <td className="px-3 py-2">
+                          <span className="font-mono">{e.activityId}</span> — {e.TaskName}
+                        </td>
+                        <td className="px-3 py-2">{e.change}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{String(e.before)}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{String(e.after)}</td>
+                        <td className="px-3 py-2 text-right">{e.delta === "" ? "" : `${e.delta > 0 ? "+" : ""}${e.delta}`}</td>
+                        <td className="px-3 py-2 text-right">
+                          {e.change !== "Deleted activity" && (
+                            <Button size="sm" variant="ghost" className="rounded-full" onClick={() => onShowRow(e.activityId)}>
+                              Show
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {log && !log.entries.length && <div className="text-sm text-muted-foreground">No differences between the two updates.</div>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function HealthCheckPanel({ result, onRun, onShowRow, note }) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState(null);
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="health-check-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Schedule health check (DCMA 14-point)</div>
+            <p className="text-xs text-muted-foreground">
+              {result
+                ? `${result.passed} passed · ${result.failed} failed · ${result.checks.length - result.assessed} not assessed.`
+                : "Logic, float, constraints, dates and performance indices against the DCMA thresholds."}
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="health-check-panel" className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" className="rounded-full" onClick={onRun}>
+                <Play className="w-4 h-4 mr-1" />
+                {result ? "Re-run check" : "Run check"}
+              </Button>
+              {note && <span className="text-xs text-muted-foreground">{note}</span>}
+            </div>
+            {result && (
+              <div className="rounded-xl border divide-y">
+                {result.checks.map((check, idx) => {
+                  const Icon = check.pass === true ? CheckCircle2 : check.pass === false ? XCircle : MinusCircle;
+                  const tone = check.pass === true ? "text-emerald-600" : check.pass === false ? "text-red-600" : "text-muted-foreground";
+                  const isOpen = expanded === check.key;
+                  return (
+                    <div key={check.key}>
+                      <button
+                        type="button"
+                        className="flex w-full items-center gap-3 px-3 py-2 text-left text-sm hover:bg-muted/50"
+                        onClick={() => setExpanded(isOpen ? null : check.key)}
+                        aria-expanded={isOpen}
+                        disabled={!check.offenders.length}
+                      >
+                        <Icon className={`w-4 h-4 shrink-0 ${tone}`} />
+                        <span className="w-6 text-muted-foreground">{idx + 1}</span>
+                        <span className="flex-1">
+                          <span className="font-medium">{check.label}</span>
+                          <span className="block text-xs text-muted-foreground">{check.description}</span>
+                        </span>
+                        <span className="w-28 text-right font-mono">{check.value}</span>
+                        <span className="w-24 text-right text-xs text-muted-foreground">{check.threshold}</span>
+                        <span className="w-24 text-right text-xs">
+                          {check.offenders.length ? `${check.offenders.length} activit${check.offenders.length === 1 ? "y" : "ies"}` : ""}
+                        </span>
+                      </button>
+                      {isOpen && (
+                        <div className="max-h-56 overflow-auto bg-muted/30 px-3 py-2">
+                          {check.offenders.map((o, oIdx) => (
+                            <div key={oIdx} className="flex items-center justify-between gap-2 py-1 text-sm">
+                              <span>
+                                <span className="font-mono">{o.id}</span> — {o.name}
+                                <span className="text-muted-foreground"> · {o.detail}</span>
+                              </span>
+                              <Button size="sm" variant="ghost" className="rounded-full" onClick={() => onShowRow(o)}>
+                                Show
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PrintExportPanel({ rowCount, onDownloadSVG, onDownloadPDF }) {
+  const [open, setOpen] = useState(false);
+  const [paper, setPaper] = useState("A3");
+  const [orientation, setOrientation] = useState("landscape");
+  const [rowsPerPage, setRowsPerPage] = useState(40);
+  const [links, setLinks] = useState(true);
+  const pages = Math.max(1, Math.ceil(rowCount / Math.max(1, rowsPerPage)));
+  const settings = { paper, orientation, rowsPerPage, links };
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="print-export-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Print / vector export</div>
+            <p className="text-xs text-muted-foreground">
+              Every Gantt row on the full timescale, as one SVG sheet or a paginated PDF with title block and page numbers.
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="print-export-panel" className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-4">
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Paper size</div>
+                <Select value={paper} onValueChange={setPaper}>
+                  <SelectTrigger className="rounded-xl"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PAPER_SIZES.map((p) => (
+                      <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Orientation</div>
+                <Select value={orientation} onValueChange={setOrientation}>
+                  <SelectTrigger className="rounded-xl"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="landscape">Landscape</SelectItem>
+                    <SelectItem value="portrait">Portrait</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Rows per page</div>
+                <Input
+                  type="number"
+                  min={5}
+                  max={200}
+                  className="rounded-xl"
+                  value={rowsPerPage}
+                  onChange={(e) => setRowsPerPage(Math.min(200, Math.max(5, Number(e.target.value) || 40)))}
+                />
+              </div>
+              <label className="flex items-center gap-2 self-end pb-2 text-sm">
+                <Switch checked={links} onCheckedChange={setLinks} />
+                Logic links
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" variant="secondary" className="rounded-full" onClick={() => onDownloadSVG(settings)} disabled={!rowCount}>
+                <Download className="w-4 h-4 mr-1" />
+                Download SVG
+              </Button>
+              <Button size="sm" className="rounded-full" onClick={() => onDownloadPDF(settings)} disabled={!rowCount}>
+                <Download className="w-4 h-4 mr-1" />
+                Download PDF
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {rowCount} row{rowCount === 1 ? "" : "s"} · {pages} page{pages === 1 ? "" : "s"} · filters and collapsed WBS branches apply
+              </span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ResourcesPanel({ loading, capacity, onCapacityChange, focus, onFocusChange, showHistogram, onShowHistogramChange, onLevel, status }) {
+  const [open, setOpen] = useState(false);
+  const [priority, setPriority] = useState("float");
+  const [beyondFloat, setBeyondFloat] = useState(false);
+  const overloadedCount = loading ? loading.resources.filter((r) => r.overDays > 0).length : 0;
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="resources-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Resources</div>
+            <p className="text-xs text-muted-foreground">
+              {loading
+                ? `${loading.resources.length} resource${loading.resources.length === 1 ? "" : "s"} · ${overloadedCount} over-allocated · ${loading.overloaded.size} activit${loading.overloaded.size === 1 ? "y" : "ies"} affected.`
+                : "Add a Resources column (\"Crew A[2]; Crane\") or a Resources/Assignments sheet to see loading."}
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && loading && (
+          <div id="resources-panel" className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={showHistogram} onCheckedChange={onShowHistogramChange} />
+                Histogram under the Gantt
+              </label>
+              <Select value={focus} onValueChange={onFocusChange}>
+                <SelectTrigger className="rounded-xl w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All resources (stacked)</SelectItem>
+                  {loading.resources.map((r) => (
+                    <SelectItem key={r.name} value={r.name}>{r.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="rounded-xl border divide-y">
+              <div className="grid grid-cols-[1fr_7rem_6rem_8rem] gap-3 px-3 py-2 text-xs text-muted-foreground">
+                <span>Resource</span>
+                <span>Max units/day</span>
+                <span className="text-right">Peak</span>
+                <span className="text-right">Over-allocated</span>
+              </div>
+              {loading.resources.map((r) => (
+                <div key={r.name} className="grid grid-cols-[1fr_7rem_6rem_8rem] items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex items-center gap-2">
+                    <span className="inline-block h-3 w-3 rounded-sm" style={{ background: r.color }} />
+                    {r.name}
+                  </span>
+                  <Input
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    className="h-8 rounded-xl"
+                    value={capacity[r.name] ?? r.capacity}
+                    onChange={(e) => onCapacityChange(r.name, Number(e.target.value))}
+                  />
+                  <span className="text-right font-mono">{Math.round(r.peak * 100) / 100}</span>
+                  <span className={`text-right text-xs ${r.overDays ? "text-red-600" : "text-muted-foreground"}`}>
+                    {r.overDays ? `${r.overDays} day${r.overDays === 1 ? "" : "s"}` : "—"}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger className="rounded-xl w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LEVELING_PRIORITIES.map((p) => (
+                    <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm" title="Without this, work is only delayed within its total float">
+                <Switch checked={beyondFloat} onCheckedChange={setBeyondFloat} />
+                Delay beyond float
+              </label>
+              <Button size="sm" className="rounded-full" onClick={() => onLevel({ priority, beyondFloat })}>
+                <Play className="w-4 h-4 mr-1" />
+                Level resources
+              </Button>
+            </div>
+            {status && <p className="text-xs text-muted-foreground">{status}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function readResourceSheet(wb) {
+  const hits = wb.SheetNames.filter((n) => /^(resources?|assignments?|resource assignments?)$/i.test(n.trim()));
+  if (!hits.length) return null;
+  return readAssignmentRows(hits.flatMap((n) => XLSX.utils.sheet_to_json(wb.Sheets[n], { defval: '' })));
+}
+
+function readCalendarSheet(wb) {
+  const hit = wb.SheetNames.find((n) => /^(calendars?|work calendars?)$/i.test(n.trim()));
+  if (!hit) return null;
+  return readCalendarRows(XLSX.utils.sheet_to_json(wb.Sheets[hit], { defval: '' }));
+}
+
+function CalendarEditor({ calendars, onChange }) {
+  const [selectedId, setSelectedId] = useState(calendars.projectId);
+  const [holidayDraft, setHolidayDraft] = useState("");
+  const selected = calendars.list.find((c) => c.id === selectedId) ?? calendars.list[0];
+  const isProject = selected?.id === calendars.projectId;
+  const updateSelected = (patch) => {
+    onChange({
+      ...calendars,
+      list: calendars.list.map((c) => (c.id === selected.id ? { ...c, ...patch } : c)),
+    });
+  };
+  const addCalendar = () => {
+    let n = calendars.list.length + 1;
+    while (calendars.list.some((c) => c.id === `calendar-${n}`)) n++;
+    const cal = createCalendar({
+      ...selected,
+      id: `calendar-${n}`,
+      name: `${selected?.name ?? "Calendar"} (copy)`,
+      holidays: [...(selected?.holidays ?? [])],
+    });
+    onChange({ ...calendars, list: [...calendars.list, cal] });
+    setSelectedId(cal.id);
+  };
+  const deleteSelected = () => {
+    if (isProject || calendars.list.length <= 1) return;
+    onChange({ ...calendars, list: calendars.list.filter((c) => c.id !== selected.id) });
+    setSelectedId(calendars.projectId);
+  };
+  const addHoliday = () => {
+    if (!holidayDraft || selected.holidays.includes(holidayDraft)) return;
+    updateSelected({ holidays: [...selected.holidays, holidayDraft].sort() });
+    setHolidayDraft("");
+  };
+  if (!selected) return null;
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selected.id} onValueChange={setSelectedId}>
+          <SelectTrigger className="rounded-xl w-64"><SelectValue placeholder="Select calendar" /></SelectTrigger>
+          <SelectContent>
+            {calendars.list.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.name}{c.id === calendars.projectId ? " (project)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isProject ? (
+          <Badge variant="secondary" className="rounded-full">Project calendar</Badge>
+        ) : (
+          <Button size="sm" variant="outline" className="rounded-full" onClick={() => onChange({ ...calendars, projectId: selected.id })}>
+            Use as project calendar
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" className="rounded-full" onClick={addCalendar}>
+          <PlusCircle className="w-4 h-4 mr-1" />
+          Copy
+        </Button>
+        <Button size="icon" variant="ghost" className="rounded-full" onClick={deleteSelected} disabled={isProject || calendars.list.length <= 1}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Name</div>
+          <Input className="rounded-xl" value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Work week</div>
+          <div className="flex gap-1">
+            {WEEKDAY_LABELS.map((label, idx) => (
+              <Button
+                key={label}
+                size="sm"
+                variant={selected.workWeek[idx] ? "default" : "outline"}
+                className="rounded-full px-2"
+                onClick={() => updateSelected({ workWeek: selected.workWeek.map((on, i) => (i === idx ? !on : on)) })}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground" title="Converts hour-based durations and lags (e.g. 16h, FS+4h) to working days">
+            Shift hours per day
+          </div>
+          <Input
+            type="number"
+            min={1}
+            max={24}
+            className="rounded-xl"
+            value={selected.hoursPerDay}
+            onChange={(e) => updateSelected({ hoursPerDay: Math.min(24, Math.max(1, Number(e.target.value) || 8)) })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="text-xs text-muted-foreground">Holidays ({selected.holidays.length})</div>
+        <div className="flex gap-2">
+          <Input type="date" className="rounded-xl w-48" value={holidayDraft} onChange={(e) => setHolidayDraft(e.target.value)} />
+          <Button size="sm" variant="outline" className="rounded-full" onClick={addHoliday} disabled={!holidayDraft}>
+            Add holiday
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2 max-h-24 overflow-auto">
+          {selected.holidays.map((d) => (
+            <Badge key={d} variant="outline" className="rounded-full text-[11px] gap-1">
+              {fmt(parseDate(d))}
+              <button
+                type="button"
+                aria-label={`Remove holiday ${d}`}
+                className="ml-1 text-muted-foreground hover:text-foreground"
+                onClick={() => updateSelected({ holidays: selected.holidays.filter((h) => h !== d) })}
+              >
+                ×
+              </button>
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LegendItem({ color, label }) {
+  return (
+    <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm" style={{ background: color }} />
+      <span className="text-sm text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+function KPI({ label, value, icon: Icon, tone = "" }) {
+  return (
+    <Card className={"shadow-sm rounded-2xl " + (tone || "") }>
+      <CardContent className="p-4 flex items-center gap-3">
+        <div className="p-2 rounded-xl bg-muted"><Icon className="w-5 h-5" /></div>
+        <div>
+          <div className="text-xs text-muted-foreground">{label}</div>
+          <div className="text-xl font-semibold">{value}</div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Rows drawn beyond the visible window on each side while scrolling
+const GANTT_OVERSCAN_ROWS = 12;
+// Above this many rows bars appear without the entrance animation
+const GANTT_ANIMATION_ROW_LIMIT = 300;
+
+// First and last row index inside the scroll window ({ top, height }), padded by the overscan
+function visibleRowRange(viewport, rowOffset, rowHeight, rowCount) {
+  return {
+    firstRow: Math.max(0, Math.floor((viewport.top - rowOffset) / rowHeight) - GANTT_OVERSCAN_ROWS),
+    lastRow: Math.min(rowCount - 1, Math.ceil((viewport.top + viewport.height - rowOffset) / rowHeight) + GANTT_OVERSCAN_ROWS),
+  };
+}
+
+function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showLinks = false, rels = [], zoom = 1, labelWidth = 220, focusRow = null, trace = null, dataDate = null, onRowClick = null, computing = null, onCancelCompute = null, tree = null, baseline = null, resources = null, ghosts = null }) {
+  const wrapperRef = useRef(null);
+  const [width, setWidth] = useState(1000);
+  // Scroll window of the container, in container pixels; only rows inside it are rendered
+  const [viewport, setViewport] = useState(() => ({
+    top: 0,
+    height: typeof window !== "undefined" ? window.innerHeight : 800,
+  }));
+  const scrollFrameRef = useRef(0);
+  useEffect(() => {
+    const obs = new ResizeObserver((entries) => {
+      for (const e of entries) {
+        setWidth(e.contentRect.width);
+        const height = e.contentRect.height;
+        setViewport((v) => (v.height === height ? v : { ...v, height }));
+      }
+    });
+    if (wrapperRef.current) obs.observe(wrapperRef.current);
+    return () => {
+      obs.disconnect();
+      cancelAnimationFrame(scrollFrameRef.current);
+    };
+  }, []);
+  const onScroll = () => {
+    if (scrollFrameRef.current) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = 0;
+      const el = wrapperRef.current;
+      if (el) setViewport((v) => (v.top === el.scrollTop ? v : { ...v, top: el.scrollTop }));
+    });
+  };
+
+  // Scenario ghost bars can run past the rows' own dates
+  const domainItems = useMemo(() => (ghosts?.extent ? [...data, ghosts.extent] : data), [data, ghosts]);
+  const domain = useScale(domainItems);
+  const min = domain.min;
+  const max = domain.max;
+  const [now] = useState(() => new Date());
+  // The data date line, when set, takes the place of the Today line
+  const today = (dataDate && parseDate(dataDate)) || now;
+  const todayLabel = dataDate && parseDate(dataDate) ? "Data date" : "Today";
+  const showToday = domain.min && domain.max && today >= domain.min && today <= domain.max;
+  const rowHeight = 28;
+  const barRadius = 8;
+  const axisHeight = 48;
+  const chartTop = 16;
+  const chartHeight = chartTop + (data.length + 1) * rowHeight + 20;
+  // Visible row range (the sticky axis sits above the chart inside the scroll container)
+  const { firstRow, lastRow } = visibleRowRange(viewport, axisHeight + chartTop, rowHeight, data.length);
+  const visibleRows = data.slice(firstRow, lastRow + 1);
+  const animateRows = data.length <= GANTT_ANIMATION_ROW_LIMIT;
+  const idColumnWidth = 60;
+  const leftPadding = 12;
+  const gapBetween = 12;
+  const effectiveLabelWidth = Math.max(80, Math.min(400, labelWidth));
+  const leftGutter = leftPadding + idColumnWidth + gapBetween + effectiveLabelWidth;
+  const rightPadding = 80;
+  const domainMin = domain.min ? domain.min.getTime() : 0;
+  const domainMax = domain.max ? domain.max.getTime() : domainMin + 1;
+  const totalMs = Math.max(1, domainMax - domainMin);
+  const baseChartWidth = Math.max(200, width - leftGutter - rightPadding);
+  const chartWidth = baseChartWidth * zoom;
+  const svgWidth = leftGutter + chartWidth + rightPadding;
+  const scaleX = (date) => {
+    const t = parseDate(date)?.getTime();
+    const clamped = Number.isFinite(t) ? t : domainMin;
+    const ratio = (clamped - domainMin) / totalMs;
+    return leftGutter + ratio * chartWidth;
+  };
+
+  const buildAxis = useMemo(() => {
+    if (!min || !max) return { ticks: [], fmt: () => "" };
+    let mode = 'month';
+    if (zoom >= 3) mode = 'day';
+    else if (zoom >= 2) mode = 'week';
+    else if (zoom >= 1) mode = 'month';
+    else if (zoom >= 0.8) mode = 'quarter';
+    else mode = 'year';
+    const ticks = [];
+    const d = new Date(min);
+    if (mode === 'day') {
+      while (d <= max) { ticks.push(new Date(d)); d.setDate(d.getDate() + 1); }
+    } else if (mode === 'week') {
+      const day = d.getDay(); const delta = (day === 0 ? 6 : day - 1); d.setDate(d.getDate() - delta);
+      while (d <= max) { ticks.push(new Date(d)); d.setDate(d.getDate() + 7); }
+    } else if (mode === 'month') {
+      d.setDate(1); while (d <= max) { ticks.push(new Date(d)); d.setMonth(d.getMonth() + 1); }
+    } else if (mode === 'quarter') {
+      d.setMonth(Math.floor(d.getMonth() / 3) * 3, 1); while (d <= max) { ticks.push(new Date(d)); d.setMonth(d.getMonth() + 3); }
+    } else {
+      d.setMonth(0,1); while (d <= max) { ticks.push(new Date(d)); d.setFullYear(d.getFullYear() + 1); }
+    }
+    const fmtTick = (t) => {
+      if (mode === 'day') return t.toLocaleDateString(undefined, { month: 'short', day: '2-digit' });
+      if (mode === 'week') return 'Wk ' + getISOWeek(t) + ' ' + t.getFullYear().toString().slice(-2);
+      if (mode === 'month') return t.toLocaleString(undefined, { month: 'short', year: '2-digit' });
       if (mode === 'quarter') return 'Q' + (Math.floor(t.getMonth()/3)+1) + ' ' + t.getFullYear().toString().slice(-2);
       return String(t.getFullYear());
     };
@@ -795,7 +1771,9 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
 
   // Hover chain lookup
   const [hoverId, setHoverId] = useState(null);
-  const idSet = useMemo(() => new Set(data.map(d => Number(d.ActivityID))), [data]);
+  // Keyed by wbsLinkId so links rolled up to a summary without an ID still find their row
+  const idSet = useMemo(() => new Set(data.map((d, i) => wbsLinkId(d, i))), [data]);
+  const idxById = useMemo(() => new Map(data.map((d, i) => [wbsLinkId(d, i), i])), [data]);
   const graph = useMemo(() => {
     const succ = new Map();
     const pred = new Map();
@@ -819,11 +1797,55 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
     return seen;
   }, [hoverId, graph]);
 
+  // Row requested from the diagnostics panel: scroll it into view and highlight it
+  const focusIndex = focusRow ? data.findIndex((d) => d.__rowIndex === focusRow.index) : -1;
+  useEffect(() => {
+    const el = wrapperRef.current;
+    if (!el || focusIndex < 0) return;
+    const rowTop = axisHeight + chartTop + focusIndex * rowHeight;
+    el.scrollTo({ top: Math.max(0, rowTop - el.clientHeight / 2), behavior: "smooth" });
+  }, [focusRow, focusIndex]);
+
+  // Traced chain (logic loop or driving path): its rows are shaded and its links drawn even with links toggled off
+  const traceIds = useMemo(() => new Set(trace?.ids ?? []), [trace]);
+  const traceLinks = useMemo(() => new Set((trace?.links ?? []).map(loopLinkKey)), [trace]);
+
   const linkColor = { FS: "#7c3aed", SS: "#10b981", FF: "#06b6d4", SF: "#f97316" };
+  const toneColor = { slip: "#dc2626", gain: "#16a34a" };
+
+  // Resource histogram under the rows: one resource, or all of them stacked
+  const histogramHeight = 110;
+  const histogramTop = 18;
+  const histogram = useMemo(() => {
+    if (!resources) return null;
+    const { loading, focus } = resources;
+    const shown = loading.resources.map((r, idx) => idx).filter((idx) => !focus || loading.resources[idx].name === focus);
+    let peak = 0;
+    loading.periods.forEach((p) => {
+      peak = Math.max(peak, shown.reduce((sum, idx) => sum + p.loads[idx], 0));
+    });
+    if (focus && shown.length) peak = Math.max(peak, loading.resources[shown[0]].capacity);
+    return { shown, peak: Math.max(peak, 1) };
+  }, [resources]);
 
   return (
-    <div className="rounded-2xl border bg-card">
-      <div ref={wrapperRef} className="w-full overflow-auto relative max-h-[70vh] rounded-2xl">
+    <div className="relative rounded-2xl border bg-card">
+      {computing && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center rounded-2xl bg-background/60" role="status" aria-live="polite">
+          <div className="flex items-center gap-3 rounded-xl border bg-card px-4 py-2 text-sm shadow-sm">
+            <Timer className="w-4 h-4 animate-pulse" />
+            <span>
+              {computing.label}… {Math.round((computing.fraction ?? 0) * 100)}%
+            </span>
+            {onCancelCompute && (
+              <Button size="sm" variant="ghost" className="rounded-full" onClick={onCancelCompute}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+      <div ref={wrapperRef} onScroll={onScroll} className="w-full overflow-auto relative max-h-[70vh] rounded-2xl">
         <div className="sticky top-0 z-10 bg-card">
           <svg width={svgWidth} height={axisHeight} className="block pointer-events-none">
             <rect x={0} y={0} width={svgWidth} height={axisHeight} className="fill-muted" />
@@ -873,7 +1895,7 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                   className="text-[11px]"
                   fill="#111827"
                 >
-                  Today
+                  {todayLabel}
                 </text>
               </g>
             )}
@@ -910,15 +1932,28 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
             />
           )}
 
+          {traceIds.size > 0 &&
+            visibleRows.map((t, k) =>
+              traceIds.has(normalizeActivityId(t.ActivityID)) ? (
+                <rect key={`trace-${firstRow + k}`} x={0} y={chartTop + (firstRow + k) * rowHeight} width={svgWidth} height={rowHeight} fill={trace.fill} />
+              ) : null
+            )}
+
+          {focusIndex >= 0 && (
+            <rect x={0} y={chartTop + focusIndex * rowHeight} width={svgWidth} height={rowHeight} fill="#fde68a" opacity={0.6} />
+          )}
+
           {/* Logic links (behind bars) */}
-          {showLinks && (() => {
-          const idxById = new Map();
-          data.forEach((d, i) => idxById.set(Number(d.ActivityID), i));
+          {(showLinks || traceLinks.size > 0) && (() => {
           const elems = [];
           for (const e of rels) {
             const i1 = idxById.get(e.PredID);
             const i2 = idxById.get(e.SuccID);
             if (i1 == null || i2 == null) continue;
+            // Skip links that neither touch nor cross the rendered rows
+            if (Math.max(i1, i2) < firstRow || Math.min(i1, i2) > lastRow) continue;
+            const inTrace = traceLinks.has(loopLinkKey(e));
+            if (!showLinks && !inTrace) continue;
             const t1 = data[i1];
             const t2 = data[i2];
             const es1 = parseDate(t1.ES), ef1 = parseDate(t1.EF);
@@ -933,12 +1968,12 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
             else if (rt === "SF") { xStart = scaleX(es1); xEnd = scaleX(ef2); }
 
             const midX = (xStart + xEnd) / 2;
-            const active = !hoverId || relatedIds.has(e.PredID) || relatedIds.has(e.SuccID);
-            const stroke = linkColor[rt] || "currentColor";
+            const active = inTrace || !hoverId || relatedIds.has(e.PredID) || relatedIds.has(e.SuccID);
+            const stroke = inTrace ? trace.color : linkColor[rt] || "currentColor";
             const d = "M " + xStart + " " + yStart + " C " + midX + " " + yStart + ", " + midX + " " + yEnd + ", " + xEnd + " " + yEnd;
             elems.push(
-              <g key={String(e.PredID) + "-" + String(e.SuccID)} opacity={active ? 0.9 : 0.15}>
-                <path d={d} fill="none" stroke={stroke} strokeWidth={active ? 2 : 1} markerEnd="url(#arrowhead)" />
+              <g key={String(e.PredID) + "-" + String(e.SuccID) + "-" + rt} opacity={active ? 0.9 : 0.15}>
+                <path d={d} fill="none" stroke={stroke} strokeWidth={inTrace ? 3 : active ? 2 : 1} strokeDasharray={e.Rolled ? "5 3" : undefined} markerEnd="url(#arrowhead)" />
                 {e.Lag_d ? (
                   <text x={midX} y={(yStart + yEnd) / 2 - 4} className="text-[10px]" fill={stroke}>
                     {rt}{e.Lag_d >= 0 ? "+" : ""}{e.Lag_d}d
@@ -951,7 +1986,8 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
         })()}
 
         {/* Rows */}
-        {data.map((t, i) => {
+        {visibleRows.map((t, k) => {
+          const i = firstRow + k;
           const es = parseDate(t.ES);
           const ef = parseDate(t.EF);
           const x1 = scaleX(es);
@@ -969,7 +2005,27 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
           const barHeight = isSummary ? summaryHeight : baseHeight;
           const barY = y + (baseHeight - barHeight) / 2;
           const pct = Math.max(0, Math.min(100, Number(t.PctComplete ?? 0)));
+          const constraintType = normalizeConstraintType(t.ConstraintType);
+          const hasConstraint = !isSummary && constraintType && constraintType !== "ASAP";
+          const constraintDate = parseDate(t.ConstraintDate);
+          const finishConstraint = ["FNET", "FNLT", "MFO", "MANDFIN", "ALAP"].includes(constraintType);
+          // Finish constraints bite at the end of their day, where a bar finishing that day ends
+          const constraintX = constraintDate
+            ? scaleX(finishConstraint ? constraintDate.getTime() + DAY_MS : constraintDate)
+            : finishConstraint
+              ? x2
+              : x1;
+          const constraintColor = t.ConstraintViolated ? "#dc2626" : "#be185d";
           const idText = t.ActivityID != null ? String(t.ActivityID) : "";
+          const variance = baseline?.variance.get(String(t.__rowIndex ?? i)) ?? null;
+          const baseDates = baseline ? baseline.datesOf(t) : null;
+          const startTone = varianceTone(variance?.start, baseline?.threshold);
+          const finishTone = varianceTone(variance?.finish, baseline?.threshold);
+          const labelTone = (label) => toneColor[label === "sv" ? startTone : label === "fv" ? finishTone : ""];
+          const overloadedBy = (resources?.loading.overloaded.get(normalizeActivityId(t.ActivityID)) ?? []).filter(
+            (name) => !resources.focus || name === resources.focus
+          );
+          const ghostDates = isSummary ? null : ghosts?.byId.get(normalizeActivityId(t.ActivityID)) ?? null;
 
           const leftText = (() => {
           switch (leftLabel) {
@@ -983,14 +2039,22 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
               return fmt(ef);
             case "pct":
               return isNaN(pct) ? "" : pct.toFixed(0) + "%";
+            case "sv":
+              return formatVariance(variance?.start);
+            case "fv":
+              return formatVariance(variance?.finish);
             case "none":
             default:
               return "";
           }
         })();
-          const leftColumnX = idText ? leftPadding + idColumnWidth + gapBetween : leftPadding;
-          const labelMaxWidth = Math.max(40, effectiveLabelWidth - 10);
-          const labelClipId = `labelClip-${t.ActivityID ?? i}`;
+          // Outline indentation, with a chevron on summaries that have children
+          const node = tree?.info.get(String(t.__rowIndex ?? i));
+          const indent = node ? node.depth * 12 + (tree.hasTree ? 14 : 0) : 0;
+          const outlineX = (idText ? leftPadding + idColumnWidth + gapBetween : leftPadding) + (node ? node.depth * 12 : 0);
+          const leftColumnX = (idText ? leftPadding + idColumnWidth + gapBetween : leftPadding) + indent;
+          const labelMaxWidth = Math.max(40, effectiveLabelWidth - 10 - indent);
+          const labelClipId = `labelClip-${i}`;
           const rightText = (() => {
           switch (rightLabel) {
             case "name":
@@ -1003,6 +2067,10 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
               return fmt(ef);
             case "pct":
               return isNaN(pct) ? "" : pct.toFixed(0) + "%";
+            case "sv":
+              return formatVariance(variance?.start);
+            case "fv":
+              return formatVariance(variance?.finish);
             case "none":
             default:
               return "";
@@ -1010,10 +2078,16 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
         })();
 
           return (
-            <TooltipProvider delayDuration={80} key={t.ActivityID}>
+            <TooltipProvider delayDuration={80} key={t.ActivityID ?? `row-${i}`}>
               <Tooltip>
                 <TooltipTrigger asChild>
-                  <g onMouseEnter={() => setHoverId(t.ActivityID)} onMouseLeave={() => setHoverId(null)} opacity={hoverId ? (relatedIds.has(t.ActivityID) ? 1 : 0.35) : 1}>
+                  <g
+                    onMouseEnter={() => setHoverId(t.ActivityID)}
+                    onMouseLeave={() => setHoverId(null)}
+                    onClick={onRowClick ? () => onRowClick(t) : undefined}
+                    className={onRowClick ? "cursor-pointer" : undefined}
+                    opacity={hoverId ? (relatedIds.has(t.ActivityID) ? 1 : 0.35) : 1}
+                  >
                     {/* ID column */}
                     {idText && (
                       <text x={leftPadding} y={y + 12} className="fill-foreground text-[12px] font-mono">
@@ -1021,6 +2095,29 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                       </text>
                     )}
 
+                    {node?.hasChildren && (
+                      <g
+                        role="button"
+                        aria-label={`${node.collapsed ? "Expand" : "Collapse"} ${t.TaskName ?? idText}`}
+                        aria-expanded={!node.collapsed}
+                        className="cursor-pointer"
+                        onClick={(ev) => {
+                          ev.stopPropagation();
+                          tree.onToggle(String(t.__rowIndex ?? i));
+                        }}
+                      >
+                        <rect x={outlineX - 2} y={y - 2} width={14} height={20} fill="transparent" />
+                        <path
+                          d={
+                            node.collapsed
+                              ? "M " + (outlineX + 2) + " " + (y + 4) + " l 6 4 l -6 4 z"
+                              : "M " + outlineX + " " + (y + 5) + " l 8 0 l -4 6 z"
+                          }
+                          className="fill-foreground"
+                        />
+                      </g>
+                    )}
+
                     {/* left label / task name */}
                     {leftText && (
                       <>
@@ -1031,6 +2128,7 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                           x={leftColumnX}
                           y={y + 12}
                           className="fill-foreground text-[12px]"
+                          style={labelTone(leftLabel) ? { fill: labelTone(leftLabel) } : undefined}
                           clipPath={`url(#${labelClipId})`}
                         >
                           {leftText}
@@ -1038,13 +2136,70 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                       </>
                     )}
 
+                    {/* baseline bar (thin, under the current bar) */}
+                    {baseDates && (
+                      ms || baseDates.finish <= baseDates.start ? (
+                        <path
+                          d={"M " + scaleX(baseDates.start) + " " + (y + 19) + " l 4 -4 l 4 4 l -4 4 z"}
+                          fill="none"
+                          stroke={toneColor[finishTone] ?? "#64748b"}
+                          strokeWidth={1.5}
+                        />
+                      ) : (
+                        <rect
+                          x={scaleX(baseDates.start)}
+                          y={y + 18}
+                          width={Math.max(4, scaleX(baselineBarFinish(t, baseDates, baseline.finishInclusive)) - scaleX(baseDates.start))}
+                          height={4}
+                          rx={2}
+                          fill={toneColor[finishTone] ?? "#64748b"}
+                          opacity={0.8}
+                        />
+                      )
+                    )}
+
+                    {/* scenario ghost bars (outlines, inset per scenario) */}
+                    {ghostDates?.map((g, k) => {
+                      if (!g) return null;
+                      const color = ghosts.scenarios[k].color;
+                      const gx1 = scaleX(new Date(g.es));
+                      if (ms || !(g.ef > g.es)) {
+                        return (
+                          <path
+                            key={k}
+                            d={"M " + gx1 + " " + (y + 1 + k * 2) + " l " + (7 - k * 2) + " " + (7 - k * 2) + " l " + -(7 - k * 2) + " " + (7 - k * 2) + " l " + -(7 - k * 2) + " " + -(7 - k * 2) + " z"}
+                            fill="none"
+                            stroke={color}
+                            strokeWidth={1.5}
+                            strokeDasharray="2 2"
+                          />
+                        );
+                      }
+                      const inset = Math.min(k * 2, 6);
+                      return (
+                        <rect
+                          key={k}
+                          x={gx1}
+                          y={y + inset}
+                          width={Math.max(4, scaleX(new Date(g.ef)) - gx1)}
+                          height={baseHeight - inset * 2}
+                          rx={4}
+                          fill={color}
+                          fillOpacity={0.12}
+                          stroke={color}
+                          strokeWidth={1.25}
+                          strokeDasharray="4 2"
+                        />
+                      );
+                    })}
+
                     {/* bar or milestone */}
                     {!ms ? (
                       <>
                         <motion.rect
-                          initial={{ opacity: 0, x: x1 - 8 }}
+                          initial={animateRows ? { opacity: 0, x: x1 - 8 } : false}
                           animate={{ opacity: 1, x: 0 }}
-                          transition={{ duration: 0.4, delay: i * 0.005 }}
+                          transition={{ duration: 0.4, delay: k * 0.005 }}
                           x={x1}
                           y={barY}
                           width={Math.max(6, x2 - x1)}
@@ -1073,10 +2228,24 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                             style={{ fill: color }}
                           />
                         )}
+                        {overloadedBy.length > 0 && (
+                          <rect
+                            x={x1 - 1}
+                            y={barY - 1}
+                            width={Math.max(6, x2 - x1) + 2}
+                            height={barHeight + 2}
+                            rx={barRadius}
+                            ry={barRadius}
+                            fill="none"
+                            stroke="#dc2626"
+                            strokeWidth={1.5}
+                            strokeDasharray="3 2"
+                          />
+                        )}
                       </>
                     ) : (
                       <motion.path
-                        initial={{ opacity: 0, scale: 0.8 }}
+                        initial={animateRows ? { opacity: 0, scale: 0.8 } : false}
                         animate={{ opacity: 1, scale: 1 }}
                         transition={{ duration: 0.3 }}
                         d={"M " + x1 + " " + (y + 8) + " l 8 -8 l 8 8 l -8 8 z"}
@@ -1092,9 +2261,28 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                       />
                     )}
 
+                    {/* constraint glyph: "[" for start constraints, "]" for finish constraints */}
+                    {hasConstraint && (
+                      <path
+                        d={
+                          "M " + (constraintX + (finishConstraint ? -4 : 4)) + " " + (y - 3) +
+                          " H " + constraintX + " V " + (y + 19) +
+                          " H " + (constraintX + (finishConstraint ? -4 : 4))
+                        }
+                        fill="none"
+                        stroke={constraintColor}
+                        strokeWidth={t.ConstraintViolated ? 2.5 : 2}
+                      />
+                    )}
+
                     {/* right label */}
                     {rightText && (
-                      <text x={ms ? x1 + 20 : x2 + 8} y={y + 12} className="fill-foreground text-[12px] truncate" style={{ maxWidth: 220 }}>
+                      <text
+                        x={ms ? x1 + 20 : x2 + 8}
+                        y={y + 12}
+                        className="fill-foreground text-[12px] truncate"
+                        style={{ maxWidth: 220, ...(labelTone(rightLabel) ? { fill: labelTone(rightLabel) } : {}) }}
+                      >
                         {rightText}
                       </text>
                     )}
@@ -1103,6 +2291,7 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                 <TooltipContent className="rounded-xl">
                   <div className="text-sm space-y-1">
                     <div className="font-medium">{t.ActivityID} — {t.TaskName}</div>
+                    {t.__fragnet && <div className="text-xs text-violet-700">Fragnet activity (added by the scenario)</div>}
                     <div className="grid grid-cols-2 gap-3 text-muted-foreground">
                       <div>
                         <div>ES: <span className="text-foreground">{fmt(es)}</span></div>
@@ -1113,6 +2302,54 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
                         <div>LF: <span className="text-foreground">{fmt(parseDate(t.LF))}</span></div>
                       </div>
                     </div>
+                    {hasConstraint && (
+                      <div className="text-muted-foreground">
+                        Constraint: <span className="text-foreground">{CONSTRAINT_LABELS[constraintType]}{constraintDate ? " " + fmt(constraintDate) : ""}</span>
+                        {t.ConstraintViolated && <span className="text-red-600"> (violated)</span>}
+                      </div>
+                    )}
+                    {baseDates && (
+                      <div className="text-muted-foreground">
+                        Baseline: <span className="text-foreground">{fmt(new Date(baseDates.start))} → {fmt(new Date(baseDates.finish))}</span>
+                        {variance && (
+                          <span>
+                            {" · "}start <span style={{ color: toneColor[startTone] }}>{formatVariance(variance.start)}</span>
+                            {" · "}finish <span style={{ color: toneColor[finishTone] }}>{formatVariance(variance.finish)}</span>
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {ghostDates?.some(Boolean) && (
+                      <div className="text-muted-foreground">
+                        {ghostDates.map((g, k) =>
+                          g ? (
+                            <div key={k}>
+                              <span style={{ color: ghosts.scenarios[k].color }}>{ghosts.scenarios[k].title}</span>:{" "}
+                              <span className="text-foreground">
+                                {g.start} → {g.finish}
+                              </span>
+                              {Number.isFinite(g.finishDelta) && g.finishDelta !== 0 && <span> · finish {g.finishDelta > 0 ? "+" : ""}{g.finishDelta}d</span>}
+                              {Number.isFinite(g.tf) && <span> · TF {g.tf}</span>}
+                            </div>
+                          ) : null
+                        )}
+                      </div>
+                    )}
+                    {t.Assignments?.length > 0 && (
+                      <div className="text-muted-foreground">
+                        Resources: <span className="text-foreground">{t.Assignments.map((a) => (a.units === 1 ? a.resource : `${a.resource} ×${a.units}`)).join(", ")}</span>
+                        {overloadedBy.length > 0 && <span className="text-red-600"> · over-allocated: {overloadedBy.join(", ")}</span>}
+                        {t.LevelingDelay_d > 0 && <span> · levelled +{t.LevelingDelay_d}d</span>}
+                      </div>
+                    )}
+                    {(t.ActualStart || t.ActualFinish) && (
+                      <div className="text-muted-foreground">
+                        Actual: <span className="text-foreground">{fmt(parseDate(t.ActualStart))} → {t.ActualFinish ? fmt(parseDate(t.ActualFinish)) : "in progress"}</span>
+                        {!t.ActualFinish && Number.isFinite(Number(t.RemainingDuration)) && (
+                          <span> · {t.RemainingDuration}d remaining</span>
+                        )}
+                      </div>
+                    )}
                     <div className="flex gap-3 pt-1">
                       <Badge variant="secondary" className="rounded-full">Dur {t.DurDays}d</Badge>
                       <Badge variant="outline" className="rounded-full">TF {t.TotalFloat_d}d</Badge>
@@ -1126,13 +2363,455 @@ function Gantt({ data, threshold, leftLabel = "name", rightLabel = "none", showL
           );
         })}
       </svg>
+      {histogram && (
+        <div className="sticky bottom-0 z-10 border-t bg-card">
+          <svg width={svgWidth} height={histogramHeight} className="block">
+            <text x={leftPadding} y={16} className="fill-foreground text-[12px] font-medium">
+              Resource loading{resources.focus ? ` — ${resources.focus}` : ""}
+            </text>
+            <text x={leftPadding} y={32} className="fill-muted-foreground text-[11px]">
+              peak {Math.round(histogram.peak * 100) / 100} units/day
+            </text>
+            <line x1={leftGutter} x2={leftGutter + chartWidth} y1={histogramHeight - 6} y2={histogramHeight - 6} className="stroke-muted-foreground/40" />
+            {resources.loading.periods.map((p, pIdx) => {
+              const x = scaleX(p.start);
+              const w = Math.max(1, scaleX(p.end) - x);
+              const plot = histogramHeight - 6 - histogramTop;
+              let base = histogramHeight - 6;
+              return (
+                <g key={pIdx}>
+                  {histogram.shown.map((idx) => {
+                    const units = p.loads[idx];
+                    if (!(units > 0)) return null;
+                    const res = resources.loading.resources[idx];
+                    const within = Math.min(units, res.capacity);
+                    const hWithin = (within / histogram.peak) * plot;
+                    const hOver = ((units - within) / histogram.peak) * plot;
+                    base -= hWithin + hOver;
+                    return (
+                      <g key={idx}>
+                        <rect x={x} y={base + hOver} width={w} height={hWithin} fill={res.color} opacity={0.8} />
+                        {hOver > 0 && <rect x={x} y={base} width={w} height={hOver} fill="#dc2626" />}
+                      </g>
+                    );
+                  })}
+                </g>
+              );
+            })}
+            {resources.focus && histogram.shown.length > 0 && (() => {
+              const cap = resources.loading.resources[histogram.shown[0]].capacity;
+              const y = histogramHeight - 6 - (cap / histogram.peak) * (histogramHeight - 6 - histogramTop);
+              return (
+                <g>
+                  <line x1={leftGutter} x2={leftGutter + chartWidth} y1={y} y2={y} stroke="#dc2626" strokeDasharray="4 3" />
+                  <text x={leftGutter - 6} y={y + 4} textAnchor="end" className="text-[10px]" fill="#dc2626">
+                    max {cap}
+                  </text>
+                </g>
+              );
+            })()}
+          </svg>
+        </div>
+      )}
+    </div>
+  </div>
+  );
+}
+
+function createDraftImpact(seed = 0) {
+  return { id: `draft-${seed}`, activityId: "", mode: "delay", days: 10 };
+}
+
+const emptyDraftFragnet = () => ({ activities: [], links: [] });
+
+// New activities and relationship edits for a scenario (time impact analysis)
+function FragnetEditor({ fragnet, onChange, activityOptions, calendars }) {
+  const seq = useRef(0);
+  const nextKey = (prefix) => `${prefix}-${++seq.current}`;
+  const newIds = fragnet.activities.map((a) => normalizeActivityId(a.ActivityID)).filter((id) => id !== undefined);
+  const endpoints = [...newIds.map((id) => ({ id, label: `${id} — new` })), ...activityOptions];
+  const patchList = (list, key, patch) =>
+    onChange({ ...fragnet, [list]: fragnet[list].map((item) => (item.key === key ? { ...item, ...patch } : item)) });
+  const removeFrom = (list, key) => onChange({ ...fragnet, [list]: fragnet[list].filter((item) => item.key !== key) });
+  const addActivity = () =>
+    onChange({
+      ...fragnet,
+      activities: [...fragnet.activities, { key: nextKey("new"), ActivityID: `FN${fragnet.activities.length + 1}`, TaskName: "", DurDays: 5, CalendarID: "" }],
+    });
+  const addLink = () =>
+    onChange({ ...fragnet, links: [...fragnet.links, { key: nextKey("link"), action: "add", PredID: "", SuccID: "", RelType: "FS", Lag_d: 0 }] });
+  const endpointSelect = (link, field) => (
+    <Select value={link[field]} onValueChange={(val) => patchList("links", link.key, { [field]: val })}>
+      <SelectTrigger className="rounded-xl">
+        <SelectValue placeholder={field === "PredID" ? "Predecessor" : "Successor"} />
+      </SelectTrigger>
+      <SelectContent className="max-h-64">
+        {endpoints.map((opt) => (
+          <SelectItem key={opt.id} value={String(opt.id)}>
+            {opt.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-muted-foreground">Fragnet: new activities</div>
+      {fragnet.activities.map((activity) => (
+        <div key={activity.key} className="grid gap-2 md:grid-cols-[8rem_1fr_6rem_12rem_auto] md:items-center">
+          <Input
+            className="rounded-xl font-mono"
+            placeholder="Activity ID"
+            value={activity.ActivityID}
+            onChange={(e) => patchList("activities", activity.key, { ActivityID: e.target.value })}
+          />
+          <Input
+            className="rounded-xl"
+            placeholder="Name"
+            value={activity.TaskName}
+            onChange={(e) => patchList("activities", activity.key, { TaskName: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={0}
+            className="rounded-xl"
+            title="Duration (working days)"
+            value={activity.DurDays}
+            onChange={(e) => patchList("activities", activity.key, { DurDays: Math.max(0, Number(e.target.value) || 0) })}
+          />
+          <Select
+            value={activity.CalendarID || "project"}
+            onValueChange={(val) => patchList("activities", activity.key, { CalendarID: val === "project" ? "" : val })}
+          >
+            <SelectTrigger className="rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="project">Project calendar</SelectItem>
+              {calendars.list.map((cal) => (
+                <SelectItem key={cal.id} value={cal.id}>
+                  {cal.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="icon" variant="ghost" className="rounded-full" onClick={() => removeFrom("activities", activity.key)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="text-xs text-muted-foreground">Fragnet: relationship changes</div>
+      {fragnet.links.map((link) => (
+        <div key={link.key} className="grid gap-2 md:grid-cols-[10rem_1fr_1fr_5rem_5rem_auto] md:items-center">
+          <Select value={link.action} onValueChange={(val) => patchList("links", link.key, { action: val })}>
+            <SelectTrigger className="rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LINK_ACTIONS.map((a) => (
+                <SelectItem key={a.key} value={a.key}>
+                  {a.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {endpointSelect(link, "PredID")}
+          {endpointSelect(link, "SuccID")}
+          <Select value={link.RelType} onValueChange={(val) => patchList("links", link.key, { RelType: val })} disabled={link.action === "remove"}>
+            <SelectTrigger className="rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LINK_TYPES.map((t) => (
+                <SelectItem key={t} value={t}>
+                  {t}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            className="rounded-xl"
+            title="Lag (working days)"
+            value={link.Lag_d}
+            disabled={link.action === "remove"}
+            onChange={(e) => patchList("links", link.key, { Lag_d: Number(e.target.value) || 0 })}
+          />
+          <Button size="icon" variant="ghost" className="rounded-full" onClick={() => removeFrom("links", link.key)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" className="rounded-2xl" onClick={addActivity}>
+          <PlusCircle className="w-4 h-4 mr-2" />
+          Add new activity
+        </Button>
+        <Button type="button" variant="outline" className="rounded-2xl" onClick={addLink}>
+          <PlusCircle className="w-4 h-4 mr-2" />
+          Add relationship change
+        </Button>
+      </div>
     </div>
-  </div>
   );
 }
 
-function createDraftImpact(seed = 0) {
-  return { id: `draft-${seed}`, activityId: "", mode: "delay", days: 10 };
+const signedDays = (n) => (Number.isFinite(n) ? `${n > 0 ? "+" : ""}${n}d` : "—");
+
+// Milestones to report on and their before/after dates and float from the last scenario run
+function TimeImpactReport({ options, selected, onSelectedChange, report, onPrint }) {
+  const remaining = options.filter((opt) => !selected.includes(opt.id));
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="text-xs text-muted-foreground">Report milestones</div>
+        {selected.map((id) => (
+          <Badge key={id} variant="outline" className="rounded-full text-[11px]">
+            {id}
+            <button
+              type="button"
+              className="ml-1 text-muted-foreground"
+              aria-label={`Stop reporting ${id}`}
+              onClick={() => onSelectedChange(selected.filter((x) => x !== id))}
+            >
+              ×
+            </button>
+          </Badge>
+        ))}
+        <Select value="" onValueChange={(val) => onSelectedChange([...selected, val])} disabled={!remaining.length}>
+          <SelectTrigger className="rounded-xl w-56">
+            <SelectValue placeholder="Add milestone" />
+          </SelectTrigger>
+          <SelectContent className="max-h-64">
+            {remaining.map((opt) => (
+              <SelectItem key={opt.id} value={String(opt.id)}>
+                {opt.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {report && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm">
+              Project finish {report.project.before || "—"} → {report.project.after || "—"}{" "}
+              <span className={report.project.delta > 0 ? "text-red-600" : report.project.delta < 0 ? "text-emerald-600" : "text-muted-foreground"}>
+                ({signedDays(report.project.delta)})
+              </span>
+            </div>
+            <Button size="sm" variant="outline" className="rounded-full" onClick={onPrint}>
+              <Printer className="w-4 h-4 mr-1" />
+              Print impact summary
+            </Button>
+          </div>
+          <div className="max-h-72 overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Milestone</th>
+                  <th className="px-3 py-2 text-left">Finish before</th>
+                  <th className="px-3 py-2 text-left">Finish after</th>
+                  <th className="px-3 py-2 text-right">Δ finish</th>
+                  <th className="px-3 py-2 text-right">TF before</th>
+                  <th className="px-3 py-2 text-right">TF after</th>
+                  <th className="px-3 py-2 text-right">Δ TF</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.milestones.map((m) => (
+                  <tr key={m.id} className={m.finishDelta > 0 ? "bg-red-50" : undefined}>
+                    <td className="px-3 py-2">
+                      <span className="font-mono">{m.id}</span> — {m.name}
+                    </td>
+                    <td className="px-3 py-2">{m.beforeFinish || "—"}</td>
+                    <td className="px-3 py-2">{m.afterFinish || "—"}</td>
+                    <td className="px-3 py-2 text-right">{signedDays(m.finishDelta)}</td>
+                    <td className="px-3 py-2 text-right">{Number.isFinite(m.beforeFloat) ? m.beforeFloat : "—"}</td>
+                    <td className="px-3 py-2 text-right">{Number.isFinite(m.afterFloat) ? m.afterFloat : "—"}</td>
+                    <td className="px-3 py-2 text-right">{signedDays(m.floatDelta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const fmtDelta = (n) => (Number.isFinite(n) && n !== 0 ? `${n > 0 ? "+" : ""}${n}d` : "");
+const deltaTone = (n) => (n > 0 ? "text-red-600" : n < 0 ? "text-emerald-600" : "text-muted-foreground");
+
+// Saved scenarios run side by side against the current schedule
+function ScenarioComparisonPanel({ scenarios, selected, onSelectedChange, onCompare, comparison, running, showGhosts, onShowGhostsChange, onShowRow, onDownload, status }) {
+  const [open, setOpen] = useState(false);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const toggle = (id) => onSelectedChange(selected.includes(id) ? selected.filter((x) => x !== id) : [...selected, id]);
+  const shown = comparison ? comparison.activities.filter((a) => !changedOnly || a.changed) : [];
+  const milestones = comparison ? comparison.activities.filter((a) => a.milestone) : [];
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="scenario-comparison-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Scenario comparison</div>
+            <p className="text-xs text-muted-foreground">
+              Run two or more saved scenarios side by side: dates and float per activity, milestone finishes and ghost bars in the Gantt.
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="scenario-comparison-panel" className="space-y-3">
+            {scenarios.length < 2 ? (
+              <div className="text-xs text-muted-foreground">Save at least two scenarios in the Scenario lab to compare them.</div>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2">
+                {scenarios.map((s) => (
+                  <Button
+                    key={s.id}
+                    size="sm"
+                    variant={selected.includes(s.id) ? "default" : "outline"}
+                    className="rounded-full"
+                    onClick={() => toggle(s.id)}
+                    aria-pressed={selected.includes(s.id)}
+                  >
+                    {s.title}
+                  </Button>
+                ))}
+                <Button size="sm" variant="secondary" className="rounded-full" onClick={onCompare} disabled={selected.length < 2 || running}>
+                  <Play className="w-3 h-3 mr-1" />
+                  {running ? "Comparing..." : `Compare ${selected.length}`}
+                </Button>
+              </div>
+            )}
+            {status && <div className="text-xs text-muted-foreground">{status}</div>}
+            {comparison && (
+              <>
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch checked={showGhosts} onCheckedChange={onShowGhostsChange} />
+                    Ghost bars in Gantt
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch checked={changedOnly} onCheckedChange={setChangedOnly} />
+                    Changed activities only
+                  </label>
+                  <div className="flex flex-wrap items-center gap-3">
+                    {comparison.scenarios.map((s) => (
+                      <LegendItem key={s.id} color={s.color} label={s.title} />
+                    ))}
+                  </div>
+                  <Button size="sm" variant="secondary" className="rounded-full ml-auto" onClick={onDownload}>
+                    <Download className="w-4 h-4 mr-1" />
+                    Export comparison
+                  </Button>
+                </div>
+                <div className="overflow-auto rounded-xl border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted text-xs text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Milestone finish</th>
+                        <th className="px-3 py-2 text-left">Current</th>
+                        {comparison.scenarios.map((s) => (
+                          <th key={s.id} className="px-3 py-2 text-left" style={{ color: s.color }}>
+                            {s.title}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {milestones.map((a) => (
+                        <tr key={a.id}>
+                          <td className="px-3 py-2">
+                            <span className="font-mono">{a.id}</span> — {a.name}
+                          </td>
+                          <td className="px-3 py-2">{a.base?.finish || "—"}</td>
+                          {a.runs.map((d, idx) => (
+                            <td key={idx} className="px-3 py-2">
+                              {d?.finish || "—"} <span className={deltaTone(d?.finishDelta)}>{fmtDelta(d?.finishDelta)}</span>
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="font-medium">
+                        <td className="px-3 py-2">Project finish</td>
+                        <td className="px-3 py-2">{comparison.baseFinish?.finish || "—"}</td>
+                        {comparison.scenarios.map((s) => (
+                          <td key={s.id} className="px-3 py-2">
+                            {s.finish?.finish || "—"} <span className={deltaTone(s.finishDelta)}>{fmtDelta(s.finishDelta)}</span>
+                          </td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+                <div className="max-h-96 overflow-auto rounded-xl border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Activity</th>
+                        <th className="px-3 py-2 text-left">Current ES / EF / TF</th>
+                        {comparison.scenarios.map((s) => (
+                          <th key={s.id} className="px-3 py-2 text-left" style={{ color: s.color }}>
+                            {s.title}
+                          </th>
+                        ))}
+                        <th className="px-3 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {shown.map((a) => (
+                        <tr key={a.id}>
+                          <td className="px-3 py-2">
+                            <span className="font-mono">{a.id}</span> — {a.name}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {a.base ? `${a.base.start} / ${a.base.finish} / ${Number.isFinite(a.base.tf) ? a.base.tf : "—"}` : "Not in schedule"}
+                          </td>
+                          {a.runs.map((d, idx) => (
+                            <td key={idx} className="px-3 py-2 whitespace-nowrap">
+                              {d ? (
+                                <>
+                                  {d.start} / {d.finish} / {Number.isFinite(d.tf) ? d.tf : "—"}{" "}
+                                  <span className={deltaTone(d.finishDelta)}>{fmtDelta(d.finishDelta)}</span>
+                                  {Number.isFinite(d.floatDelta) && d.floatDelta !== 0 && (
+                                    <span className={deltaTone(-d.floatDelta)}> TF {fmtDelta(d.floatDelta)}</span>
+                                  )}
+                                </>
+                              ) : (
+                                "—"
+                              )}
+                            </td>
+                          ))}
+                          <td className="px-3 py-2 text-right">
+                            {a.base && (
+                              <Button size="sm" variant="ghost" className="rounded-full" onClick={() => onShowRow(a.id)}>
+                                Show
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {!shown.length && <div className="p-3 text-xs text-muted-foreground">No activity moves in the compared scenarios.</div>}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
 function FloatChart({ data }) {
@@ -1170,24 +2849,449 @@ function FloatChart({ data }) {
   );
 }
 
+function RiskHistogram({ bins }) {
+  const data = useMemo(
+    () => bins.map((b) => ({ ...b, label: new Date(b.start).toLocaleDateString(undefined, { month: "short", day: "2-digit" }) })),
+    [bins]
+  );
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 pb-2"><CalendarDays className="w-4 h-4" /><div className="font-medium">Completion date distribution</div></div>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} strokeDasharray="3 3" />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} label={{ value: "Project finish", position: "insideBottom", dy: 8 }} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <RtTooltip formatter={(value, name, item) => (name === "count" ? [`${value} (cumulative ${item.payload.cumulative}%)`, "Iterations"] : [value, name])} />
+              <Bar dataKey="count" radius={[6,6,0,0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatEvAmount(value, measure) {
+  if (!Number.isFinite(value)) return "n/a";
+  const text = Math.round(value).toLocaleString();
+  return measure === "hours" ? `${text} h` : measure === "duration" ? `${text} d` : text;
+}
+
+function formatEvIndex(value) {
+  return Number.isFinite(value) ? value.toFixed(2) : "n/a";
+}
+
+function EarnedValuePanel({ result, measures, measure, onMeasureChange, period, onPeriodChange, note }) {
+  const [open, setOpen] = useState(false);
+  const data = useMemo(
+    () =>
+      (result?.series ?? []).map((p) => ({
+        label: new Date(p.start).toLocaleDateString(undefined, result.period === "month" ? { month: "short", year: "2-digit" } : { month: "short", day: "2-digit" }),
+        cumPlanned: p.cumPlanned,
+        cumCurrent: p.cumCurrent,
+        cumEarned: p.cumEarned,
+        cumActual: p.cumActual,
+        planned: p.period.planned,
+        earned: p.period.earned,
+        actual: p.period.actual,
+      })),
+    [result]
+  );
+  const amount = (value) => formatEvAmount(value, result?.measure);
+  const tiles = result
+    ? [
+        ["BAC", amount(result.bac)],
+        ["PV", amount(result.pv)],
+        ["EV", amount(result.ev)],
+        ["AC", amount(result.ac)],
+        ["SV", amount(result.sv)],
+        ["CV", amount(result.cv)],
+        ["EAC", amount(result.eac)],
+        ["VAC", amount(result.vac)],
+        ["TCPI", formatEvIndex(result.tcpi)],
+      ]
+    : [];
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="earned-value-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Earned value</div>
+            <p className="text-xs text-muted-foreground">
+              {result
+                ? `SPI ${formatEvIndex(result.spi)} · CPI ${formatEvIndex(result.cpi)} at ${fmt(new Date(result.statusDate))}.`
+                : "Planned, earned and actual progress from budgets, percent complete and actuals."}
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && result && (
+          <div id="earned-value-panel" className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={measure} onValueChange={onMeasureChange}>
+                <SelectTrigger className="rounded-xl w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EV_MEASURES.filter((m) => measures.includes(m.key)).map((m) => (
+                    <SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={period} onValueChange={onPeriodChange}>
+                <SelectTrigger className="rounded-xl w-40"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto periods</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              {note && <span className="text-xs text-muted-foreground">{note}</span>}
+            </div>
+            <div className="grid grid-cols-3 md:grid-cols-9 gap-2">
+              {tiles.map(([label, value]) => (
+                <div key={label} className="rounded-xl border px-3 py-2">
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                  <div className="text-sm font-semibold">{value}</div>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-sm font-medium pb-2">Cumulative S-curves</div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data}>
+                    <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} tickFormatter={(v) => Math.round(v).toLocaleString()} />
+                    <RtTooltip formatter={(value) => amount(value)} />
+                    <Legend />
+                    <Line type="monotone" dataKey="cumPlanned" name="Baseline planned" stroke="#64748b" dot={false} strokeDasharray="5 3" />
+                    <Line type="monotone" dataKey="cumCurrent" name="Current planned" stroke="#3b82f6" dot={false} />
+                    <Line type="monotone" dataKey="cumEarned" name="Earned" stroke="#16a34a" dot={false} strokeWidth={2} connectNulls={false} />
+                    <Line type="monotone" dataKey="cumActual" name="Actual" stroke="#dc2626" dot={false} connectNulls={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div>
+              <div className="text-sm font-medium pb-2">Per {result.period}</div>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={data}>
+                    <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} tickFormatter={(v) => Math.round(v).toLocaleString()} />
+                    <RtTooltip formatter={(value) => amount(value)} />
+                    <Legend />
+                    <Bar dataKey="planned" name="Baseline planned" fill="#94a3b8" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="earned" name="Earned" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="actual" name="Actual" fill="#dc2626" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RiskAnalysisPanel({ options, rowById, ranges, onRangesChange, onRun, onCancel, progress, status, summary }) {
+  const [open, setOpen] = useState(false);
+  const [distribution, setDistribution] = useState("triangular");
+  const [iterations, setIterations] = useState(1000);
+  const [seed, setSeed] = useState("");
+  const [draft, setDraft] = useState({ activityId: "", min: "", ml: "", max: "" });
+  const rangeIds = Object.keys(ranges).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const draftRange = { min: Number(draft.min), ml: Number(draft.ml), max: Number(draft.max) };
+  const draftValid =
+    draft.activityId &&
+    draft.min !== "" &&
+    draft.ml !== "" &&
+    draft.max !== "" &&
+    draftRange.min >= 0 &&
+    draftRange.min <= draftRange.ml &&
+    draftRange.ml <= draftRange.max &&
+    draftRange.max > draftRange.min;
+  const pickActivity = (id) => {
+    const existing = ranges[id];
+    const dur = Number(rowById.get(id)?.DurDays);
+    setDraft(
+      existing
+        ? { activityId: id, min: String(existing.min), ml: String(existing.ml), max: String(existing.max) }
+        : { activityId: id, min: "", ml: Number.isFinite(dur) ? String(dur) : "", max: "" }
+    );
+  };
+  const running = Boolean(progress);
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+          aria-expanded={open}
+          aria-controls="risk-panel"
+        >
+          <div>
+            <div className="text-sm font-semibold">Schedule risk analysis</div>
+            <p className="text-xs text-muted-foreground">
+              Monte Carlo over three-point durations · {rangeIds.length} activit{rangeIds.length === 1 ? "y" : "ies"} with ranges; the rest keep their planned duration.
+            </p>
+          </div>
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        </button>
+        {open && (
+          <div id="risk-panel" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+              <div className="md:col-span-2">
+                <div className="text-xs text-muted-foreground mb-1">Activity</div>
+                <Select value={draft.activityId} onValueChange={pickActivity}>
+                  <SelectTrigger className="rounded-xl"><SelectValue placeholder="Select an activity" /></SelectTrigger>
+                  <SelectContent>
+                    {options.map((opt) => (
+                      <SelectItem key={opt.id} value={opt.id}>{opt.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {[
+                ["min", "Min (d)"],
+                ["ml", "Most likely (d)"],
+                ["max", "Max (d)"],
+              ].map(([key, label]) => (
+                <div key={key}>
+                  <div className="text-xs text-muted-foreground mb-1">{label}</div>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft[key]}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                    className="rounded-xl"
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                className="rounded-full"
+                disabled={!draftValid}
+                onClick={() => {
+                  onRangesChange({ ...ranges, [draft.activityId]: draftRange });
+                  setDraft({ activityId: "", min: "", ml: "", max: "" });
+                }}
+              >
+                <PlusCircle className="w-4 h-4 mr-1" />
+                Set range
+              </Button>
+            </div>
+            {rangeIds.length > 0 && (
+              <div className="max-h-48 overflow-auto divide-y rounded-xl border">
+                {rangeIds.map((id) => (
+                  <div key={id} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                    <span className="font-mono">{id}</span>
+                    <span className="flex-1 truncate text-muted-foreground">{rowById.get(id)?.TaskName}</span>
+                    <span>{ranges[id].min} / {ranges[id].ml} / {ranges[id].max}d</span>
+                    <Button size="icon" variant="ghost" className="rounded-full" onClick={() => pickActivity(id)} aria-label={`Edit range for ${id}`}>
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="rounded-full"
+                      onClick={() => {
+                        const next = { ...ranges };
+                        delete next[id];
+                        onRangesChange(next);
+                      }}
+                      aria-label={`Remove range for ${id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Distribution</div>
+                <Select value={distribution} onValueChange={setDistribution}>
+                  <SelectTrigger className="rounded-xl"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RISK_DISTRIBUTIONS.map((d) => (
+                      <SelectItem key={d.key} value={d.key}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Iterations</div>
+                <Input
+                  type="number"
+                  min={100}
+                  max={20000}
+                  step={100}
+                  value={iterations}
+                  onChange={(e) => setIterations(Math.max(1, Math.min(20000, Number(e.target.value) || 0)))}
+                  className="rounded-xl"
+                />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Seed (optional)</div>
+                <Input value={seed} onChange={(e) => setSeed(e.target.value)} placeholder="Random" className="rounded-xl" />
+              </div>
+              {running ? (
+                <Button variant="outline" className="rounded-full" onClick={onCancel}>
+                  Cancel ({progress.done}/{progress.total})
+                </Button>
+              ) : (
+                <Button className="rounded-full" onClick={() => onRun({ distribution, iterations, seed })} disabled={!rangeIds.length}>
+                  <Play className="w-4 h-4 mr-1" />
+                  Run risk analysis
+                </Button>
+              )}
+            </div>
+            {status && <div className="text-xs text-muted-foreground">{status}</div>}
+            {summary && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                  <KPI icon={CalendarDays} label="Deterministic" value={fmt(Number.isFinite(summary.deterministic) ? new Date(summary.deterministic) : null)} />
+                  {summary.percentiles.map(({ p, finish }) => (
+                    <KPI key={p} icon={Timer} label={`P${p}`} value={fmt(Number.isFinite(finish) ? new Date(finish) : null)} />
+                  ))}
+                  <KPI
+                    icon={AlertTriangle}
+                    label="On-time chance"
+                    value={Number.isFinite(summary.onTime) ? `${Math.round(summary.onTime * 100)}%` : "-"}
+                  />
+                </div>
+                <RiskHistogram bins={summary.histogram} />
+                <div>
+                  <div className="text-sm font-medium pb-2">Criticality index</div>
+                  <div className="max-h-64 overflow-auto divide-y rounded-xl border">
+                    {summary.criticality.slice(0, 25).map((c) => (
+                      <div key={c.id} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                        <span className="font-mono w-20 shrink-0">{c.id}</span>
+                        <span className="flex-1 truncate text-muted-foreground">{c.name}</span>
+                        <div className="w-32 h-2 rounded-full bg-muted overflow-hidden">
+                          <div className="h-full bg-red-500" style={{ width: `${c.index}%` }} />
+                        </div>
+                        <span className="w-10 text-right">{c.index}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Page() {
   const [rows, setRows] = useState(initialRows);
   const [simRows, setSimRows] = useState(null);
+  // Relationships of the last scenario run when its fragnet changed the logic
+  const [simRels, setSimRels] = useState(null);
   const [query, setQuery] = useState("");
   const [threshold, setThreshold] = useState(5);
   const [filter, setFilter] = useState("all");
+  const [showBaseline, setShowBaseline] = useState(true);
+  // Max units per day by resource name (sheet values, then edits); unlisted resources get the default
+  const [resourceCapacity, setResourceCapacity] = useState({});
+  const [resourceFocus, setResourceFocus] = useState("all");
+  const [showResourceHistogram, setShowResourceHistogram] = useState(true);
+  const [resourceStatus, setResourceStatus] = useState("");
+  const [evMeasure, setEvMeasure] = useState("cost");
+  const [evPeriod, setEvPeriod] = useState("auto");
+  const [varianceThreshold, setVarianceThreshold] = useState(5);
+  // Named baselines (kept across loads so a new update can be compared with them)
+  const [baselines, setBaselines] = useState([]);
+  const [comparisonBaselineId, setComparisonBaselineId] = useState(UPLOAD_BASELINE_ID);
+  const [baselineStatus, setBaselineStatus] = useState("");
+  const baselineCounterRef = useRef(0);
+  // Previous schedule update ({ fileName, rows, rels }) the loaded one is compared against
+  const [previousUpdate, setPreviousUpdate] = useState(null);
+  const [changeGroup, setChangeGroup] = useState("all");
+  const [updateStatus, setUpdateStatus] = useState("");
+  const [healthCheck, setHealthCheck] = useState(null);
+  const [exportFilteredOnly, setExportFilteredOnly] = useState(false);
   const [leftLabel, setLeftLabel] = useState("name");
   const [rightLabel, setRightLabel] = useState("none");
   const [showLinks, setShowLinks] = useState(false);
   const [rels, setRels] = useState([]);
   const [wbsFilter, setWbsFilter] = useState("all");
+  // Collapsed WBS summaries by row key; kept across scenario runs, cleared on load
+  const [collapsedWbs, setCollapsedWbs] = useState(() => new Set());
   const [zoom, setZoom] = useState(1);
   const [linksNotice, setLinksNotice] = useState("");
   const [fileName, setFileName] = useState("Sample schedule");
+  const [xerImport, setXerImport] = useState(null);
+  const [columnMapping, setColumnMapping] = useState(null);
+  const [workbookSource, setWorkbookSource] = useState(null);
+  const [diagnostics, setDiagnostics] = useState([]);
+  const [focusRow, setFocusRow] = useState(null);
+  const [calendars, setCalendars] = useState(createDefaultCalendars);
+  const [calendarsOpen, setCalendarsOpen] = useState(false);
+  const [loopFocus, setLoopFocus] = useState(null);
+  const [dataDate, setDataDate] = useState("");
+  const [progressMode, setProgressMode] = useState("retained");
+  const [showDataDateLine, setShowDataDateLine] = useState(false);
+  const [progressOpen, setProgressOpen] = useState(false);
+  const [drivingTarget, setDrivingTarget] = useState(null);
+  const [riskRanges, setRiskRanges] = useState(() => readThreePointRanges(initialRows));
+  const [riskProgress, setRiskProgress] = useState(null);
+  const [riskStatus, setRiskStatus] = useState("");
+  const [riskSummary, setRiskSummary] = useState(null);
+  const [computeFraction, setComputeFraction] = useState(0);
+  // Project saved in browser storage that the loaded schedule belongs to (null until saved)
+  const [projectId, setProjectId] = useState(null);
+  const [projectName, setProjectName] = useState("");
+  const [savedProjects, setSavedProjects] = useState([]);
+  const [storageInfo, setStorageInfo] = useState(null);
+  const [storeAvailable, setStoreAvailable] = useState(true);
+  const [projectStatus, setProjectStatus] = useState("");
+  // View settings are written back only once the stored ones have been restored
+  const [viewRestored, setViewRestored] = useState(false);
+  const skipAutosaveRef = useRef(false);
+  // Set once the user uploads or opens a schedule, so the startup re-open of the last project stands down
+  const scheduleChosenRef = useRef(false);
+  // Latest openStoredProject for the startup effect
+  const openStoredProjectRef = useRef(null);
+  // Scheduling worker, created on first use; runs are numbered so a superseded result is dropped
+  const engineRef = useRef(null);
+  const engineRunRef = useRef(0);
+  const getEngine = () => {
+    if (!engineRef.current) engineRef.current = createScheduleEngine();
+    return engineRef.current;
+  };
+  useEffect(() => () => engineRef.current?.dispose(), []);
+  const [allowLoopRuns, setAllowLoopRuns] = useState(false);
   const [draftImpacts, setDraftImpacts] = useState(() => [createDraftImpact(1)]);
   const [draftCounter, setDraftCounter] = useState(2);
+  const [draftFragnet, setDraftFragnet] = useState(emptyDraftFragnet);
+  const [reportMilestones, setReportMilestones] = useState([]);
+  const [impactReport, setImpactReport] = useState(null);
+  // Side-by-side comparison of saved scenarios against the current schedule
+  const [compareIds, setCompareIds] = useState([]);
+  const [comparison, setComparison] = useState(null);
+  const [comparing, setComparing] = useState(false);
+  const [showComparisonGhosts, setShowComparisonGhosts] = useState(true);
+  const [comparisonStatus, setComparisonStatus] = useState("");
   const [scenarioTitle, setScenarioTitle] = useState("");
   const [scenarioLibrary, setScenarioLibrary] = useState([]);
+  // Never reused after a delete, so comparison picks and stored projects keep pointing at the same scenario
+  const scenarioCounterRef = useRef(0);
   const [activeScenario, setActiveScenario] = useState(null);
   const [scenarioStatus, setScenarioStatus] = useState("");
   const [isSimulating, setIsSimulating] = useState(false);
@@ -1203,40 +3307,93 @@ export default function Page() {
   };
   const exportRef = useRef(null);
   const activeRows = simRows ?? rows;
+  const activeRels = simRels ?? rels;
   const rowById = useMemo(() => {
     const map = new Map();
     rows.forEach((r) => {
-      if (Number.isFinite(Number(r.ActivityID))) {
-        map.set(Number(r.ActivityID), r);
+      const id = normalizeActivityId(r.ActivityID);
+      if (id !== undefined) {
+        map.set(id, r);
       }
     });
     return map;
   }, [rows]);
+  const logicLoops = useMemo(() => findLogicLoops(rows, rels), [rows, rels]);
+  const progressCounts = useMemo(() => {
+    const counts = { complete: 0, active: 0 };
+    rows.forEach((r) => {
+      if (r.IsSummary) return;
+      if (r.ActualFinish) counts.complete++;
+      else if (r.ActualStart) counts.active++;
+    });
+    return counts;
+  }, [rows]);
+  // Imported finishes name the last working day; scenario runs give exclusive finishes
+  const drivingPath = useMemo(
+    () =>
+      drivingTarget
+        ? traceDrivingPath({ rows: activeRows, rels: activeRels, targetId: drivingTarget, calendars, finishInclusive: !simRows })
+        : null,
+    [drivingTarget, activeRows, activeRels, calendars, simRows]
+  );
+  const ganttTrace = useMemo(() => {
+    if (loopFocus != null && logicLoops[loopFocus]) {
+      const loop = logicLoops[loopFocus];
+      return { ids: loop.ids, links: loop.links, color: "#dc2626", fill: "#fee2e2" };
+    }
+    if (drivingPath) {
+      return {
+        ids: drivingPath.map((step) => step.id),
+        links: drivingPath.flatMap((step) => step.drives.map((d) => ({ PredID: step.id, SuccID: d.SuccID }))),
+        color: "#0f766e",
+        fill: "#ccfbf1",
+      };
+    }
+    return null;
+  }, [loopFocus, logicLoops, drivingPath]);
+  const progressSettings = dataDate ? { dataDate, mode: progressMode } : { mode: progressMode };
   const activityOptions = useMemo(() => {
     return rows
       .filter(
         (r) =>
-          Number.isFinite(Number(r.ActivityID)) && !(r.IsSummary ?? false)
+          normalizeActivityId(r.ActivityID) !== undefined && !(r.IsSummary ?? false)
       )
       .map((r) => ({
-        id: Number(r.ActivityID),
+        id: normalizeActivityId(r.ActivityID),
         label: `${r.ActivityID} — ${r.TaskName || "Untitled"}`,
       }))
-      .sort((a, b) => a.id - b.id);
+      .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
   }, [rows]);
   const validDraftImpacts = useMemo(() => {
     return draftImpacts
       .map((impact) => {
-        const activityId = Number(impact.activityId);
+        const activityId = normalizeActivityId(impact.activityId);
         const days = Math.abs(Number(impact.days));
         const row = rowById.get(activityId);
-        if (!Number.isFinite(activityId) || days <= 0 || !row || row.IsSummary) return null;
+        if (activityId === undefined || days <= 0 || !row || row.IsSummary) return null;
         const deltaDays = impact.mode === "delay" ? days : -days;
         return { activityId, deltaDays };
       })
       .filter(Boolean);
   }, [draftImpacts, rowById]);
-  const scenarioFormValid = validDraftImpacts.length > 0;
+  // Fragnet rows with an ID or both link ends; applyFragnet validates the rest at run time
+  const validDraftFragnet = useMemo(
+    () => ({
+      activities: draftFragnet.activities
+        .filter((a) => normalizeActivityId(a.ActivityID) !== undefined)
+        .map(({ key, ...activity }) => ({ ...activity, ActivityID: normalizeActivityId(activity.ActivityID) })),
+      links: draftFragnet.links.filter((l) => l.PredID && l.SuccID).map(({ key, ...link }) => link),
+    }),
+    [draftFragnet]
+  );
+  const milestoneOptions = useMemo(() => {
+    const milestones = activityOptions.filter((opt) => {
+      const row = rowById.get(opt.id);
+      return row.Milestone === true || Number(row.DurDays) === 0;
+    });
+    return milestones.length ? milestones : activityOptions;
+  }, [activityOptions, rowById]);
+  const scenarioFormValid = validDraftImpacts.length > 0 || fragnetSize(validDraftFragnet) > 0;
   const maxScenariosReached = scenarioLibrary.length >= 10;
   const addDraftImpact = () => {
     setDraftImpacts((prev) => [...prev, createDraftImpact(draftCounter)]);
@@ -1254,12 +3411,13 @@ export default function Page() {
   const resetDraftImpacts = () => {
     setDraftImpacts([createDraftImpact(1)]);
     setDraftCounter(2);
+    setDraftFragnet(emptyDraftFragnet());
   };
 
   // KPIs
   const kpis = useMemo(() => {
     const total = activeRows.length;
-    const crit = activeRows.filter((r) => Number(r.TotalFloat_d) === 0).length;
+    const crit = activeRows.filter((r) => Number(r.TotalFloat_d) <= 0).length;
     const near = activeRows.filter((r) => Number(r.TotalFloat_d) > 0 && Number(r.TotalFloat_d) <= threshold).length;
     const ms = activeRows.filter((r) => r.Milestone || Number(r.DurDays) === 0).length;
     const start = new Date(Math.min(...activeRows.map((r) => parseDate(r.ES)?.getTime() ?? Infinity)));
@@ -1276,6 +3434,78 @@ export default function Page() {
     return Array.from(set).sort((a, b) => a - b);
   }, [activeRows]);
 
+  // Baseline vs current: variance per row against the chosen baseline, or the load-time dates once a scenario has moved them
+  const comparisonBaseline = useMemo(
+    () => baselines.find((b) => b.id === comparisonBaselineId) ?? null,
+    [baselines, comparisonBaselineId]
+  );
+  const baselineActive = Boolean(simRows || comparisonBaseline);
+  const baselineVariance = useMemo(() => {
+    const map = new Map();
+    if (!baselineActive) return map;
+    activeRows.forEach((r, idx) => {
+      const variance = scheduleVariance(r, baselineDatesFor(r, comparisonBaseline), !simRows);
+      if (variance) map.set(String(r.__rowIndex ?? idx), variance);
+    });
+    return map;
+  }, [activeRows, simRows, comparisonBaseline, baselineActive]);
+  const loadedFinish = useMemo(() => {
+    const finishes = rows.filter((r) => !r.IsSummary && Number.isFinite(r.__baselineEF)).map((r) => r.__baselineEF);
+    return finishes.length ? Math.max(...finishes) : null;
+  }, [rows]);
+
+  const resourceLoad = useMemo(
+    () => resourceLoading(activeRows, { calendars, capacity: resourceCapacity, finishInclusive: !simRows }),
+    [activeRows, calendars, resourceCapacity, simRows]
+  );
+
+  // Earned value against the comparison baseline, measured at the data date (today when none is set)
+  const evMeasures = useMemo(() => availableMeasures(activeRows), [activeRows]);
+  const evMeasureKey = evMeasures.includes(evMeasure) ? evMeasure : evMeasures[0];
+  const earned = useMemo(
+    () =>
+      earnedValue(activeRows, {
+        measure: evMeasureKey,
+        dataDate: dataDate || new Date().toISOString().slice(0, 10),
+        calendars,
+        finishInclusive: !simRows,
+        baselineOf: (r) => baselineDatesFor(r, comparisonBaseline),
+        period: evPeriod,
+      }),
+    [activeRows, evMeasureKey, dataDate, calendars, simRows, comparisonBaseline, evPeriod]
+  );
+
+  const ganttResources = useMemo(
+    () =>
+      showResourceHistogram && resourceLoad
+        ? { loading: resourceLoad, focus: resourceFocus !== "all" && resourceLoad.resources.some((r) => r.name === resourceFocus) ? resourceFocus : null }
+        : null,
+    [showResourceHistogram, resourceLoad, resourceFocus]
+  );
+
+  const ganttGhosts = useMemo(() => {
+    if (!comparison || !showComparisonGhosts) return null;
+    let min = Infinity;
+    let max = -Infinity;
+    comparison.activities.forEach((a) =>
+      a.runs.forEach((d) => {
+        if (!d) return;
+        if (Number.isFinite(d.es)) min = Math.min(min, d.es);
+        if (Number.isFinite(d.ef)) max = Math.max(max, d.ef);
+      })
+    );
+    return {
+      scenarios: comparison.scenarios,
+      byId: new Map(comparison.activities.map((a) => [a.id, a.runs])),
+      extent: Number.isFinite(min) ? { ES: new Date(min).toISOString(), EF: new Date(max).toISOString() } : null,
+    };
+  }, [comparison, showComparisonGhosts]);
+
+  const updateLog = useMemo(
+    () => (previousUpdate ? compareScheduleUpdates(previousUpdate, { rows, rels }) : null),
+    [previousUpdate, rows, rels]
+  );
+
   // Filters
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -1296,46 +3526,454 @@ export default function Page() {
     if (filter === "non") s = s.filter((r) => tfVal(r) > threshold);
     if (filter === "milestones")
       s = s.filter((r) => r.Milestone === true || Number(r.DurDays) === 0);
+    if (filter === "slipped")
+      s = s.filter((r) => (baselineVariance.get(String(r.__rowIndex))?.finish ?? 0) > 0);
+    if (filter === "changed" && updateLog)
+      s = s.filter((r) => {
+        const groups = updateLog.changedIds.get(normalizeActivityId(r.ActivityID));
+        return Boolean(groups) && (changeGroup === "all" || groups.has(changeGroup));
+      });
     return s;
-  }, [activeRows, query, filter, threshold, wbsFilter]);
+  }, [activeRows, query, filter, threshold, wbsFilter, baselineVariance, updateLog, changeGroup]);
+
+  // Outline view: collapsed summaries hide their descendants in the Gantt only
+  const wbsTree = useMemo(() => buildWbsTree(activeRows), [activeRows]);
+  const wbsView = useMemo(() => collapseWbsTree(wbsTree, collapsedWbs), [wbsTree, collapsedWbs]);
+  const ganttRows = useMemo(
+    () => (wbsView.hidden.size ? filtered.filter((r) => !wbsView.hidden.has(String(r.__rowIndex))) : filtered),
+    [filtered, wbsView]
+  );
+  const ganttRels = useMemo(() => repointLinks(activeRels, wbsView.anchorIds), [activeRels, wbsView]);
+  const toggleWbsRow = (key) => {
+    setCollapsedWbs((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+  const revealRows = (rowIndexes) => setCollapsedWbs((prev) => revealWbsRows(wbsTree, prev, rowIndexes));
 
   const handleUploadXLSX = async (file) => {
     setFileName(file?.name || "Uploaded schedule");
     const buf = await file.arrayBuffer();
     const wb = XLSX.read(buf, { type: 'array' });
-    const names = wb.SheetNames;
-    const prefer = [
-      'Schedule - CPM Results','CPM_Schedule_Results','CPM Results','Schedule_Results',
-      'Activities','Tasks','Task_Table'
-    ];
-    let sheetName = names.find(n => prefer.includes(n)) ?? names[0];
-    const sheet = wb.Sheets[sheetName];
-    const raw = XLSX.utils.sheet_to_json(sheet, { defval: '' });
-    const mapped = raw.map(r => {
-      if (!r.ES && (r.Start || r['Start'])) r.ES = r.ES || r.Start || r['Start'];
-      if (!r.EF && (r.Finish || r['Finish'])) r.EF = r.EF || r.Finish || r['Finish'];
-      if (!('DurDays' in r) && (r.Duration || r['Duration'])) {
-        const s = String(r.Duration || r['Duration']).toLowerCase();
-        const m = s.match(/(-?[0-9]+)/);
-        r.DurDays = m ? Number(m[1]) : Number(r.Duration || 0);
+    const sheetName = pickScheduleSheet(wb);
+    const sheetData = readScheduleSheet(wb, sheetName);
+    setWorkbookSource({ fileName: file.name, wb, sheetName });
+    if (!sheetData.saved && missingRequiredFields(sheetData.mapping).length) {
+      setColumnMapping({ ...sheetData, fileName: file.name, wb });
+      return;
+    }
+    ingestWorkbookSheet(wb, sheetData.raw, sheetData.mapping);
+  };
+
+  const ingestWorkbookSheet = (wb, raw, mapping) => {
+    const mapped = mapScheduleRows(raw, mapping);
+    const normalized = mapped.map(normalizeRow);
+
+    // relationships: prefer dedicated sheet, else parse Predecessors column
+    const rejectedTokens = [];
+    let edges = readRelationshipSheet(wb, rejectedTokens);
+    if (!edges.length) edges = buildLinksFromPredecessors(mapped, rejectedTokens);
+    loadSchedule(
+      normalized,
+      edges,
+      "No relationships found in workbook (no dedicated sheet or Predecessors column). Links are hidden.",
+      { rawRows: mapped, rejectedTokens, sourceRows: sheetRowNumbers(raw), calendars: readCalendarSheet(wb), resources: readResourceSheet(wb) }
+    );
+  };
+
+  const openColumnMapping = () => {
+    if (!workbookSource) return;
+    const sheetData = readScheduleSheet(workbookSource.wb, workbookSource.sheetName);
+    setColumnMapping({ ...sheetData, fileName: workbookSource.fileName, wb: workbookSource.wb });
+  };
+
+  const changeMappingSheet = (sheetName) => {
+    setColumnMapping((prev) => prev && { ...prev, ...readScheduleSheet(prev.wb, sheetName) });
+  };
+
+  const changeMappingField = (field, header) => {
+    setColumnMapping((prev) => prev && { ...prev, mapping: { ...prev.mapping, [field]: header } });
+  };
+
+  const confirmColumnMapping = () => {
+    if (!columnMapping) return;
+    saveMapping(columnMapping.signature, columnMapping.mapping);
+    setWorkbookSource({ fileName: columnMapping.fileName, wb: columnMapping.wb, sheetName: columnMapping.sheetName });
+    setFileName(columnMapping.fileName);
+    ingestWorkbookSheet(columnMapping.wb, columnMapping.raw, columnMapping.mapping);
+    setColumnMapping(null);
+  };
+
+  const handleUploadMSPDI = async (file) => {
+    const text = await file.text();
+    let parsed;
+    try {
+      parsed = parseMSPDI(text);
+    } catch (err) {
+      setLinksNotice(err?.message || "Could not read Microsoft Project XML file.");
+      return;
+    }
+    const name = file?.name || "Uploaded schedule";
+    setFileName(parsed.projectName ? `${name} — ${parsed.projectName}` : name);
+    loadSchedule(
+      parsed.rows.map(normalizeRow),
+      parsed.rels,
+      "No PredecessorLink elements found in the project file. Links are hidden.",
+      { rawRows: parsed.rows, dataDate: parsed.statusDate }
+    );
+  };
+
+  const handleUploadXER = async (file) => {
+    const text = decodeXER(await file.arrayBuffer());
+    let parsed;
+    try {
+      parsed = parseXER(text);
+    } catch (err) {
+      setFileName(file?.name || "Uploaded schedule");
+      setLinksNotice(err?.message || "Could not read Primavera XER file.");
+      return;
+    }
+    if (parsed.projects.length > 1) {
+      setXerImport({ fileName: file.name, parsed, projectId: parsed.projects[0].id });
+      return;
+    }
+    loadXERProject(file.name, parsed, parsed.projects[0]?.id);
+  };
+
+  const loadXERProject = (name, parsed, projectId) => {
+    const project = parsed.projects.find((p) => p.id === projectId);
+    const schedule = buildXERSchedule(parsed, projectId);
+    setXerImport(null);
+    setFileName(project ? `${name} — ${project.name}` : name);
+    loadSchedule(
+      schedule.rows.map(normalizeRow),
+      schedule.rels,
+      "No TASKPRED relationships found for this project. Links are hidden.",
+      { rawRows: schedule.rows, calendars: schedule.calendars, dataDate: schedule.dataDate }
+    );
+  };
+
+  const handleUploadFile = async (file) => {
+    scheduleChosenRef.current = true;
+    setXerImport(null);
+    setColumnMapping(null);
+    setWorkbookSource(null);
+    if (/\.xml$/i.test(file?.name || "")) {
+      await handleUploadMSPDI(file);
+    } else if (/\.xer$/i.test(file?.name || "")) {
+      await handleUploadXER(file);
+    } else {
+      await handleUploadXLSX(file);
+    }
+  };
+
+  // Results and selections tied to the schedule that was showing
+  const resetScheduleAnalysis = () => {
+    setResourceFocus("all");
+    setResourceStatus("");
+    setFocusRow(null);
+    setLoopFocus(null);
+    setAllowLoopRuns(false);
+    setDrivingTarget(null);
+    setHealthCheck(null);
+    engineRunRef.current++;
+    engineRef.current?.cancel();
+    setIsSimulating(false);
+    setRiskProgress(null);
+    setRiskSummary(null);
+    setRiskStatus("");
+    setSimRows(null);
+    setSimRels(null);
+    setActiveScenario(null);
+    setScenarioStatus("");
+    setScenarioTitle("");
+    resetDraftImpacts();
+    setReportMilestones([]);
+    setImpactReport(null);
+    setCompareIds([]);
+    setComparison(null);
+    setComparisonStatus("");
+  };
+
+  const loadSchedule = (normalized, links, emptyLinksNotice, source = {}) => {
+    const loadedCalendars = source.calendars ?? createDefaultCalendars();
+    // Hour-based durations and lags in working days of the loaded calendars
+    const { rows: shifted, rels: edges } = applyShiftHours(normalized, links, loadedCalendars);
+    const prepared = attachAssignments(prepareRows(shifted), source.resources);
+    resetScheduleAnalysis();
+    setRows(prepared);
+    setCalendars(loadedCalendars);
+    setResourceCapacity(source.resources?.capacity ?? {});
+    setDiagnostics(
+      buildImportDiagnostics({ ...source, rows: prepared, rels: edges, loops: findLogicLoops(prepared, edges) })
+    );
+    setCollapsedWbs(new Set());
+    setRiskRanges(readThreePointRanges(prepared));
+    setDataDate(source.dataDate ?? "");
+    setShowDataDateLine(Boolean(source.dataDate));
+    setRels(edges);
+    setShowLinks(edges.length > 0);
+    setLinksNotice(edges.length ? "" : emptyLinksNotice);
+    // A new file is not a saved project until it is saved
+    setProjectId(null);
+    setProjectName("");
+  };
+
+  // ---- Saved projects (IndexedDB) ----
+  const projectData = useCallback(
+    () => ({
+      rows,
+      rels,
+      calendars,
+      dataDate,
+      progressMode,
+      baselines,
+      comparisonBaselineId,
+      scenarioLibrary,
+      riskRanges,
+      resourceCapacity,
+      collapsedWbs: Array.from(collapsedWbs),
+    }),
+    [rows, rels, calendars, dataDate, progressMode, baselines, comparisonBaselineId, scenarioLibrary, riskRanges, resourceCapacity, collapsedWbs]
+  );
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      const list = await listProjects();
+      setSavedProjects(list);
+      setStorageInfo(await storageUsage(list));
+    } catch (err) {
+      setProjectStatus(`Could not read saved projects: ${err.message}`);
+    }
+  }, []);
+
+  const handleSaveProject = async (asNew) => {
+    const id = projectId && !asNew ? projectId : newProjectId();
+    const name = projectName.trim() || fileName || "Untitled project";
+    try {
+      const saved = await saveProject({ id, name, fileName, data: projectData() });
+      if (!saved) {
+        setStoreAvailable(false);
+        return;
+      }
+      // Switching to the new id would otherwise save it again straight away
+      if (id !== projectId) skipAutosaveRef.current = true;
+      setProjectId(id);
+      setProjectName(name);
+      await saveSetting("lastProjectId", id);
+      await refreshProjects();
+      setProjectStatus(`Saved "${name}" (${formatBytes(saved.bytes)}).`);
+    } catch (err) {
+      setProjectStatus(`Could not save "${name}": ${err.message}`);
+    }
+  };
+
+  // startup: the automatic re-open of the last project, dropped if the user has loaded something meanwhile
+  const openStoredProject = async (id, { startup = false } = {}) => {
+    if (!startup) scheduleChosenRef.current = true;
+    let record;
+    try {
+      record = await loadProject(id);
+    } catch (err) {
+      setProjectStatus(`Could not open the project: ${err.message}`);
+      return;
+    }
+    if (startup && scheduleChosenRef.current) return;
+    if (!record) {
+      setProjectStatus("That project is no longer in browser storage.");
+      await refreshProjects();
+      return;
+    }
+    const data = record.data ?? {};
+    skipAutosaveRef.current = true;
+    resetScheduleAnalysis();
+    setXerImport(null);
+    setColumnMapping(null);
+    setWorkbookSource(null);
+    setPreviousUpdate(null);
+    setDiagnostics([]);
+    setFileName(record.fileName || record.name);
+    setRows(data.rows ?? []);
+    setRels(data.rels ?? []);
+    setLinksNotice("");
+    setCalendars(data.calendars ?? createDefaultCalendars());
+    setDataDate(data.dataDate ?? "");
+    setShowDataDateLine(Boolean(data.dataDate));
+    setProgressMode(data.progressMode ?? "retained");
+    setBaselines(data.baselines ?? []);
+    setComparisonBaselineId(data.comparisonBaselineId ?? UPLOAD_BASELINE_ID);
+    baselineCounterRef.current = highestIdNumber(data.baselines ?? []);
+    setScenarioLibrary(data.scenarioLibrary ?? []);
+    scenarioCounterRef.current = highestIdNumber(data.scenarioLibrary ?? []);
+    setRiskRanges(data.riskRanges ?? {});
+    setResourceCapacity(data.resourceCapacity ?? {});
+    setCollapsedWbs(new Set(data.collapsedWbs ?? []));
+    setProjectId(record.id);
+    setProjectName(record.name);
+    setProjectStatus(`Opened "${record.name}".`);
+    saveSetting("lastProjectId", record.id).catch(() => {});
+    await refreshProjects();
+  };
+
+  useEffect(() => {
+    openStoredProjectRef.current = openStoredProject;
+  });
+
+  const handleRenameProject = async (id, name) => {
+    try {
+      await renameProject(id, name);
+      if (id === projectId) setProjectName(name);
+      await refreshProjects();
+    } catch (err) {
+      setProjectStatus(`Could not rename the project: ${err.message}`);
+    }
+  };
+
+  // Labels, zoom, filters and panel choices, restored on load for every project
+  const viewSettings = {
+    query,
+    filter,
+    wbsFilter,
+    threshold,
+    varianceThreshold,
+    showBaseline,
+    leftLabel,
+    rightLabel,
+    showLinks,
+    zoom,
+    labelColumnWidth,
+    exportFilteredOnly,
+    showResourceHistogram,
+    evMeasure,
+    evPeriod,
+    showComparisonGhosts,
+    chartSettingsOpen,
+    scenarioLabOpen,
+  };
+  // State setters never change identity, so the map is built once
+  const viewSetters = useMemo(
+    () => ({
+      query: setQuery,
+      filter: setFilter,
+      wbsFilter: setWbsFilter,
+      threshold: setThreshold,
+      varianceThreshold: setVarianceThreshold,
+      showBaseline: setShowBaseline,
+      leftLabel: setLeftLabel,
+      rightLabel: setRightLabel,
+      showLinks: setShowLinks,
+      zoom: setZoom,
+      labelColumnWidth: setLabelColumnWidth,
+      exportFilteredOnly: setExportFilteredOnly,
+      showResourceHistogram: setShowResourceHistogram,
+      evMeasure: setEvMeasure,
+      evPeriod: setEvPeriod,
+      showComparisonGhosts: setShowComparisonGhosts,
+      chartSettingsOpen: setChartSettingsOpen,
+      scenarioLabOpen: setScenarioLabOpen,
+    }),
+    []
+  );
+
+  // On first load: stored view settings, the recent-projects list and the project that was open last
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const view = await loadSetting("view");
+        if (cancelled) return;
+        Object.entries(view ?? {}).forEach(([key, value]) => {
+          if (value !== undefined && viewSetters[key]) viewSetters[key](value);
+        });
+        const list = await listProjects();
+        if (cancelled) return;
+        setSavedProjects(list);
+        setStorageInfo(await storageUsage(list));
+        const lastId = await loadSetting("lastProjectId");
+        if (!cancelled && !scheduleChosenRef.current && lastId && list.some((p) => p.id === lastId)) {
+          await openStoredProjectRef.current(lastId, { startup: true });
+        }
+      } catch (err) {
+        if (!cancelled) setProjectStatus(`Browser storage unavailable: ${err.message}`);
+      }
+      if (!cancelled) {
+        setStoreAvailable(typeof indexedDB !== "undefined");
+        setViewRestored(true);
       }
-      return r;
-    });
-    const normalized = mapped.map(normalizeRow);
-    const prepared = prepareRows(normalized);
-    setRows(prepared);
-    setSimRows(null);
-    setActiveScenario(null);
-    setScenarioStatus("");
-    setScenarioTitle("");
-    resetDraftImpacts();
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [viewSetters]);
 
-    // relationships: prefer dedicated sheet, else parse Predecessors column
-    let edges = readRelationshipSheet(wb);
-    if (!edges.length) edges = buildLinksFromPredecessors(mapped);
-    setRels(edges);
-    setShowLinks(edges.length > 0);
-    setLinksNotice(edges.length ? "" : "No relationships found in workbook (no dedicated sheet or Predecessors column). Links are hidden.");
+  const viewKey = JSON.stringify(viewSettings);
+  useEffect(() => {
+    if (!viewRestored) return;
+    const timer = setTimeout(() => saveSetting("view", JSON.parse(viewKey)).catch(() => {}), 500);
+    return () => clearTimeout(timer);
+  }, [viewKey, viewRestored]);
+
+  // Saved projects keep saving (debounced) as the schedule, baselines and scenarios change
+  useEffect(() => {
+    if (!projectId) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    const timer = setTimeout(() => {
+      saveProject({ id: projectId, name: projectName.trim() || fileName, fileName, data: projectData() })
+        .then(() => refreshProjects())
+        .catch((err) => setProjectStatus(`Auto-save failed: ${err.message}`));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [projectId, projectName, fileName, projectData, refreshProjects]);
+
+  const handleDeleteProject = async (id) => {
+    const name = savedProjects.find((p) => p.id === id)?.name ?? "project";
+    try {
+      await deleteProject(id);
+      if (id === projectId) setProjectId(null);
+      await refreshProjects();
+      setProjectStatus(`Deleted "${name}".`);
+    } catch (err) {
+      setProjectStatus(`Could not delete "${name}": ${err.message}`);
+    }
+  };
+
+  const traceLogicLoop = (idx) => {
+    setLoopFocus(idx);
+    if (idx == null) return;
+    const first = rowById.get(logicLoops[idx].path[0]);
+    setQuery("");
+    setFilter("all");
+    setWbsFilter("all");
+    revealRows(logicLoops[idx].ids.map((id) => rowById.get(id)?.__rowIndex).filter((n) => n != null));
+    if (first) setFocusRow({ index: first.__rowIndex, nonce: Date.now() });
+  };
+
+  const showDiagnosticRow = (entry) => {
+    if (entry.rowIndex == null) return;
+    setQuery("");
+    setFilter("all");
+    setWbsFilter("all");
+    revealRows([entry.rowIndex]);
+    setFocusRow({ index: entry.rowIndex, nonce: Date.now() });
+  };
+
+  const downloadDiagnosticsCSV = () => {
+    downloadBlob(
+      diagnosticsToCSV(diagnostics),
+      "text/csv;charset=utf-8",
+      `${(fileName || "schedule").replace(/\.[^.]+$/, "")}-import-report.csv`
+    );
+  };
+
+  const downloadDrivingPathCSV = () => {
+    if (!drivingPath) return;
+    downloadBlob(drivingPathToCSV(drivingPath), "text/csv;charset=utf-8", `driving-path-${drivingTarget}.csv`);
   };
 
   const exportPNG = async () => {
@@ -1348,17 +3986,84 @@ export default function Page() {
     a.click();
   };
 
+  // Active rows (scenario results when one is applied) in a workbook the upload path reads back
+  const exportXLSX = () => {
+    const out = exportFilteredOnly ? filtered : activeRows;
+    const wb = XLSX.utils.book_new();
+    const activities = activitySheetRows(out, { finishInclusive: !simRows, nearThreshold: threshold });
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(activities), "Activities");
+    const links = relationshipSheetRows(activeRels, out);
+    XLSX.utils.book_append_sheet(
+      wb,
+      links.length ? XLSX.utils.json_to_sheet(links) : XLSX.utils.aoa_to_sheet([["PredID", "SuccID", "RelType", "Lag_d"]]),
+      "Relationships"
+    );
+    const scenarioRows = scenarioSheetRows({
+      scenario: simRows ? activeScenario : null,
+      impacts: simRows ? normalizeScenarioImpacts(activeScenario) : [],
+      fragnet: simRows ? activeScenario?.fragnet ?? null : null,
+      rowById,
+      source: fileName,
+      dataDate,
+      progressMode,
+      filtered: exportFilteredOnly,
+      exportedAt: new Date().toISOString(),
+    });
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(scenarioRows), "Scenario");
+    const calendarRows = calendarSheetRows(calendars);
+    if (calendarRows.length) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(calendarRows), "Calendars");
+    if (resourceLoad) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(resourceSheetRows(resourceLoad.resources)), "Resources");
+    const base = (fileName || "schedule").replace(/\.[^.]+$/, "").replace(/[^\w-]+/g, "-");
+    downloadWorkbook(wb, `${base}${simRows ? "-scenario" : ""}.xlsx`);
+  };
+
+  // Print layout of the rows the Gantt shows (filters and WBS collapse applied), with the chart's own colouring
+  const printOptions = (settings) => ({
+    rows: ganttRows,
+    rels: ganttRels,
+    showLinks: settings.links,
+    title: fileName || "Sample schedule",
+    details: [
+      [dataDate && `Data date ${dataDate}`, simRows ? `Scenario: ${activeScenario?.title ?? "unsaved"}` : "Schedule as loaded"]
+        .filter(Boolean)
+        .join(" · "),
+      `Printed ${fmt(new Date())}`,
+    ],
+    dataDate: showDataDateLine ? dataDate : null,
+    threshold,
+    baselineOf: showBaseline && baselineActive ? (r) => baselineDatesFor(r, comparisonBaseline) : null,
+    finishInclusive: !simRows,
+    depthOf: (r) => wbsView.info.get(String(r.__rowIndex))?.depth ?? 0,
+  });
+
+  const downloadPrintFile = (data, type, extension) =>
+    downloadBlob(data, type, `${(fileName || "schedule").replace(/\.[^.]+$/, "").replace(/[^\w-]+/g, "-")}-gantt.${extension}`);
+
+  const exportGanttSVG = (settings) => {
+    downloadPrintFile(sceneToSVG(layoutGanttSheet(printOptions(settings))), "image/svg+xml", "svg");
+  };
+
+  const exportGanttPDF = (settings) => {
+    const opts = printOptions(settings);
+    const pages = layoutGanttPages({
+      ...opts,
+      paper: paperDimensions(settings.paper, settings.orientation),
+      rowsPerPage: settings.rowsPerPage,
+    });
+    downloadPrintFile(scenesToPDF(pages, opts.title), "application/pdf", "pdf");
+  };
+
   const normalizeScenarioImpacts = (scenario) => {
     if (!scenario) return [];
     const raw = Array.isArray(scenario.impacts)
       ? scenario.impacts
-      : Number.isFinite(Number(scenario.activityId))
+      : normalizeActivityId(scenario.activityId) !== undefined
       ? [{ activityId: scenario.activityId, deltaDays: scenario.deltaDays }]
       : [];
     return raw
       .map((impact) => {
-        const activityId = Number(impact.activityId);
-        if (!Number.isFinite(activityId)) return null;
+        const activityId = normalizeActivityId(impact.activityId);
+        if (activityId === undefined) return null;
         return {
           activityId,
           deltaDays: Number(impact.deltaDays) || 0,
@@ -1367,10 +4072,79 @@ export default function Page() {
       .filter(Boolean);
   };
 
+  const loopWarning = () =>
+    logicLoops.length
+      ? ` Warning: ${logicLoops.length} logic loop${logicLoops.length === 1 ? "" : "s"} left unscheduled; loop activities keep their imported start.`
+      : "";
+
+  const loopsBlockRun = (setStatus = setScenarioStatus) => {
+    if (!logicLoops.length || allowLoopRuns) return false;
+    setStatus(
+      `Scenario blocked: ${logicLoops.length} logic loop${logicLoops.length === 1 ? "" : "s"} in the schedule (${logicLoops[0].path.join(" → ")}). Break the loop or allow runs in the Logic loops panel.`
+    );
+    traceLogicLoop(0);
+    return true;
+  };
+
+  // One CPM run in the scheduling worker (on a fragnet-modified network when given);
+  // null when cancelled, failed or overtaken by a new schedule
+  const computeSchedule = async (impacts, leveling = null, network = null) => {
+    const runId = ++engineRunRef.current;
+    setRiskProgress(null);
+    setIsSimulating(true);
+    setComputeFraction(0);
+    setScenarioStatus("Re-running forward/backward passes...");
+    let reply;
+    try {
+      reply = await getEngine().run(
+        "schedule",
+        {
+          rows: network?.rows ?? rows,
+          rels: network?.rels ?? rels,
+          impact: leveling ? { impacts, leveling } : { impacts },
+          calendars,
+          progressSettings,
+        },
+        ({ fraction }) => setComputeFraction(fraction)
+      );
+    } catch (err) {
+      if (engineRunRef.current === runId) {
+        setIsSimulating(false);
+        setScenarioStatus(`Scenario run failed: ${err.message}`);
+      }
+      return null;
+    }
+    if (engineRunRef.current !== runId) return null;
+    setIsSimulating(false);
+    if (!reply.result) {
+      setScenarioStatus("Scenario run cancelled.");
+      return null;
+    }
+    return reply.result;
+  };
+
+  // Applies a scenario's fragnet to the loaded network; null (with the reasons shown) when it does not fit
+  const fragnetNetwork = (fragnet, setStatus = setScenarioStatus) => {
+    if (!fragnetSize(fragnet)) return null;
+    const network = applyFragnet(rows, rels, fragnet);
+    if (network.errors.length) {
+      setStatus(`Fragnet not applied: ${network.errors.join(" ")}`);
+      return null;
+    }
+    const loops = findLogicLoops(network.rows, network.rels);
+    if (loops.length > logicLoops.length) {
+      const added = loops.find((loop) => loop.ids.some((id) => !rowById.has(id))) ?? loops[0];
+      setStatus(`Fragnet not applied: it creates a logic loop (${added.path.join(" → ")}).`);
+      return null;
+    }
+    return network;
+  };
+
   const runScenario = async (scenario) => {
     const impacts = normalizeScenarioImpacts(scenario);
-    if (!impacts.length) {
-      setScenarioStatus("Add at least one valid activity adjustment before running a scenario.");
+    const fragnet = fragnetSize(scenario.fragnet) ? scenario.fragnet : null;
+    if (!impacts.length && !fragnet) {
+      setScenarioStatus("Add at least one valid activity adjustment or fragnet change before running a scenario.");
       return;
     }
     const missing = impacts.find((impact) => !rowById.has(impact.activityId));
@@ -1385,27 +4159,143 @@ export default function Page() {
       setScenarioStatus(`Activity ${summaryHit.activityId} is a summary/parent task and cannot be simulated directly.`);
       return;
     }
-    setIsSimulating(true);
-    setScenarioStatus("Re-running forward/backward passes...");
-    await new Promise((resolve) => setTimeout(resolve, 350));
-    const simulated = simulateScenario(rows, rels, { impacts });
+    const network = fragnet && fragnetNetwork(fragnet);
+    if (fragnet && !network) return;
+    if (loopsBlockRun()) return;
+    // Time impact analysis: the unimpacted run first, so the chosen milestones can be compared
+    const milestones = reportMilestones.slice();
+    const before = milestones.length ? await computeSchedule([]) : null;
+    if (milestones.length && !before) return;
+    const simulated = await computeSchedule(impacts, null, network);
+    if (!simulated) return;
     setSimRows(simulated);
-    setActiveScenario({ ...scenario, impacts });
-    setIsSimulating(false);
+    setSimRels(network?.rels ?? null);
+    setActiveScenario({ ...scenario, impacts, fragnet });
+    setImpactReport(
+      before ? { ...milestoneImpact(before, simulated, milestones, calendars), scenario: { title: scenario.title, impacts, fragnet } } : null
+    );
+    const added = fragnet?.activities?.length ?? 0;
+    const edits = fragnet?.links?.length ?? 0;
+    setScenarioStatus(
+      `Scenario "${scenario.title}" applied to ${impacts.length} activit${impacts.length === 1 ? "y" : "ies"}` +
+        (fragnet ? ` with a fragnet of ${added} new activit${added === 1 ? "y" : "ies"} and ${edits} relationship change${edits === 1 ? "" : "s"}.` : ".") +
+        loopWarning()
+    );
+  };
+
+  const rescheduleFromDataDate = async () => {
+    if (loopsBlockRun()) return;
+    const simulated = await computeSchedule([]);
+    if (!simulated) return;
+    setSimRows(simulated);
+    setSimRels(null);
+    setImpactReport(null);
+    setActiveScenario({
+      id: "progress-update",
+      title: dataDate ? `Progress update (data date ${dataDate})` : "Progress update",
+      impacts: [],
+    });
     setScenarioStatus(
-      `Scenario "${scenario.title}" applied to ${impacts.length} activit${impacts.length === 1 ? "y" : "ies"}.`
+      `Rescheduled ${progressCounts.complete} complete and ${progressCounts.active} in-progress activit${progressCounts.complete + progressCounts.active === 1 ? "y" : "ies"} with ${progressMode === "override" ? "progress override" : "retained logic"}.` +
+        loopWarning()
+    );
+  };
+
+  // Levels the schedule as it stands (the active scenario's impacts and fragnet, if any) against the resource capacities
+  const levelResources = async ({ priority, beyondFloat }) => {
+    if (!resourceLoad) return;
+    if (loopsBlockRun(setResourceStatus)) return;
+    const impacts = simRows ? normalizeScenarioImpacts(activeScenario) : [];
+    const fragnet = simRows ? activeScenario?.fragnet ?? null : null;
+    const network = fragnet && fragnetNetwork(fragnet, setResourceStatus);
+    if (fragnet && !network) return;
+    const capacity = Object.fromEntries(resourceLoad.resources.map((r) => [r.name, r.capacity]));
+    const leveling = { capacity, priority, beyondFloat };
+    const simulated = await computeSchedule(impacts, leveling, network);
+    if (!simulated) return;
+    const delayed = simulated.filter((r) => r.LevelingDelay_d > 0).length;
+    const unresolved = simulated.filter((r) => r.LevelingUnresolved).length;
+    const label = LEVELING_PRIORITIES.find((p) => p.key === priority)?.label ?? priority;
+    setSimRows(simulated);
+    setSimRels(network?.rels ?? null);
+    setImpactReport(null);
+    const baseTitle = activeScenario?.id === "resource-leveling" ? activeScenario.baseTitle : simRows ? activeScenario?.title : null;
+    setActiveScenario({
+      id: "resource-leveling",
+      title: `Resource levelled${baseTitle ? ` (${baseTitle})` : ""}`,
+      baseTitle,
+      impacts,
+      fragnet,
+      leveling,
+    });
+    setScenarioStatus(`Resources levelled: ${delayed} activit${delayed === 1 ? "y" : "ies"} delayed.` + loopWarning());
+    setResourceStatus(
+      `${label}, ${beyondFloat ? "delaying beyond float where needed" : "within float only"}: ${delayed} activit${delayed === 1 ? "y" : "ies"} delayed` +
+        (unresolved
+          ? `; ${unresolved} could not be placed within float and keep their over-allocation${beyondFloat ? "" : " (allow delays beyond float to resolve them)"}.`
+          : ".")
+    );
+  };
+
+  const runRisk = async ({ distribution, iterations, seed }) => {
+    const ids = Object.keys(riskRanges).filter((id) => rowById.has(id) && !rowById.get(id).IsSummary);
+    if (!ids.length) {
+      setRiskStatus("Set a three-point range on at least one activity before running.");
+      return;
+    }
+    if (loopsBlockRun(setRiskStatus)) return;
+    const ranges = Object.fromEntries(ids.map((id) => [id, riskRanges[id]]));
+    const baseDurations = Object.fromEntries(
+      ids.map((id) => {
+        const row = rowById.get(id);
+        return [id, deriveDurationDays(row, resolveCalendar(calendars, row.CalendarID))];
+      })
+    );
+    const runId = ++engineRunRef.current;
+    setIsSimulating(false);
+    setRiskStatus("");
+    setRiskProgress({ done: 0, total: iterations });
+    let reply;
+    try {
+      reply = await getEngine().run(
+        "risk",
+        { rows, rels, calendars, progressSettings, ranges, baseDurations, distribution, iterations, seed },
+        ({ done, total }) => done !== undefined && setRiskProgress({ done, total })
+      );
+    } catch (err) {
+      reply = { result: null, error: err };
+    }
+    if (engineRunRef.current !== runId) return;
+    setRiskProgress(null);
+    if (!reply.result) {
+      setRiskStatus(
+        reply.error
+          ? `Risk run failed: ${reply.error.message}`
+          : reply.cancelled
+          ? "Risk run cancelled."
+          : "No iterations produced a finish date."
+      );
+      return;
+    }
+    setRiskSummary(reply.result);
+    const label = RISK_DISTRIBUTIONS.find((d) => d.key === distribution)?.label ?? distribution;
+    setRiskStatus(
+      `${reply.cancelled ? "Cancelled after" : "Completed"} ${reply.iterations} iteration${reply.iterations === 1 ? "" : "s"} (${label}, ${ids.length} ranged activit${ids.length === 1 ? "y" : "ies"}).` +
+        loopWarning()
     );
   };
 
   const clearScenarioView = () => {
     setSimRows(null);
+    setSimRels(null);
+    setImpactReport(null);
     setActiveScenario(null);
     setScenarioStatus("Scenario view reset. Showing baseline schedule.");
   };
 
   const handleRunScenario = async () => {
     if (!scenarioFormValid) {
-      setScenarioStatus("Add at least one valid activity adjustment before running the scenario.");
+      setScenarioStatus("Add at least one valid activity adjustment or fragnet change before running the scenario.");
       return;
     }
     const impactsSnapshot = validDraftImpacts.map((impact) => ({ ...impact }));
@@ -1415,6 +4305,7 @@ export default function Page() {
         scenarioTitle.trim() ||
         `Ad-hoc scenario (${validDraftImpacts.length} activit${validDraftImpacts.length === 1 ? "y" : "ies"})`,
       impacts: impactsSnapshot,
+      fragnet: validDraftFragnet,
       createdAt: Number(rows[0]?.ES ? new Date(rows[0].ES).getTime() : 0),
     };
     await runScenario(scenario);
@@ -1422,7 +4313,7 @@ export default function Page() {
 
   const handleSaveScenario = () => {
     if (!scenarioFormValid) {
-      setScenarioStatus("Add at least one valid activity adjustment before saving the scenario.");
+      setScenarioStatus("Add at least one valid activity adjustment or fragnet change before saving the scenario.");
       return;
     }
     if (maxScenariosReached) {
@@ -1431,17 +4322,179 @@ export default function Page() {
     }
     const impactsSnapshot = validDraftImpacts.map((impact) => ({ ...impact }));
     const scenario = {
-      id: `scenario-${scenarioLibrary.length + 1}`,
+      id: `scenario-${++scenarioCounterRef.current}`,
       title: scenarioTitle.trim() || `Scenario ${scenarioLibrary.length + 1}`,
       impacts: impactsSnapshot,
+      fragnet: validDraftFragnet,
       createdAt: Number(rows[0]?.ES ? new Date(rows[0].ES).getTime() : 0),
     };
     setScenarioLibrary((prev) => [...prev, scenario]);
     setScenarioStatus(`Scenario "${scenario.title}" saved.`);
   };
 
+  // Runs the chosen library scenarios one after another on the loaded network; the chart keeps its current view
+  const runComparison = async () => {
+    const picked = scenarioLibrary.filter((scenario) => compareIds.includes(scenario.id));
+    if (picked.length < 2) return;
+    if (loopsBlockRun(setComparisonStatus)) return;
+    const networks = picked.map((scenario) => (fragnetSize(scenario.fragnet) ? fragnetNetwork(scenario.fragnet, setComparisonStatus) : null));
+    const unfit = picked.findIndex((scenario, idx) => fragnetSize(scenario.fragnet) && !networks[idx]);
+    if (unfit >= 0) return;
+    setComparing(true);
+    setComparisonStatus("");
+    const base = await computeSchedule([]);
+    const runs = [];
+    for (let idx = 0; base && idx < picked.length; idx++) {
+      setComparisonStatus(`Running ${picked[idx].title} (${idx + 1}/${picked.length})...`);
+      const result = await computeSchedule(normalizeScenarioImpacts(picked[idx]), null, networks[idx]);
+      if (!result) break;
+      runs.push({ id: picked[idx].id, title: picked[idx].title, rows: result });
+    }
+    setComparing(false);
+    setScenarioStatus("");
+    if (!base || runs.length < picked.length) {
+      setComparisonStatus("Comparison stopped before every scenario had run.");
+      return;
+    }
+    setComparison(compareScenarios(base, runs, { calendars }));
+    setComparisonStatus(
+      `Compared ${runs.length} scenarios against the current schedule` + (dataDate ? ` (data date ${dataDate}).` : ".") + loopWarning()
+    );
+  };
+
+  const downloadComparison = () => {
+    if (!comparison) return;
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(milestoneComparisonRows(comparison)), "Milestones");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(comparisonSheetRows(comparison)), "Activities");
+    const base = (fileName || "schedule").replace(/\.[^.]+$/, "").replace(/[^\w-]+/g, "-");
+    downloadWorkbook(wb, `${base}-scenario-comparison.xlsx`);
+  };
+
+  const printImpactSummary = () => {
+    if (!impactReport) return;
+    const details = [fileName, dataDate && `Data date ${dataDate}`, `Printed ${fmt(new Date())}`].filter(Boolean);
+    const url = URL.createObjectURL(new Blob([impactSummaryHTML(impactReport, impactReport.scenario, details)], { type: "text/html" }));
+    window.open(url, "_blank");
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
   const handleDeleteScenario = (id) => {
     setScenarioLibrary((prev) => prev.filter((scenario) => scenario.id !== id));
+    setCompareIds((prev) => prev.filter((x) => x !== id));
+  };
+
+  const nextBaselineId = () => `baseline-${++baselineCounterRef.current}`;
+
+  const captureCurrentBaseline = (name) => {
+    const baseline = captureBaseline({
+      id: nextBaselineId(),
+      name: name || (simRows ? `${activeScenario?.title ?? "Scenario"} snapshot` : `Baseline ${baselines.length + 1}`),
+      rows: activeRows,
+      source: simRows ? `Scenario: ${activeScenario?.title ?? "unsaved"}` : "Current schedule",
+      finishInclusive: !simRows,
+    });
+    setBaselines((prev) => [...prev, baseline]);
+    setBaselineStatus(`Baseline "${baseline.name}" captured (${baseline.count} activities).`);
+  };
+
+  const importBaselineWorkbook = async (file, name) => {
+    try {
+      const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+      const sheetData = readScheduleSheet(wb, pickScheduleSheet(wb));
+      const missing = missingRequiredFields(sheetData.mapping);
+      if (missing.length) {
+        setBaselineStatus(`${file.name}: no column found for ${missing.join(", ")}. Map the sheet once by uploading it as a schedule.`);
+        return;
+      }
+      const baseline = captureBaseline({
+        id: nextBaselineId(),
+        name: name || file.name.replace(/\.[^.]+$/, ""),
+        rows: mapScheduleRows(sheetData.raw, sheetData.mapping).map(normalizeRow),
+        source: `Imported: ${file.name}`,
+        finishInclusive: true,
+      });
+      const { matched, total } = baselineCoverage(baseline, rows);
+      setBaselines((prev) => [...prev, baseline]);
+      setBaselineStatus(`Baseline "${baseline.name}" imported: ${matched} of ${total} activities matched by ActivityID.`);
+    } catch (err) {
+      setBaselineStatus(`Could not read ${file.name}: ${err?.message || err}`);
+    }
+  };
+
+  const deleteBaseline = (id) => {
+    setBaselines((prev) => prev.filter((b) => b.id !== id));
+    if (comparisonBaselineId === id) setComparisonBaselineId(UPLOAD_BASELINE_ID);
+  };
+
+  // DCMA check on the schedule in view, scenario fragnet and link edits included; the critical path test
+  // re-runs CPM in-thread (two passes) on the same network with the scenario's impacts and levelling
+  const runHealthCheck = () => {
+    const fragnet = simRows ? activeScenario?.fragnet ?? null : null;
+    const network = fragnet ? fragnetNetwork(fragnet) : null;
+    if (fragnet && !network) return;
+    const scenarioImpacts = simRows ? normalizeScenarioImpacts(activeScenario) : [];
+    const leveling = simRows ? activeScenario?.leveling ?? null : null;
+    const simulate = logicLoops.length
+      ? null
+      : (impacts) =>
+          simulateScenario(
+            network?.rows ?? rows,
+            network?.rels ?? rels,
+            leveling ? { impacts: [...scenarioImpacts, ...impacts], leveling } : { impacts: [...scenarioImpacts, ...impacts] },
+            calendars,
+            progressSettings
+          );
+    setHealthCheck(
+      runDcmaCheck({
+        rows: activeRows,
+        rels: activeRels,
+        dataDate,
+        baselineOf: (r) => baselineDatesFor(r, comparisonBaseline),
+        simulate,
+      })
+    );
+  };
+
+  const loadPreviousUpdate = async (file) => {
+    try {
+      const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+      const sheetData = readScheduleSheet(wb, pickScheduleSheet(wb));
+      const missing = missingRequiredFields(sheetData.mapping);
+      if (missing.length) {
+        setUpdateStatus(`${file.name}: no column found for ${missing.join(", ")}. Map the sheet once by uploading it as a schedule.`);
+        return;
+      }
+      const mapped = mapScheduleRows(sheetData.raw, sheetData.mapping);
+      let edges = readRelationshipSheet(wb);
+      if (!edges.length) edges = buildLinksFromPredecessors(mapped);
+      setPreviousUpdate({ fileName: file.name, rows: annotateSummaries(mapped.map(normalizeRow)), rels: edges });
+      setChangeGroup("all");
+      setUpdateStatus(`Previous update loaded from ${file.name}.`);
+    } catch (err) {
+      setUpdateStatus(`Could not read ${file.name}: ${err?.message || err}`);
+    }
+  };
+
+  const clearPreviousUpdate = () => {
+    setPreviousUpdate(null);
+    setUpdateStatus("");
+    if (filter === "changed") setFilter("all");
+  };
+
+  const showChangedRows = () => {
+    setQuery("");
+    setWbsFilter("all");
+    setFilter("changed");
+  };
+
+  const downloadChangeLog = () => {
+    if (!updateLog) return;
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(changeLogRows(updateLog)), "Change log");
+    const summary = CHANGE_GROUPS.map((g) => ({ Category: g.label, Changes: updateLog.counts[g.key] }));
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summary), "Summary");
+    downloadWorkbook(wb, "schedule-change-log.xlsx");
   };
 
   // ---- Tiny runtime tests (console; no hooks inside) ----
@@ -1453,8 +4506,300 @@ export default function Page() {
     const t2 = normalizeRow({ DurDays: 0, Milestone: "true", ES: "2025-02-01", EF: "2025-02-01", ActivityID: 2, TaskName: "MS" });
     console.assert(t2.Milestone === true, "normalizeRow should set Milestone true when DurDays=0 or flag true");
 
+    const t3 = parseMSPDI('<Project><MinutesPerDay>480</MinutesPerDay><Tasks><Task><UID>1</UID><Name>A</Name><Duration>PT40H0M0S</Duration><OutlineLevel>1</OutlineLevel></Task><Task><UID>2</UID><Name>B</Name><Duration>PT8H0M0S</Duration><OutlineLevel>1</OutlineLevel><PredecessorLink><PredecessorUID>1</PredecessorUID><Type>3</Type><LinkLag>4800</LinkLag><LagFormat>7</LagFormat></PredecessorLink></Task></Tasks></Project>');
+    console.assert(t3.rows[0].DurDays === 5 && t3.rels[0]?.RelType === "SS" && t3.rels[0]?.Lag_d === 1, "parseMSPDI should convert durations, link types and lags");
+
+    const t4 = parseLinkToken("CIV-220SS+3", "CIV-230");
+    console.assert(t4?.PredID === "CIV-220" && t4.RelType === "SS" && t4.Lag_d === 3, "parseLinkToken should read alphanumeric IDs with type and lag");
+    const t5 = parseLinkToken("CIV-220", "CIV-230");
+    console.assert(t5?.PredID === "CIV-220" && t5.Lag_d === 0, "parseLinkToken should keep hyphenated IDs without a type intact");
+
     const dom = computeDomain([{ ES: "2025-01-01", EF: "2025-01-10" }, { ES: "2025-01-05", EF: "2025-01-20" }]);
     console.assert(!!dom.min && !!dom.max && typeof dom.scaleX === 'function', "computeDomain should return min/max/scaleX");
+
+    const alap = simulateScenario(
+      [
+        { ActivityID: "A", ES: "2024-09-02", DurDays: 10 },
+        { ActivityID: "C", ES: "2024-09-02", DurDays: 2, ConstraintType: "ALAP" },
+        { ActivityID: "D", ES: "2024-09-16", DurDays: 3 },
+      ],
+      [
+        { PredID: "A", SuccID: "D", RelType: "FS", Lag_d: 0 },
+        { PredID: "C", SuccID: "D", RelType: "FS", Lag_d: 0 },
+      ],
+      { impacts: [] }
+    );
+    const alapC = alap.find((r) => r.ActivityID === "C");
+    const alapD = alap.find((r) => r.ActivityID === "D");
+    console.assert(alapC.ES > "2024-09-02" && alapC.EF <= alapD.ES && alapC.TotalFloat_d === 0, "ALAP work should move up to its FS successor without breaking the link");
+
+    const xer = buildXERSchedule(
+      parseXER(
+        [
+          "%T\tPROJECT", "%F\tproj_id\tproj_short_name", "%R\t1\tP1",
+          "%T\tCALENDAR", "%F\tclndr_id\tday_hr_cnt", "%R\t9\t10",
+          "%T\tTASK", "%F\ttask_id\tproj_id\tclndr_id\ttask_code\ttask_name\ttarget_drtn_hr_cnt", "%R\t1\t1\t9\tA1000\tDig\t50", "%R\t2\t1\t9\tA1010\tFill\t20",
+          "%T\tTASKPRED", "%F\ttask_id\tpred_task_id\tpred_type\tlag_hr_cnt", "%R\t2\t1\tPR_SS\t10",
+          "%E",
+        ].join("\r\n")
+      )
+    );
+    console.assert(xer.rows.find((r) => r.ActivityID === "A1000")?.DurDays === 5 && xer.rels[0]?.PredID === "A1000" && xer.rels[0]?.RelType === "SS" && xer.rels[0]?.Lag_d === 1, "buildXERSchedule should read task codes, link types and hour durations on the calendar's day length");
+
+    const colMap = detectColumnMapping(["Act ID", "Activity Name", "Planned Start", "Orig Dur", "Comments"]);
+    console.assert(colMap.ActivityID === "Act ID" && colMap.ES === "Planned Start" && colMap.EF === undefined && missingRequiredFields(colMap).length === 0, "detectColumnMapping should match header aliases and accept a duration in place of a finish");
+    const mapped = applyColumnMapping([{ Code: "A-1", Title: "Dig", Begins: "2025-03-03", Length: "5 days" }], { ActivityID: "Code", TaskName: "Title", ES: "Begins", Duration: "Length" })[0];
+    console.assert(mapped.ActivityID === "A-1" && mapped.TaskName === "Dig" && mapped.ES === "2025-03-03" && mapped.DurDays === 5, "applyColumnMapping should copy mapped columns onto the standard fields");
+
+    const diag = buildImportDiagnostics({
+      rows: [{ ActivityID: "A", ES: "2025-01-10", EF: "2025-01-06" }, { ActivityID: "A", ES: "2025-01-06", EF: "2025-01-07" }],
+      rels: [{ PredID: "A", SuccID: "Z", RelType: "FS", Lag_d: 0 }],
+      sourceRows: [2, 4],
+    });
+    const diagOf = (category) => diag.find((d) => d.category === category);
+    console.assert(diagOf("Finish before start")?.sourceRow === 2 && diagOf("Duplicate ID")?.sourceRow === 4 && diagOf("Missing link target")?.severity === "error", "buildImportDiagnostics should report bad dates, duplicate IDs and dangling links against sheet rows");
+    const diagCsv = diagnosticsToCSV([{ severity: "warning", category: "Missing ID", rowIndex: 0, sourceRow: 2, activityId: "", message: "Note\rcontinued" }]);
+    console.assert(diagCsv.endsWith('"Note\rcontinued"'), "diagnosticsToCSV should quote fields holding a carriage return");
+
+    const idRows = simulateScenario(
+      [{ ActivityID: 101, ES: "2025-01-06", DurDays: 2 }, { ActivityID: " 102 ", ES: "2025-01-06", DurDays: 1 }],
+      [{ PredID: "101", SuccID: 102, RelType: "FS", Lag_d: 0 }],
+      { activityId: 101, deltaDays: 1 }
+    );
+    console.assert(normalizeRow({ ID: 7, Name: "Seven" }).ActivityID === "7" && idRows[0].DurDays === 3 && idRows[1].ES === idRows[0].EF, "Numeric and string activity IDs should match across rows, links and impacts");
+
+    const workCals = createDefaultCalendars();
+    workCals.list[0] = createCalendar({ holidays: ["2025-01-06"], hoursPerDay: 10 });
+    const { rows: shiftRows } = applyShiftHours([{ ActivityID: "A", ES: "2025-01-03", DurHours: 20 }], [], workCals);
+    const onCal = simulateScenario(shiftRows, [], { impacts: [] }, workCals);
+    console.assert(shiftRows[0].DurDays === 2 && onCal[0].EF === "2025-01-08", "Hour durations should use the calendar's shift hours and skip weekends and holidays");
+    const relWb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      relWb,
+      XLSX.utils.json_to_sheet([
+        { PredID: "A", SuccID: "B", RelType: "SS", Lag: "4h" },
+        { PredID: "A", SuccID: "C", RelType: "XX", Lag: 0 },
+      ]),
+      "Relationships"
+    );
+    const relRejected = [];
+    const { rels: sheetLinks } = applyShiftHours([{ ActivityID: "B" }, { ActivityID: "C" }], readRelationshipSheet(relWb, relRejected), workCals);
+    console.assert(sheetLinks.length === 1 && sheetLinks[0].Lag_d === 0.4 && relRejected[0]?.succId === "C" && relRejected[0]?.token === "A XX", "readRelationshipSheet should convert hour lags on the calendar's shift hours and report unknown link types");
+
+    const constrained = simulateScenario(
+      [
+        { ActivityID: "A", ES: "2024-09-02", DurDays: 2 },
+        { ActivityID: "B", ES: "2024-09-02", DurDays: 2, ConstraintType: "SNET", ConstraintDate: "2024-09-09" },
+        { ActivityID: "C", ES: "2024-09-02", DurDays: 1, ConstraintType: "MSO", ConstraintDate: "2024-09-03" },
+      ],
+      [
+        { PredID: "A", SuccID: "B", RelType: "FS", Lag_d: 0 },
+        { PredID: "A", SuccID: "C", RelType: "FS", Lag_d: 0 },
+      ],
+      { impacts: [] }
+    );
+    console.assert(constrained[1].ES === "2024-09-09" && constrained[1].ConstraintViolated === false && constrained[2].ES === "2024-09-04" && constrained[2].ConstraintViolated === true, "SNET should hold work back and an MSO date that logic overruns should be flagged as violated");
+    const finishCapped = simulateScenario(
+      [
+        { ActivityID: "F1", ES: "2024-09-09", DurDays: 5, ConstraintType: "FNLT", ConstraintDate: "2024-09-10" },
+        { ActivityID: "F2", ES: "2024-09-09", DurDays: 2, ConstraintType: "FNET", ConstraintDate: "2024-09-12" },
+      ],
+      [],
+      { impacts: [] }
+    );
+    console.assert(finishCapped[0].TotalFloat_d === -3 && finishCapped[1].ES === "2024-09-11" && finishCapped[1].TotalFloat_d === 1, "FNLT and FNET dates should fall at the end of their day");
+
+    const loops = findLogicLoops(
+      [{ ActivityID: "A" }, { ActivityID: "B" }, { ActivityID: "C" }, { ActivityID: "D" }],
+      [
+        { PredID: "A", SuccID: "B", RelType: "FS", Lag_d: 0 },
+        { PredID: "B", SuccID: "C", RelType: "FS", Lag_d: 0 },
+        { PredID: "C", SuccID: "A", RelType: "FS", Lag_d: 0 },
+        { PredID: "C", SuccID: "D", RelType: "FS", Lag_d: 0 },
+      ]
+    );
+    console.assert(loops.length === 1 && loops[0].ids.length === 3 && loops[0].links.length === 3 && loops[0].path[0] === loops[0].path[3], "findLogicLoops should report one closed loop without the link leaving it");
+    const loopRows = [
+      { ActivityID: "A", ES: "2024-09-02", DurDays: 2 },
+      { ActivityID: "B", ES: "2024-09-02", DurDays: 3 },
+      { ActivityID: "C", ES: "2024-09-02", DurDays: 1 },
+      { ActivityID: "D", ES: "2024-09-02", DurDays: 10 },
+    ];
+    const looped = simulateScenario(
+      loopRows,
+      [
+        { PredID: "A", SuccID: "B", RelType: "FS", Lag_d: 0 },
+        { PredID: "B", SuccID: "C", RelType: "FS", Lag_d: 0 },
+        { PredID: "C", SuccID: "B", RelType: "FS", Lag_d: 0 },
+      ],
+      { impacts: [] }
+    );
+    const unlinked = simulateScenario(loopRows, [], { impacts: [] });
+    console.assert(looped[0].TotalFloat_d === unlinked[0].TotalFloat_d && looped[0].TotalFloat_d > 0 && looped[1].TotalFloat_d === "" && looped[2].LS === "", "Work feeding a logic loop should keep its float and the loop members' late dates stay blank");
+
+    const statused = simulateScenario(
+      [
+        { ActivityID: "A", ES: "2025-01-06", DurDays: 3, ActualStart: "2025-01-06", ActualFinish: "2025-01-08" },
+        { ActivityID: "B", ES: "2025-01-09", DurDays: 3 },
+      ],
+      [{ PredID: "A", SuccID: "B", RelType: "FS", Lag_d: 0 }],
+      { impacts: [] },
+      null,
+      { dataDate: "2025-01-13", mode: "retained" }
+    );
+    console.assert(statused[0].ES === "2025-01-06" && statused[0].RemainingDuration === 0 && statused[1].ES === "2025-01-13", "Unstarted work should not be scheduled before the data date, and actuals should be kept");
+
+    const driving = traceDrivingPath({
+      rows: [
+        { ActivityID: "A", ES: "2025-01-06", EF: "2025-01-10" },
+        { ActivityID: "B", ES: "2025-01-06", EF: "2025-01-08" },
+        { ActivityID: "M", ES: "2025-01-10", EF: "2025-01-10", Milestone: true },
+      ],
+      rels: [
+        { PredID: "A", SuccID: "M", RelType: "FS", Lag_d: 0 },
+        { PredID: "B", SuccID: "M", RelType: "FS", Lag_d: 0 },
+      ],
+      targetId: "M",
+    });
+    console.assert(driving?.map((s) => s.id).join(",") === "A,M" && driving[0].drives[0]?.rff === 0, "traceDrivingPath should follow only predecessors with zero relationship free float");
+
+    const riskRanges = readThreePointRanges([{ ActivityID: "A", DurDays: 5, DurMin: 4, DurMax: 9 }, { ActivityID: "B", DurDays: 5, DurMin: 6, DurMax: 9 }]);
+    const riskRandom = createRandom(42);
+    const samples = Array.from({ length: 200 }, () => sampleDuration(riskRanges.A, "pert", riskRandom)).sort((a, b) => a - b);
+    console.assert(!riskRanges.B && samples[0] >= 4 && samples[199] <= 9 && percentileOf(samples, 10) <= percentileOf(samples, 90), "Risk sampling should skip invalid ranges and stay within the three-point range");
+
+    const chainRows = Array.from({ length: 600 }, (_, i) => ({ ActivityID: `C${599 - i}`, ES: "2025-01-06", DurDays: 1 }));
+    const chainRels = Array.from({ length: 599 }, (_, i) => ({ PredID: `C${i}`, SuccID: `C${i + 1}`, RelType: "FS", Lag_d: 0 }));
+    const passFractions = [];
+    const chained = simulateScenario(chainRows, chainRels, { impacts: [] }, null, null, (fraction) => passFractions.push(fraction));
+    console.assert(chained[0].ES > chained[1].ES && chained[598].ES > chained[599].ES && passFractions.length >= 2 && passFractions.every((f, i) => f <= 1 && (i === 0 || f > passFractions[i - 1])), "simulateScenario should schedule rows listed after their successors and report rising pass progress");
+
+    const scrolled = visibleRowRange({ top: 2000, height: 400 }, 64, 20, 1000);
+    const short = visibleRowRange({ top: 0, height: 800 }, 64, 20, 5);
+    console.assert(scrolled.firstRow === 84 && scrolled.lastRow === 129 && short.firstRow === 0 && short.lastRow === 4, "visibleRowRange should cover the scroll window plus overscan, clamped to the rows");
+
+    const wbs = buildWbsTree([
+      { ActivityID: "S1", WBSLevel: 1, __rowIndex: 0 },
+      { ActivityID: "A", WBSLevel: 2, __rowIndex: 1 },
+      { ActivityID: "B", WBSLevel: 2, __rowIndex: 2 },
+      { ActivityID: "C", WBSLevel: 1, __rowIndex: 3 },
+    ]);
+    const folded = collapseWbsTree(wbs, collapseToLevel(wbs, 1));
+    const rolled = repointLinks(
+      [
+        { PredID: "A", SuccID: "C", RelType: "FS", Lag_d: 0 },
+        { PredID: "B", SuccID: "C", RelType: "FS", Lag_d: 0 },
+        { PredID: "A", SuccID: "B", RelType: "FS", Lag_d: 0 },
+      ],
+      folded.anchorIds
+    );
+    console.assert(folded.hidden.size === 2 && rolled.length === 1 && rolled[0].PredID === "S1" && rolled[0].Rolled, "Collapsed WBS rows should hide their children and roll their links up to the summary once");
+    const xerWbs = buildWbsTree([
+      { ActivityID: undefined, ActivityCode: "CIV", WBSLevel: 1, Summary: true, __rowIndex: 0 },
+      { ActivityID: "A", WBSLevel: 2, __rowIndex: 1 },
+      { ActivityID: "C", WBSLevel: 1, __rowIndex: 2 },
+    ]);
+    const xerFolded = collapseWbsTree(xerWbs, collapseToLevel(xerWbs, 1));
+    const xerRolled = repointLinks([{ PredID: "A", SuccID: "C", RelType: "FS", Lag_d: 0 }], xerFolded.anchorIds);
+    console.assert(xerRolled[0]?.PredID === "wbs:0" && xerRolled[0]?.Rolled, "Links under a collapsed summary without an activity ID should roll up to the summary row");
+
+    const slip = scheduleVariance({ ActivityID: "A", ES: "2025-01-08", EF: "2025-01-13" }, { start: Date.parse("2025-01-06"), finish: Date.parse("2025-01-10") });
+    console.assert(slip.start === 2 && slip.finish === 2 && formatVariance(slip.finish) === "+2d" && varianceTone(slip.finish, 1) === "slip", "scheduleVariance should compare engine finishes with inclusive baseline finishes");
+
+    const namedBaseline = captureBaseline({
+      id: "b1",
+      name: "Original",
+      source: "current",
+      rows: [{ ActivityID: "A", ES: "2025-01-06", EF: "2025-01-10" }, { ActivityID: "M", ES: "2025-01-10", EF: "2025-01-10", Milestone: true }],
+    });
+    const coverage = baselineCoverage(namedBaseline, [{ ActivityID: "A" }, { ActivityID: "M" }, { ActivityID: "N" }]);
+    console.assert(baselineDatesFor({ ActivityID: "A" }, namedBaseline)?.finish === Date.parse("2025-01-09") && namedBaseline.finish === Date.parse("2025-01-10") && coverage.matched === 2 && coverage.total === 3, "captureBaseline should store inclusive finishes and report coverage of later schedules");
+
+    const updateLog = compareScheduleUpdates(
+      {
+        rows: [{ ActivityID: "A", ES: "2025-01-06", DurDays: 5 }, { ActivityID: "B", ES: "2025-01-13", DurDays: 3 }],
+        rels: [{ PredID: "A", SuccID: "B", RelType: "SS", Lag_d: 2 }, { PredID: "A", SuccID: "B", RelType: "FF", Lag_d: 0 }],
+      },
+      {
+        rows: [{ ActivityID: "A", ES: "2025-01-06", DurDays: 7 }, { ActivityID: "B", ES: "2025-01-13", DurDays: 3 }, { ActivityID: "C", ES: "2025-01-20", DurDays: 1 }],
+        rels: [{ PredID: "A", SuccID: "B", RelType: "SS", Lag_d: 2 }, { PredID: "A", SuccID: "B", RelType: "FF", Lag_d: 1 }],
+      }
+    );
+    console.assert(updateLog.counts.activities === 1 && updateLog.counts.durations === 1 && updateLog.counts.logic === 1, "compareScheduleUpdates should log added and re-estimated activities and only the changed one of parallel SS/FF links");
+
+    const health = runDcmaCheck({
+      rows: [
+        { ActivityID: "A", ES: "2025-01-06", EF: "2025-01-10", DurDays: 4, TotalFloat_d: 0 },
+        { ActivityID: "B", ES: "2025-01-08", EF: "2025-01-13", DurDays: 5, TotalFloat_d: 0 },
+        { ActivityID: "C", ES: "2025-01-06", EF: "2025-01-07", DurDays: 1, TotalFloat_d: 5 },
+      ],
+      rels: [{ PredID: "A", SuccID: "B", RelType: "FS", Lag_d: -2 }],
+    });
+    const healthOf = (key) => health.checks.find((c) => c.key === key);
+    console.assert(healthOf("leads")?.pass === false && healthOf("leads").offenders[0]?.id === "B" && healthOf("logic")?.offenders.length === 3, "runDcmaCheck should flag leads on the successor and activities missing logic");
+
+    const exported = activitySheetRows([{ ActivityID: "A", TaskName: "Dig", ES: "2025-01-06", EF: "2025-01-09", DurDays: 3, TotalFloat_d: 0 }]);
+    const exportedLinks = relationshipSheetRows([{ PredID: "A", SuccID: "Z", RelType: "FS", Lag_d: 0 }], exported);
+    console.assert(exported[0].EF === "2025-01-08" && exported[0].Criticality === "Critical" && exportedLinks.length === 0, "Exported sheets should name the last working day and keep only links between exported rows");
+
+    const printRows = ["A", "B", "C", "D", "E"].map((id, k) => ({ ActivityID: id, TaskName: `Task ${id}`, ES: `2025-01-0${k + 1}`, EF: `2025-01-0${k + 3}`, TotalFloat_d: k }));
+    const printPages = layoutGanttPages({ rows: printRows, title: "Test", paper: paperDimensions("A4", "portrait"), rowsPerPage: 2 });
+    const pdf = scenesToPDF(printPages, "Test");
+    console.assert(
+      printPages.length === 3 && printPages[0].width < printPages[0].height && printPages[2].items.some((it) => it.text === "Page 3 of 3") && sceneToSVG(printPages[0]).startsWith("<svg") && new TextDecoder().decode(pdf.slice(0, 5)) === "%PDF-",
+      "Print layout should paginate rows onto numbered pages and serialise to SVG and PDF"
+    );
+
+    const crewRows = attachAssignments([
+      { ActivityID: "A", ES: "2025-01-06", DurDays: 2, Resources: "Crew" },
+      { ActivityID: "B", ES: "2025-01-06", DurDays: 2, Resources: "Crew[1]" },
+    ]);
+    const unlevelled = resourceLoading(simulateScenario(crewRows, [], { impacts: [] }));
+    const levelled = simulateScenario(crewRows, [], { impacts: [], leveling: { capacity: { Crew: 1 }, priority: "start", beyondFloat: true } });
+    console.assert(unlevelled.overloaded.size === 2 && unlevelled.peak === 2 && levelled[1].LevelingDelay_d === 2 && resourceLoading(levelled).overloaded.size === 0, "Levelling should move work that overloads a resource past its capacity");
+
+    const ev = earnedValue(
+      [
+        { ActivityID: "A", ES: "2025-01-06", EF: "2025-01-10", DurDays: 4, BudgetCost: 1000, PctComplete: 100, ActualStart: "2025-01-06", ActualFinish: "2025-01-09", ActualCost: 1250 },
+        { ActivityID: "B", ES: "2025-01-10", EF: "2025-01-14", DurDays: 4, BudgetCost: 1000, PctComplete: 0 },
+      ],
+      { measure: "cost", dataDate: "2025-01-10" }
+    );
+    console.assert(ev.bac === 2000 && ev.pv === 1000 && ev.ev === 1000 && ev.ac === 1250 && ev.spi === 1 && ev.cpi === 0.8, "earnedValue should measure PV, EV and AC at the data date");
+
+    const tiaRows = [
+      { ActivityID: "A", ES: "2025-01-06", DurDays: 5, __rowIndex: 0 },
+      { ActivityID: "M", ES: "2025-01-11", DurDays: 0, Milestone: true, __rowIndex: 1 },
+    ];
+    const tiaRels = [{ PredID: "A", SuccID: "M", RelType: "FS", Lag_d: 0 }];
+    const withFragnet = applyFragnet(tiaRows, tiaRels, {
+      activities: [{ ActivityID: "F1", TaskName: "Late design change", DurDays: 3 }],
+      links: [
+        { action: "add", PredID: "A", SuccID: "F1" },
+        { action: "add", PredID: "F1", SuccID: "M" },
+        { action: "remove", PredID: "A", SuccID: "M" },
+      ],
+    });
+    const tia = milestoneImpact(simulateScenario(tiaRows, tiaRels, { impacts: [] }), simulateScenario(withFragnet.rows, withFragnet.rels, { impacts: [] }), ["M"]);
+    console.assert(
+      !withFragnet.errors.length && withFragnet.rows[1].ActivityID === "F1" && tia.milestones[0]?.finishDelta === 3 && tia.project.delta === 3,
+      "A fragnet should slot in after its predecessor and report the milestone delay it causes"
+    );
+    console.assert(applyFragnet(tiaRows, tiaRels, { links: [{ action: "add", PredID: "A", SuccID: "M" }] }).errors.length === 1, "applyFragnet should reject a link that already exists");
+
+    const runWith = (deltaDays) => simulateScenario(tiaRows, tiaRels, { impacts: [{ activityId: "A", deltaDays }] });
+    const sideBySide = compareScenarios(runWith(0), [
+      { id: "s1", title: "Rain", rows: runWith(2) },
+      { id: "s2", title: "Rain", rows: runWith(4) },
+    ]);
+    const milestoneSheet = milestoneComparisonRows(sideBySide);
+    console.assert(
+      sideBySide.scenarios.map((s) => s.finishDelta).join(",") === "2,4" && milestoneSheet[0]["Rain (2) Δ (d)"] === 4 && sideBySide.activities.every((a) => a.changed),
+      "compareScenarios should measure each run against the current schedule and label repeated titles apart"
+    );
+
+    console.assert(formatBytes(512) === "512 B" && formatBytes(1536) === "1.5 KB" && formatBytes(5 * 1024 * 1024) === "5.0 MB" && formatBytes(NaN) === "—", "formatBytes should scale sizes to B, KB and MB");
+    console.assert(newProjectId() !== newProjectId(), "newProjectId should not repeat within the same millisecond");
   }, []);
 
   return (
@@ -1473,7 +4818,14 @@ export default function Page() {
           />
           <div>
             <h1 className="text-2xl font-semibold tracking-tight">Gantt Viewer Pro</h1>
-            <p className="text-sm text-muted-foreground">{fileName || "Sample schedule"}</p>
+            <p className="text-sm text-muted-foreground">
+              {fileName || "Sample schedule"}
+              {workbookSource && !columnMapping && (
+                <button type="button" className="ml-2 text-xs underline underline-offset-2" onClick={openColumnMapping}>
+                  Map columns
+                </button>
+              )}
+            </p>
           </div>
         </div>
         <div className="flex gap-2">
@@ -1481,31 +4833,121 @@ export default function Page() {
             <Upload className="w-4 h-4" />
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.xml,.xer"
               className="hidden"
               onChange={async (e) => {
                 const file = e.target.files?.[0];
                 if (!file) return;
-                await handleUploadXLSX(file);
+                await handleUploadFile(file);
               }}
             />
-            <span>Upload Excel</span>
+            <span>Upload schedule</span>
           </label>
           <Button onClick={exportPNG} variant="secondary" className="rounded-2xl"><Download className="w-4 h-4 mr-2"/>Export PNG</Button>
+          <Button onClick={exportXLSX} variant="secondary" className="rounded-2xl"><Download className="w-4 h-4 mr-2"/>Export XLSX</Button>
+          <label className="inline-flex items-center gap-2 text-xs text-muted-foreground" title="Write only the rows passing the current filters">
+            <Switch checked={exportFilteredOnly} onCheckedChange={setExportFilteredOnly} />
+            Filtered only
+          </label>
         </div>
       </div>
 
+      {/* Workbooks with unrecognised headers: column-mapping step */}
+      {columnMapping && (
+        <ColumnMappingWizard
+          state={columnMapping}
+          onSheetChange={changeMappingSheet}
+          onFieldChange={changeMappingField}
+          onConfirm={confirmColumnMapping}
+          onCancel={() => setColumnMapping(null)}
+        />
+      )}
+
+      {/* XER files with several projects: pick one to load */}
+      {xerImport && (
+        <Card className="rounded-2xl">
+          <CardContent className="p-4 flex flex-col gap-3 md:flex-row md:items-center">
+            <div className="text-sm md:flex-1">
+              <span className="font-medium">{xerImport.fileName}</span> contains {xerImport.parsed.projects.length} projects. Choose which one to load.
+            </div>
+            <Select value={xerImport.projectId} onValueChange={(val) => setXerImport((prev) => ({ ...prev, projectId: val }))}>
+              <SelectTrigger className="rounded-xl md:w-72"><SelectValue placeholder="Select project" /></SelectTrigger>
+              <SelectContent>
+                {xerImport.parsed.projects.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button className="rounded-2xl" onClick={() => loadXERProject(xerImport.fileName, xerImport.parsed, xerImport.projectId)}>
+                Load project
+              </Button>
+              <Button variant="ghost" className="rounded-2xl" onClick={() => setXerImport(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Saved projects (browser storage) */}
+      <ProjectsPanel
+        projects={savedProjects}
+        currentId={projectId}
+        name={projectName}
+        onNameChange={setProjectName}
+        available={storeAvailable}
+        usage={storageInfo}
+        onSave={handleSaveProject}
+        onOpen={openStoredProject}
+        onRename={handleRenameProject}
+        onDelete={handleDeleteProject}
+        status={projectStatus}
+      />
+
       {/* Notice if workbook lacked links */}
       {linksNotice && (
         <div className="text-sm text-amber-600">Heads up: {linksNotice}</div>
       )}
 
+      {/* Import diagnostics */}
+      {diagnostics.length > 0 && (
+        <DiagnosticsPanel entries={diagnostics} onShowRow={showDiagnosticRow} onDownload={downloadDiagnosticsCSV} />
+      )}
+
+      {/* Logic loops */}
+      {logicLoops.length > 0 && (
+        <LogicLoopsPanel
+          loops={logicLoops}
+          selected={loopFocus}
+          onSelect={traceLogicLoop}
+          allowRuns={allowLoopRuns}
+          onAllowRunsChange={setAllowLoopRuns}
+        />
+      )}
+
       {/* KPIs */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <div className={`grid grid-cols-2 gap-3 ${earned ? "md:grid-cols-6" : "md:grid-cols-4"}`}>
         <KPI label="Activities" value={kpis.total} icon={Filter} />
         <KPI label="Critical (TF=0)" value={kpis.crit} icon={AlertTriangle} tone="ring-1 ring-red-200/60" />
         <KPI label={`Near-critical (<= ${threshold}d)`} value={kpis.near} icon={AlertTriangle} tone="ring-1 ring-amber-200/60" />
         <KPI label="Milestones" value={kpis.ms} icon={CalendarDays} />
+        {earned && (
+          <>
+            <KPI
+              label="SPI"
+              value={formatEvIndex(earned.spi)}
+              icon={TrendingUp}
+              tone={Number.isFinite(earned.spi) ? (earned.spi < 1 ? "ring-1 ring-red-200/60" : "ring-1 ring-emerald-200/60") : ""}
+            />
+            <KPI
+              label="CPI"
+              value={formatEvIndex(earned.cpi)}
+              icon={Gauge}
+              tone={Number.isFinite(earned.cpi) ? (earned.cpi < 1 ? "ring-1 ring-red-200/60" : "ring-1 ring-emerald-200/60") : ""}
+            />
+          </>
+        )}
       </div>
 
       {/* Controls */}
@@ -1546,6 +4988,10 @@ export default function Page() {
               <TabsTrigger className="flex-1 min-w-[90px] justify-center" value="near">Near</TabsTrigger>
               <TabsTrigger className="flex-1 min-w-[90px] justify-center" value="non">Non</TabsTrigger>
               <TabsTrigger className="flex-1 min-w-[90px] justify-center" value="milestones">Milestones</TabsTrigger>
+              <TabsTrigger className="flex-1 min-w-[90px] justify-center" value="slipped" title="Finish later than baseline">Slipped</TabsTrigger>
+              {updateLog && (
+                <TabsTrigger className="flex-1 min-w-[90px] justify-center" value="changed" title="Changed since the previous update">Changed</TabsTrigger>
+              )}
             </TabsList>
           </Tabs>
           <div className="flex items-center gap-2">
@@ -1559,6 +5005,8 @@ export default function Page() {
                 <SelectItem value="ef">Finish Date</SelectItem>
                 <SelectItem value="none">None</SelectItem>
                 <SelectItem value="pct">Percent complete</SelectItem>
+                <SelectItem value="sv">Start variance</SelectItem>
+                <SelectItem value="fv">Finish variance</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -1573,6 +5021,8 @@ export default function Page() {
                 <SelectItem value="es">Start Date</SelectItem>
                 <SelectItem value="ef">Finish Date</SelectItem>
                 <SelectItem value="pct">Percent complete</SelectItem>
+                <SelectItem value="sv">Start variance</SelectItem>
+                <SelectItem value="fv">Finish variance</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -1580,6 +5030,14 @@ export default function Page() {
             <div className="text-xs text-muted-foreground w-24">Logic links</div>
             <Switch checked={showLinks} onCheckedChange={setShowLinks} />
           </div>
+          <div className="flex items-center gap-3">
+            <div className="text-xs text-muted-foreground w-24">Baseline bars</div>
+            <Switch checked={showBaseline} onCheckedChange={setShowBaseline} />
+          </div>
+          <div className="w-full">
+            <div className="text-xs text-muted-foreground mb-1">Variance threshold: {varianceThreshold}d</div>
+            <Slider value={[varianceThreshold]} onValueChange={(v)=>setVarianceThreshold(Number(v[0]))} min={0} max={30} step={1} className="px-2" />
+          </div>
           <div className="flex items-center gap-2">
             <div className="text-xs text-muted-foreground w-24">WBS Level</div>
             <Select value={wbsFilter} onValueChange={setWbsFilter}>
@@ -1592,6 +5050,25 @@ export default function Page() {
               </SelectContent>
             </Select>
           </div>
+          {wbsTree.hasTree && (
+            <div className="flex items-center gap-2">
+              <div className="text-xs text-muted-foreground w-24">Outline</div>
+              <Select value="" onValueChange={(v) => setCollapsedWbs(collapseToLevel(wbsTree, Number(v)))}>
+                <SelectTrigger className="rounded-xl"><SelectValue placeholder="Expand to level…" /></SelectTrigger>
+                <SelectContent>
+                  {wbsTree.levels.map((lv) => (
+                    <SelectItem key={lv} value={String(lv)}>Level {lv}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" className="rounded-xl" onClick={() => setCollapsedWbs(new Set())}>
+                Expand all
+              </Button>
+              <Button size="sm" variant="outline" className="rounded-xl" onClick={() => setCollapsedWbs(collapseToLevel(wbsTree, null))}>
+                Collapse all
+              </Button>
+            </div>
+          )}
           <div className="flex items-center gap-3">
             <Timer className="w-4 h-4 text-muted-foreground"/>
             <div className="w-full">
@@ -1608,6 +5085,201 @@ export default function Page() {
         </CardContent>
       </Card>
 
+      {/* Working calendars */}
+      <Card className="rounded-2xl">
+        <CardContent className="p-4 space-y-4">
+          <button
+            type="button"
+            onClick={() => setCalendarsOpen((prev) => !prev)}
+            className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+            aria-expanded={calendarsOpen}
+            aria-controls="calendars-panel"
+          >
+            <div>
+              <div className="text-sm font-semibold">Calendars</div>
+              <p className="text-xs text-muted-foreground">
+                Project: {resolveCalendar(calendars).name} · {calendars.list.length} calendar{calendars.list.length === 1 ? "" : "s"}. Used by scenario runs for durations, lags and float.
+              </p>
+            </div>
+            <ChevronRight
+              className={`w-4 h-4 text-muted-foreground transition-transform ${calendarsOpen ? "rotate-90" : ""}`}
+            />
+          </button>
+          {calendarsOpen && (
+            <div id="calendars-panel">
+              <CalendarEditor
+                calendars={calendars}
+                onChange={(next) => {
+                  setCalendars(next);
+                  const shifted = applyShiftHours(rows, rels, next);
+                  if (shifted.rows !== rows) setRows(shifted.rows);
+                  if (shifted.rels !== rels) setRels(shifted.rels);
+                  if (simRows) setScenarioStatus("Calendars changed. Re-run the scenario to apply them.");
+                }}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Progress / data date */}
+      <Card className="rounded-2xl">
+        <CardContent className="p-4 space-y-4">
+          <button
+            type="button"
+            onClick={() => setProgressOpen((prev) => !prev)}
+            className="flex w-full items-center justify-between rounded-xl px-1 py-1 text-left"
+            aria-expanded={progressOpen}
+            aria-controls="progress-panel"
+          >
+            <div>
+              <div className="text-sm font-semibold">Progress</div>
+              <p className="text-xs text-muted-foreground">
+                Data date: {dataDate || "not set"} · {progressCounts.complete} complete · {progressCounts.active} in progress. Actuals stay fixed in scenario runs.
+              </p>
+            </div>
+            <ChevronRight
+              className={`w-4 h-4 text-muted-foreground transition-transform ${progressOpen ? "rotate-90" : ""}`}
+            />
+          </button>
+          {progressOpen && (
+            <div id="progress-panel" className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Data date</div>
+                <Input
+                  type="date"
+                  value={dataDate}
+                  onChange={(e) => {
+                    setDataDate(e.target.value);
+                    if (simRows) setScenarioStatus("Data date changed. Re-run the scenario to apply it.");
+                  }}
+                  className="rounded-xl"
+                />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Out-of-sequence progress</div>
+                <Select value={progressMode} onValueChange={setProgressMode}>
+                  <SelectTrigger className="rounded-xl"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="retained">Retained logic</SelectItem>
+                    <SelectItem value="override">Progress override</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={showDataDateLine} onCheckedChange={setShowDataDateLine} disabled={!dataDate} />
+                <span className="text-sm">Data date line instead of Today</span>
+              </div>
+              <Button className="rounded-full" onClick={rescheduleFromDataDate} disabled={isSimulating}>
+                <Play className="w-4 h-4 mr-1" />
+                Reschedule from data date
+              </Button>
+              <p className="md:col-span-4 text-xs text-muted-foreground">
+                Remaining work is pushed past the data date. Retained logic keeps in-progress work waiting for unfinished
+                predecessors; progress override lets it continue at the data date.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stored baselines */}
+      <BaselinesPanel
+        baselines={baselines}
+        loadedFinish={loadedFinish}
+        comparisonId={comparisonBaselineId}
+        onCompare={setComparisonBaselineId}
+        coverageOf={(b) => baselineCoverage(b, rows)}
+        captureLabel={simRows ? "Capture scenario" : "Capture current"}
+        onCapture={captureCurrentBaseline}
+        onImport={importBaselineWorkbook}
+        onDelete={deleteBaseline}
+        status={baselineStatus}
+      />
+
+      {/* Previous update comparison */}
+      <UpdateComparisonPanel
+        log={updateLog}
+        previousName={previousUpdate?.fileName}
+        onLoad={loadPreviousUpdate}
+        onClear={clearPreviousUpdate}
+        group={changeGroup}
+        onGroupChange={setChangeGroup}
+        onShowInGantt={showChangedRows}
+        onShowRow={(id) => {
+          const row = rowById.get(id);
+          if (row) showDiagnosticRow({ rowIndex: row.__rowIndex });
+        }}
+        onDownload={downloadChangeLog}
+        status={updateStatus}
+      />
+
+      {/* DCMA 14-point assessment */}
+      <HealthCheckPanel
+        result={healthCheck}
+        onRun={runHealthCheck}
+        onShowRow={(o) => showDiagnosticRow({ rowIndex: o.rowIndex })}
+        note={[
+          !dataDate && "Set a data date to assess invalid dates, missed tasks and BEI.",
+          logicLoops.length > 0 && "Logic loops skip the critical path test.",
+          comparisonBaseline ? `Baseline: ${comparisonBaseline.name}.` : "Baseline: dates as loaded.",
+        ]
+          .filter(Boolean)
+          .join(" ")}
+      />
+
+      {/* Resource loading and levelling */}
+      <ResourcesPanel
+        loading={resourceLoad}
+        capacity={resourceCapacity}
+        onCapacityChange={(name, units) =>
+          Number.isFinite(units) && units > 0 && setResourceCapacity((prev) => ({ ...prev, [name]: units }))
+        }
+        focus={resourceFocus}
+        onFocusChange={setResourceFocus}
+        showHistogram={showResourceHistogram}
+        onShowHistogramChange={setShowResourceHistogram}
+        onLevel={levelResources}
+        status={resourceStatus}
+      />
+
+      {/* Earned value */}
+      <EarnedValuePanel
+        result={earned}
+        measures={evMeasures}
+        measure={evMeasureKey}
+        onMeasureChange={setEvMeasure}
+        period={evPeriod}
+        onPeriodChange={setEvPeriod}
+        note={[
+          !dataDate && "No data date set: measured at today.",
+          evMeasureKey === "duration" && "No budgets loaded: weighted by duration.",
+          !Number.isFinite(earned?.ac) && "No actual cost/hours: CPI, CV, EAC and TCPI need them.",
+          comparisonBaseline ? `Planned against ${comparisonBaseline.name}.` : "Planned against the dates as loaded.",
+        ]
+          .filter(Boolean)
+          .join(" ")}
+      />
+
+      {/* Full-chart SVG / PDF */}
+      <PrintExportPanel rowCount={ganttRows.length} onDownloadSVG={exportGanttSVG} onDownloadPDF={exportGanttPDF} />
+
+      {/* Schedule risk (QSRA) */}
+      <RiskAnalysisPanel
+        options={activityOptions}
+        rowById={rowById}
+        ranges={riskRanges}
+        onRangesChange={(next) => {
+          setRiskRanges(next);
+          if (riskSummary) setRiskStatus("Ranges changed. Re-run the risk analysis to update the results.");
+        }}
+        onRun={runRisk}
+        onCancel={() => engineRef.current?.cancel()}
+        progress={riskProgress}
+        status={riskStatus}
+        summary={riskSummary}
+      />
+
       {/* Scenario lab */}
       <Card className="rounded-2xl border-dashed">
         <CardContent className="p-4 space-y-4">
@@ -1623,7 +5295,7 @@ export default function Page() {
             >
               <div>
                 <div className="text-sm font-semibold">Scenario lab</div>
-                <p className="text-xs text-muted-foreground">Chain multiple activity adjustments, then re-run CPM. Save up to 10 scenarios.</p>
+                <p className="text-xs text-muted-foreground">Chain activity adjustments or insert a fragnet of new activities and links, then re-run CPM and compare key milestones. Save up to 10 scenarios.</p>
               </div>
               <div className="flex flex-wrap items-center gap-2">
                 <Button
@@ -1737,6 +5409,9 @@ export default function Page() {
                   <PlusCircle className="w-4 h-4 mr-2" />
                   Add linked activity
                 </Button>
+                <div className="border-t pt-3">
+                  <FragnetEditor fragnet={draftFragnet} onChange={setDraftFragnet} activityOptions={activityOptions} calendars={calendars} />
+                </div>
               </div>
               <div className="grid gap-3 md:grid-cols-3">
                 <div className="space-y-1 md:col-span-2">
@@ -1770,6 +5445,15 @@ export default function Page() {
                 </div>
               </div>
               {scenarioStatus && <div className="text-xs text-muted-foreground">{scenarioStatus}</div>}
+              <div className="border-t pt-3">
+                <TimeImpactReport
+                  options={milestoneOptions}
+                  selected={reportMilestones}
+                  onSelectedChange={setReportMilestones}
+                  report={impactReport}
+                  onPrint={printImpactSummary}
+                />
+              </div>
               <div className="border-t pt-3 space-y-2">
                 <div className="flex items-center justify-between">
                   <div className="text-xs text-muted-foreground">
@@ -1796,6 +5480,12 @@ export default function Page() {
                                 #{idx + 1}: {impact.activityId} {impact.deltaDays >= 0 ? `+${impact.deltaDays}d` : `${impact.deltaDays}d`}
                               </Badge>
                             ))}
+                            {fragnetSize(scenario.fragnet) > 0 && (
+                              <Badge variant="outline" className="rounded-full text-[11px]">
+                                Fragnet: {scenario.fragnet.activities.length} new, {scenario.fragnet.links.length} link change
+                                {scenario.fragnet.links.length === 1 ? "" : "s"}
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -1828,12 +5518,32 @@ export default function Page() {
         </CardContent>
       </Card>
 
+      {/* Scenario comparison */}
+      <ScenarioComparisonPanel
+        scenarios={scenarioLibrary}
+        selected={compareIds}
+        onSelectedChange={setCompareIds}
+        onCompare={runComparison}
+        comparison={comparison}
+        running={comparing}
+        showGhosts={showComparisonGhosts}
+        onShowGhostsChange={setShowComparisonGhosts}
+        onShowRow={(id) => {
+          const row = rowById.get(id);
+          if (row) showDiagnosticRow({ rowIndex: row.__rowIndex });
+        }}
+        onDownload={downloadComparison}
+        status={comparisonStatus}
+      />
+
       {/* Legends */}
       <div className="flex flex-nowrap items-center gap-4 overflow-x-auto">
         <LegendItem color="#ef4444" label="Critical (TF=0)"/>
         <LegendItem color="#f59e0b" label={`Near-critical (TF <= ${threshold}d)`}/>
         <LegendItem color="#3b82f6" label="Non-critical"/>
         <LegendItem color="#111827" label="Milestone"/>
+        <LegendItem color="#be185d" label="Constraint"/>
+        <LegendItem color="#64748b" label="Baseline"/>
         <LegendItem color="#7c3aed" label="FS link"/>
         <LegendItem color="#10b981" label="SS link"/>
         <LegendItem color="#06b6d4" label="FF link"/>
@@ -1843,11 +5553,54 @@ export default function Page() {
 
       {/* Main viz export container */}
       <div ref={exportRef} className="space-y-4">
-        <Gantt data={filtered} threshold={threshold} leftLabel={leftLabel} rightLabel={rightLabel} showLinks={showLinks} rels={rels} zoom={zoom} labelWidth={labelColumnWidth} />
+        <Gantt
+          data={ganttRows}
+          threshold={threshold}
+          leftLabel={leftLabel}
+          rightLabel={rightLabel}
+          showLinks={showLinks}
+          rels={ganttRels}
+          tree={{ info: wbsView.info, hasTree: wbsTree.hasTree, onToggle: toggleWbsRow }}
+          baseline={
+            showBaseline && baselineActive
+              ? {
+                  variance: baselineVariance,
+                  threshold: varianceThreshold,
+                  datesOf: (r) => baselineDatesFor(r, comparisonBaseline),
+                  finishInclusive: !simRows,
+                }
+              : null
+          }
+          resources={ganttResources}
+          ghosts={ganttGhosts}
+          zoom={zoom}
+          labelWidth={labelColumnWidth}
+          focusRow={focusRow}
+          trace={ganttTrace}
+          dataDate={showDataDateLine ? dataDate : null}
+          computing={
+            isSimulating
+              ? { label: "Computing schedule", fraction: computeFraction }
+              : riskProgress
+              ? { label: `Risk analysis ${riskProgress.done}/${riskProgress.total}`, fraction: riskProgress.done / Math.max(1, riskProgress.total) }
+              : null
+          }
+          onCancelCompute={() => engineRef.current?.cancel()}
+          onRowClick={(t) => t.ActivityID != null && !t.IsSummary && setDrivingTarget(normalizeActivityId(t.ActivityID))}
+        />
         <FloatChart data={filtered} />
       </div>
 
-      <p className="text-xs text-muted-foreground">Tip: toggle links and hover a task to highlight its connected chain. Export PNG for reporting.</p>
+      <DrivingPathPanel
+        path={drivingPath}
+        targetId={drivingTarget}
+        options={activityOptions}
+        onTargetChange={setDrivingTarget}
+        onShowRow={(step) => showDiagnosticRow({ rowIndex: step.__rowIndex })}
+        onDownload={downloadDrivingPathCSV}
+      />
+
+      <p className="text-xs text-muted-foreground">Tip: toggle links and hover a task to highlight its connected chain, or click it to trace its driving path. Export PNG for reporting.</p>
     </div>
   );
 }
@@ -0,0 +1,151 @@
+import { DAY_MS, dayMs } from "@/lib/calendars";
+import { normalizeActivityId } from "@/lib/cpm";
+import type { ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Baseline comparison
+ * - Baseline dates per row (the __baselineES/__baselineEF anchors captured on load)
+ * - Named baselines captured from the current/scenario schedule or imported from another workbook, matched by ActivityID
+ * - Start/finish variance in calendar days, positive = later than baseline
+ * - Variance labels and slip tone against a threshold
+ */
+
+// ms; finish inclusive
+export interface BaselineDates {
+  start: number;
+  finish: number;
+}
+
+export interface Baseline {
+  id: string;
+  name: string;
+  source: string;
+  createdAt: string;
+  // Latest finish among the non-summary rows, ms
+  finish: number | null;
+  count: number;
+  dates: Record<string, BaselineDates>;
+}
+
+const isMilestone = (row: ScheduleRow) => row.Milestone === true || Number(row.DurDays) === 0;
+
+// Imported finishes name the last working day; engine finishes are exclusive
+const exclusiveFinish = (row: ScheduleRow, start: number, finish: number, inclusive: boolean) =>
+  inclusive && !isMilestone(row) && Number.isFinite(start) && finish >= start ? finish + DAY_MS : finish;
+
+// Id of the implicit baseline: the dates as the schedule was loaded
+export const UPLOAD_BASELINE_ID = "upload";
+
+export function readBaselineDates(row: ScheduleRow): BaselineDates | null {
+  const start = dayMs(row.__baselineES);
+  const finish = dayMs(row.__baselineEF);
+  if (!Number.isFinite(start) && !Number.isFinite(finish)) return null;
+  return { start, finish: Number.isFinite(finish) ? finish : start };
+}
+
+/**
+ * End of a baseline bar on the same scale as the row's own bar: stored finishes are inclusive,
+ * so beside engine output (exclusive EF) non-milestones run to the next day
+ * @param finishInclusive whether the row's own bar ends at an inclusive (imported) finish
+ */
+export function baselineBarFinish(row: ScheduleRow, baseline: BaselineDates, finishInclusive = false): number {
+  return finishInclusive ? baseline.finish : exclusiveFinish(row, baseline.start, baseline.finish, true);
+}
+
+/**
+ * @param row current schedule row (ES/EF)
+ * @param baseline { start, finish } in ms, finish inclusive as imported
+ * @param finishInclusive whether the row's EF is inclusive (imported) rather than engine output
+ * @returns { start, finish } variance in days, NaN where a date is missing
+ */
+export function scheduleVariance(
+  row: ScheduleRow,
+  baseline: BaselineDates | null,
+  finishInclusive = false
+): { start: number; finish: number } | null {
+  if (!baseline) return null;
+  const es = dayMs(row.ES);
+  const ef = dayMs(row.EF);
+  const baseFinish = exclusiveFinish(row, baseline.start, baseline.finish, true);
+  const finish = exclusiveFinish(row, es, ef, finishInclusive);
+  return {
+    start: Math.round((es - baseline.start) / DAY_MS),
+    finish: Math.round((finish - baseFinish) / DAY_MS),
+  };
+}
+
+export function formatVariance(days: number): string {
+  if (!Number.isFinite(days)) return "";
+  return `${days > 0 ? "+" : ""}${days}d`;
+}
+
+// "slip" beyond the threshold late, "gain" beyond it early
+export function varianceTone(days: number, threshold: number): "slip" | "gain" | "" {
+  if (!Number.isFinite(days)) return "";
+  if (days > threshold) return "slip";
+  if (days < -threshold) return "gain";
+  return "";
+}
+
+/**
+ * Snapshot of a schedule's dates, keyed by ActivityID. Finishes are stored inclusive (last working day).
+ * @param finishInclusive whether the rows' EF is inclusive (imported) rather than engine output
+ */
+export function captureBaseline({
+  id,
+  name,
+  rows,
+  source,
+  finishInclusive = false,
+  createdAt = new Date().toISOString(),
+}: {
+  id: string;
+  name: string;
+  rows: ScheduleRow[];
+  source: string;
+  finishInclusive?: boolean;
+  createdAt?: string;
+}): Baseline {
+  const dates: Record<string, BaselineDates> = {};
+  let finish = -Infinity;
+  rows.forEach((row) => {
+    const activityId = normalizeActivityId(row.ActivityID);
+    if (activityId === undefined) return;
+    const start = dayMs(row.ES);
+    let end = dayMs(row.EF);
+    if (!Number.isFinite(start) && !Number.isFinite(end)) return;
+    if (!finishInclusive && !isMilestone(row) && end > start) end -= DAY_MS;
+    if (!Number.isFinite(end)) end = start;
+    dates[activityId] = { start: Number.isFinite(start) ? start : end, finish: end };
+    if (!row.IsSummary) finish = Math.max(finish, end);
+  });
+  return {
+    id,
+    name,
+    source,
+    createdAt,
+    finish: Number.isFinite(finish) ? finish : null,
+    count: Object.keys(dates).length,
+    dates,
+  };
+}
+
+// Baseline dates for a row: the named baseline's entry, or the load-time anchors
+export function baselineDatesFor(row: ScheduleRow, baseline: Baseline | null | undefined): BaselineDates | null {
+  if (!baseline) return readBaselineDates(row);
+  const activityId = normalizeActivityId(row.ActivityID);
+  return activityId === undefined ? null : baseline.dates[activityId] ?? null;
+}
+
+// How many of the schedule's activities the baseline covers
+export function baselineCoverage(baseline: Baseline, rows: ScheduleRow[]): { matched: number; total: number } {
+  let matched = 0;
+  let total = 0;
+  rows.forEach((row) => {
+    const activityId = normalizeActivityId(row.ActivityID);
+    if (activityId === undefined) return;
+    total++;
+    if (baseline.dates[activityId]) matched++;
+  });
+  return { matched, total };
+}
@@ -0,0 +1,304 @@
+/**
+ * Working calendars for the CPM engine
+ * - Calendar = work-week pattern (Sun..Sat), holiday exception dates, optional shift hours
+ * - Working-time arithmetic on UTC day timestamps, in (fractional) working days
+ * - Hour-based durations and lags converted to working days with the calendar's shift hours
+ * - Ingestion from a "Calendars" sheet
+ */
+
+import type { Calendar, CalendarSet, Relationship, ScheduleRow, SheetRow } from "@/lib/schedule-types";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Timestamp of an ISO date / Date / ms value; NaN when empty or unreadable
+export function dayMs(value: unknown): number {
+  if (value === undefined || value === null || value === "") return NaN;
+  const t = typeof value === "number" ? value : new Date(value as string | Date).getTime();
+  return Number.isFinite(t) ? t : NaN;
+}
+
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function createCalendar(patch: Partial<Calendar> = {}): Calendar {
+  return {
+    id: "standard",
+    name: "Standard 5-day",
+    workWeek: [false, true, true, true, true, true, false],
+    holidays: [],
+    hoursPerDay: DEFAULT_HOURS_PER_DAY,
+    ...patch,
+  };
+}
+
+// Every day is a working day: plain calendar-day arithmetic
+export const CALENDAR_DAYS = createCalendar({
+  id: "calendar-days",
+  name: "7-day (calendar days)",
+  workWeek: [true, true, true, true, true, true, true],
+});
+
+export function createDefaultCalendars(): CalendarSet {
+  const standard = createCalendar();
+  return { projectId: standard.id, list: [standard, { ...CALENDAR_DAYS }] };
+}
+
+// Holidays keyed by day number (days since 1970-01-01), cached per calendar object
+const holidaySets = new WeakMap<Calendar, Set<number>>();
+
+function holidaySet(cal: Calendar): Set<number> {
+  let set = holidaySets.get(cal);
+  if (!set) {
+    set = new Set(
+      (cal.holidays || [])
+        .map((iso) => Math.floor(Date.parse(iso) / DAY_MS))
+        .filter(Number.isFinite)
+    );
+    holidaySets.set(cal, set);
+  }
+  return set;
+}
+
+function floorDay(ms: number) {
+  return Math.floor(ms / DAY_MS) * DAY_MS;
+}
+
+function hasWorkDays(cal: Calendar | null | undefined) {
+  return Array.isArray(cal?.workWeek) && cal.workWeek.some(Boolean);
+}
+
+export function isWorkDay(cal: Calendar, ms: number): boolean {
+  if (!hasWorkDays(cal)) return true;
+  const dayNum = Math.floor(ms / DAY_MS);
+  // 1970-01-01 was a Thursday
+  if (!cal.workWeek[(((dayNum + 4) % 7) + 7) % 7]) return false;
+  return !holidaySet(cal).has(dayNum);
+}
+
+// Move a start forward onto working time
+export function nextWorkTime(cal: Calendar, ms: number): number {
+  if (!Number.isFinite(ms)) return ms;
+  let t = ms;
+  for (let guard = 0; guard < 3660 && !isWorkDay(cal, t); guard++) {
+    t = floorDay(t) + DAY_MS;
+  }
+  return t;
+}
+
+// Move a finish back onto the end of working time
+export function prevWorkTime(cal: Calendar, ms: number): number {
+  if (!Number.isFinite(ms)) return ms;
+  let t = ms;
+  for (let guard = 0; guard < 3660; guard++) {
+    const day = t % DAY_MS === 0 ? t - DAY_MS : floorDay(t);
+    if (isWorkDay(cal, day)) break;
+    t = day;
+  }
+  return t;
+}
+
+/**
+ * Add (or with negative days, subtract) working days.
+ * Finishes are exclusive: 5 days from Friday 00:00 on a 5-day week ends the following Friday 00:00.
+ */
+export function addWorkDays(cal: Calendar, ms: number, days: number): number {
+  if (!Number.isFinite(ms)) return ms;
+  const n = Number(days) || 0;
+  if (n < 0) return subtractWorkDays(cal, ms, -n);
+  if (n === 0) return ms;
+  let t = nextWorkTime(cal, ms);
+  let remaining = n;
+  while (remaining > 1e-9) {
+    const dayStart = floorDay(t);
+    const dayEnd = dayStart + DAY_MS;
+    if (!isWorkDay(cal, dayStart)) {
+      t = dayEnd;
+      continue;
+    }
+    const avail = (dayEnd - t) / DAY_MS;
+    if (remaining <= avail) {
+      t += remaining * DAY_MS;
+      remaining = 0;
+    } else {
+      remaining -= avail;
+      t = dayEnd;
+    }
+  }
+  return t;
+}
+
+export function subtractWorkDays(cal: Calendar, ms: number, days: number): number {
+  if (!Number.isFinite(ms)) return ms;
+  const n = Number(days) || 0;
+  if (n < 0) return addWorkDays(cal, ms, -n);
+  if (n === 0) return ms;
+  let t = prevWorkTime(cal, ms);
+  let remaining = n;
+  while (remaining > 1e-9) {
+    const dayStart = t % DAY_MS === 0 ? t - DAY_MS : floorDay(t);
+    if (!isWorkDay(cal, dayStart)) {
+      t = dayStart;
+      continue;
+    }
+    const avail = (t - dayStart) / DAY_MS;
+    if (remaining <= avail) {
+      t -= remaining * DAY_MS;
+      remaining = 0;
+    } else {
+      remaining -= avail;
+      t = dayStart;
+    }
+  }
+  return t;
+}
+
+// Signed working days from a to b
+export function workDaysBetween(cal: Calendar, a: number, b: number): number {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return NaN;
+  if (b < a) return -workDaysBetween(cal, b, a);
+  let total = 0;
+  let t = a;
+  while (t < b) {
+    const dayEnd = floorDay(t) + DAY_MS;
+    const segEnd = Math.min(dayEnd, b);
+    if (isWorkDay(cal, t)) total += (segEnd - t) / DAY_MS;
+    t = segEnd;
+  }
+  return Math.round(total * 1000) / 1000;
+}
+
+// Day timestamps (00:00 UTC) of the working days touched by [start, finish); finish exclusive
+export function workDayList(cal: Calendar, start: number, finish: number): number[] {
+  const days: number[] = [];
+  if (!Number.isFinite(start) || !Number.isFinite(finish)) return days;
+  for (let day = floorDay(start); day < finish; day += DAY_MS) {
+    if (isWorkDay(cal, day)) days.push(day);
+  }
+  return days;
+}
+
+const DAY_NAME_INDEX: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+// "Mon-Fri", "Mon,Tue,Thu", "0111110" (Sun..Sat), "5" (five-day), "6", "7"
+export function parseWorkWeek(value: unknown): boolean[] | null {
+  if (value === undefined || value === null || value === "") return null;
+  const s = String(value).trim().toLowerCase();
+  if (/^[01]{7}$/.test(s)) return s.split("").map((c) => c === "1");
+  if (/^[5-7]$/.test(s)) {
+    const n = Number(s);
+    return [n === 7, true, true, true, true, true, n >= 6];
+  }
+  const week = [false, false, false, false, false, false, false];
+  let any = false;
+  for (const part of s.split(/[,;\s]+/).filter(Boolean)) {
+    const range = part.split("-").map((p) => DAY_NAME_INDEX[p.slice(0, 3)]);
+    if (range.some((d) => d === undefined)) continue;
+    if (range.length === 2) {
+      for (let d = range[0], guard = 0; guard < 7; d = (d + 1) % 7, guard++) {
+        week[d] = true;
+        if (d === range[1]) break;
+      }
+    } else {
+      week[range[0]] = true;
+    }
+    any = true;
+  }
+  return any ? week : null;
+}
+
+function calendarDate(value: unknown) {
+  if (value === undefined || value === null || value === "") return undefined;
+  // Excel serial date numbers
+  if (typeof value === "number") {
+    const ms = Math.round((value - 25569) * DAY_MS);
+    return Number.isFinite(ms) ? new Date(ms).toISOString().slice(0, 10) : undefined;
+  }
+  const t = value instanceof Date ? value : new Date(value as string);
+  return isNaN(t.getTime()) ? undefined : t.toISOString().slice(0, 10);
+}
+
+/**
+ * Calendars sheet: one row per calendar (Holidays as a list) or one row per holiday.
+ * Columns: CalendarID/Calendar, Name, WorkDays/Work Week, HoursPerDay/Shift Hours,
+ * Holidays/Holiday/Exception Date, Default/Project Default.
+ */
+export function readCalendarRows(raw: SheetRow[]): CalendarSet | null {
+  const byId = new Map<string, Calendar>();
+  let projectId: string | null = null;
+  for (const r of raw) {
+    const id = String(r.CalendarID ?? r["Calendar ID"] ?? r.Calendar ?? r.Name ?? "").trim();
+    if (!id) continue;
+    const cal = byId.get(id) ?? createCalendar({ id, name: String(r.Name ?? r["Calendar Name"] ?? id), holidays: [] });
+    const week = parseWorkWeek(r.WorkDays ?? r["Work Days"] ?? r.WorkWeek ?? r["Work Week"]);
+    if (week) cal.workWeek = week;
+    const hours = Number(r.HoursPerDay ?? r["Hours Per Day"] ?? r["Shift Hours"] ?? r.Hours);
+    if (Number.isFinite(hours) && hours > 0) cal.hoursPerDay = hours;
+    const holidayCell = r.Holidays ?? r.Holiday ?? r["Holiday Date"] ?? r["Exception Date"] ?? r.Exceptions;
+    const holidayValues =
+      typeof holidayCell === "string" ? holidayCell.split(/[,;]+/).map((v) => v.trim()) : [holidayCell];
+    holidayValues.forEach((v) => {
+      const iso = calendarDate(v);
+      if (iso && !cal.holidays.includes(iso)) cal.holidays.push(iso);
+    });
+    const def = String(r.Default ?? r["Project Default"] ?? r.IsDefault ?? "").trim().toLowerCase();
+    if (["true", "yes", "y", "1"].includes(def)) projectId = id;
+    byId.set(id, cal);
+  }
+  const list = Array.from(byId.values()).map((cal) => ({ ...cal, holidays: cal.holidays.sort() }));
+  if (!list.length) return null;
+  return { projectId: projectId ?? list[0].id, list };
+}
+
+export function resolveCalendar(calendars: CalendarSet | null | undefined, calendarId: unknown): Calendar {
+  if (!calendars?.list?.length) return CALENDAR_DAYS;
+  const id = calendarId !== undefined && calendarId !== null && calendarId !== "" ? String(calendarId) : null;
+  return (
+    (id && calendars.list.find((c) => c.id === id)) ||
+    calendars.list.find((c) => c.id === calendars.projectId) ||
+    calendars.list[0]
+  );
+}
+
+// Hours in a duration or lag written with an hour unit ("16h", "4 hrs", "2.5 hours"); NaN otherwise
+export function hourValue(value: unknown): number {
+  const m = typeof value === "string" ? value.trim().match(/^(-?\d+(?:\.\d+)?)\s*h(?:rs?|ours?)?$/i) : null;
+  return m ? Number(m[1]) : NaN;
+}
+
+export function hoursToWorkDays(hours: number, cal: Calendar | null | undefined): number {
+  const perDay = cal && Number(cal.hoursPerDay) > 0 ? Number(cal.hoursPerDay) : DEFAULT_HOURS_PER_DAY;
+  return Math.round((hours / perDay) * 100) / 100;
+}
+
+/**
+ * DurDays of rows with DurHours and Lag_d of links with LagHours, from the shift hours of the calendar
+ * each runs on (the activity's own; the successor's for lags, as in the CPM passes)
+ * @returns { rows, rels }, the same arrays when nothing is hour-based
+ */
+export function applyShiftHours<R extends ScheduleRow, E extends Relationship>(
+  rows: R[],
+  rels: E[],
+  calendars: CalendarSet | null | undefined
+): { rows: R[]; rels: E[] } {
+  const hourRows = rows.some((row) => Number.isFinite(row.DurHours));
+  const hourRels = rels.some((rel) => Number.isFinite(rel.LagHours));
+  if (!hourRows && !hourRels) return { rows, rels };
+  const calendarOf = new Map(rows.map((row) => [row.ActivityID, resolveCalendar(calendars, row.CalendarID)]));
+  return {
+    rows: hourRows
+      ? rows.map((row) =>
+          row.DurHours !== undefined && Number.isFinite(row.DurHours)
+            ? { ...row, DurDays: hoursToWorkDays(row.DurHours, calendarOf.get(row.ActivityID)) }
+            : row
+        )
+      : rows,
+    rels: hourRels
+      ? rels.map((rel) =>
+          rel.LagHours !== undefined && Number.isFinite(rel.LagHours)
+            ? { ...rel, Lag_d: hoursToWorkDays(rel.LagHours, calendarOf.get(rel.SuccID) ?? resolveCalendar(calendars, null)) }
+            : rel
+        )
+      : rels,
+  };
+}
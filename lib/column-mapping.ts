@@ -0,0 +1,176 @@
+import { hourValue } from "@/lib/calendars";
+import type { SheetRow } from "@/lib/schedule-types";
+
+/**
+ * Spreadsheet column mapping
+ * - Detects which sheet headers feed each schedule field (ActivityID, TaskName, ES, ...)
+ * - Copies mapped columns onto the canonical keys normalizeRow reads first
+ * - Remembers user-confirmed mappings per header signature in localStorage
+ */
+
+// Schedule field key -> the sheet header that feeds it
+export type ColumnMapping = Record<string, string>;
+
+export const MAPPING_FIELDS: { key: string; label: string; required?: boolean }[] = [
+  { key: "ActivityID", label: "Activity ID", required: true },
+  { key: "TaskName", label: "Task name", required: true },
+  { key: "ES", label: "Start (ES)", required: true },
+  { key: "EF", label: "Finish (EF)" },
+  { key: "Duration", label: "Duration" },
+  { key: "TotalFloat", label: "Total float" },
+  { key: "Predecessors", label: "Predecessors" },
+  { key: "WBS", label: "WBS / outline level" },
+  { key: "ActualStart", label: "Actual start" },
+  { key: "ActualFinish", label: "Actual finish" },
+  { key: "RemainingDuration", label: "Remaining duration" },
+  { key: "DurMin", label: "Optimistic duration" },
+  { key: "DurMax", label: "Pessimistic duration" },
+  { key: "BudgetCost", label: "Budgeted cost" },
+  { key: "BudgetHours", label: "Budgeted hours" },
+  { key: "ActualCost", label: "Actual cost" },
+  { key: "ActualHours", label: "Actual hours" },
+];
+
+// Header aliases, compared case- and whitespace-insensitively
+const FIELD_ALIASES: Record<string, string[]> = {
+  ActivityID: ["ActivityID", "Activity ID", "ID", "UniqueID", "Unique ID", "Act ID", "Task ID", "task_code"],
+  TaskName: ["TaskName", "Task Name", "Name", "Task", "Activity Name", "Description"],
+  ES: ["ES", "Start", "StartDate", "Start Date", "Start_Date", "Early Start", "Planned Start"],
+  EF: ["EF", "Finish", "FinishDate", "Finish Date", "Finish_Date", "Early Finish", "Planned Finish"],
+  Duration: ["DurDays", "Duration", "Original Duration", "Orig Dur"],
+  TotalFloat: ["TotalFloat_d", "TotalFloat", "TotalFloatDays", "Total Float", "Total Float (days)", "TotalFloat(d)", "Float"],
+  Predecessors: ["Predecessors", "Predecessor", "Links", "Dependencies"],
+  WBS: ["WBSLevel", "WBS Level", "OutlineLevel", "Outline Level", "WBS", "WBS Code"],
+  ActualStart: ["ActualStart", "Actual Start", "AS", "Act Start", "act_start_date"],
+  ActualFinish: ["ActualFinish", "Actual Finish", "AF", "Act Finish", "act_end_date"],
+  RemainingDuration: ["RemainingDuration", "Remaining Duration", "Rem Dur", "RemDur", "Remaining"],
+  DurMin: ["DurMin", "Optimistic", "Optimistic Duration", "Min Duration", "Minimum Duration", "Best Case"],
+  DurMax: ["DurMax", "Pessimistic", "Pessimistic Duration", "Max Duration", "Maximum Duration", "Worst Case"],
+  BudgetCost: ["BudgetCost", "Budgeted Cost", "Budget Cost", "Budget", "BAC", "Planned Cost"],
+  BudgetHours: ["BudgetHours", "Budgeted Hours", "Budget Hours", "Planned Hours", "Work", "Budgeted Units"],
+  ActualCost: ["ActualCost", "Actual Cost", "AC", "Actual Total Cost"],
+  ActualHours: ["ActualHours", "Actual Hours", "Actual Work", "Actual Units"],
+};
+
+const STORAGE_KEY = "gantt-viewer:column-mappings";
+
+const squash = (s: unknown) => String(s ?? "").toLowerCase().replace(/[\s_]+/g, "");
+
+export function readSheetHeaders(rows: SheetRow[]): string[] {
+  const seen = new Set<string>();
+  const headers: string[] = [];
+  rows.forEach((r) => {
+    Object.keys(r).forEach((k) => {
+      if (!seen.has(k) && !k.startsWith("__EMPTY")) {
+        seen.add(k);
+        headers.push(k);
+      }
+    });
+  });
+  return headers;
+}
+
+export function headerSignature(headers: string[]): string {
+  return headers.map(squash).sort().join("|");
+}
+
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of MAPPING_FIELDS) {
+    const aliases = FIELD_ALIASES[field.key].map(squash);
+    let hit = aliases
+      .map((a) => headers.find((h) => !used.has(h) && squash(h) === a))
+      .find(Boolean);
+    if (!hit && field.key === "TotalFloat") {
+      hit = headers.find((h) => !used.has(h) && /total/i.test(h) && /float/i.test(h));
+    }
+    if (!hit && field.key === "Predecessors") {
+      hit = headers.find((h) => !used.has(h) && /pred/i.test(h));
+    }
+    if (hit) {
+      mapping[field.key] = hit;
+      used.add(hit);
+    }
+  }
+  return mapping;
+}
+
+export function missingRequiredFields(mapping: ColumnMapping | null | undefined): string[] {
+  const missing = MAPPING_FIELDS.filter((f) => f.required && !mapping?.[f.key]).map((f) => f.key);
+  if (!mapping?.EF && !mapping?.Duration) missing.push("EF");
+  return missing;
+}
+
+function loadAllMappings(): Record<string, ColumnMapping> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}") || {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadSavedMapping(signature: string): ColumnMapping | null {
+  return loadAllMappings()[signature] ?? null;
+}
+
+export function saveMapping(signature: string, mapping: ColumnMapping): void {
+  if (typeof window === "undefined") return;
+  const all = loadAllMappings();
+  all[signature] = mapping;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // storage full or disabled: mapping just won't be remembered
+  }
+}
+
+// "1.2.3" style WBS codes -> outline level 3; plain numbers are taken as the level
+function wbsLevelFrom(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "number") return value;
+  const s = String(value).trim();
+  if (/^\d+$/.test(s)) return Number(s);
+  return s.split(/[.\-/]/).filter(Boolean).length;
+}
+
+export function applyColumnMapping(rows: SheetRow[], mapping: ColumnMapping | null | undefined): SheetRow[] {
+  if (!mapping) return rows;
+  const pick = (r: SheetRow, field: string) => (mapping[field] ? r[mapping[field]] : undefined);
+  return rows.map((r) => {
+    const out = { ...r };
+    const id = pick(r, "ActivityID");
+    if (id !== undefined && id !== "") out.ActivityID = id;
+    const name = pick(r, "TaskName");
+    if (name !== undefined) out.TaskName = name;
+    const es = pick(r, "ES");
+    if (es !== undefined && es !== "") out.ES = es;
+    const ef = pick(r, "EF");
+    if (ef !== undefined && ef !== "") out.EF = ef;
+    const dur = pick(r, "Duration");
+    if (dur !== undefined && dur !== "") {
+      const m = String(dur).match(/(-?[0-9]+(\.[0-9]+)?)/);
+      const hours = hourValue(dur);
+      if (Number.isFinite(hours)) out.DurHours = hours;
+      else out.DurDays = m ? Number(m[1]) : dur;
+    }
+    const tf = pick(r, "TotalFloat");
+    if (tf !== undefined && tf !== "") out.TotalFloat_d = tf;
+    const preds = pick(r, "Predecessors");
+    if (preds !== undefined) out.Predecessors = preds;
+    for (const field of ["ActualStart", "ActualFinish", "RemainingDuration", "DurMin", "DurMax", "BudgetCost", "BudgetHours", "ActualCost", "ActualHours"]) {
+      const v = pick(r, field);
+      if (v !== undefined && v !== "") out[field] = v;
+    }
+    if (mapping.WBS) {
+      const level = wbsLevelFrom(pick(r, "WBS"));
+      if (level !== undefined) out.WBSLevel = level;
+      const wbs = r[mapping.WBS];
+      if (typeof wbs === "string" && !/^\d+$/.test(wbs.trim())) {
+        out.WBS = wbs;
+      }
+    }
+    return out;
+  });
+}
@@ -0,0 +1,186 @@
+import { simulateScenario } from "@/lib/cpm";
+import { createRandom, runRiskAnalysis, scheduleFinish, summariseRisk } from "@/lib/risk";
+import type { ThreePointRange } from "@/lib/risk";
+import type {
+  ActivityImpact,
+  CalendarSet,
+  ProgressOptions,
+  Relationship,
+  ScenarioImpact,
+  ScheduleRow,
+} from "@/lib/schedule-types";
+
+/**
+ * Scheduling engine client
+ * - Runs CPM ("schedule") and Monte Carlo ("risk") jobs in a Web Worker, in-thread where workers are unavailable
+ * - One job at a time: starting a job cancels the one in flight
+ * - cancel(): risk runs stop between chunks and return partial results; a CPM run terminates the worker
+ * Jobs resolve to { result, cancelled, ... }; result is null when nothing was produced
+ */
+
+export type EngineTask = "schedule" | "risk";
+
+// "schedule" reads impact; "risk" reads the range, distribution and iteration fields
+export interface EnginePayload {
+  rows: ScheduleRow[];
+  rels: Relationship[];
+  calendars?: CalendarSet | null;
+  progressSettings?: ProgressOptions | null;
+  impact?: ScenarioImpact | null;
+  ranges?: Record<string, ThreePointRange>;
+  baseDurations?: Record<string, number>;
+  distribution?: string;
+  iterations?: number;
+  seed?: unknown;
+}
+
+export interface EngineProgress {
+  fraction: number;
+  done?: number;
+  total?: number;
+}
+
+export interface EngineReply {
+  // Scheduled rows for "schedule", the risk summary for "risk"
+  result: unknown;
+  cancelled: boolean;
+  iterations?: number;
+}
+
+type ProgressHandler = ((progress: EngineProgress) => void) | null;
+
+interface Job {
+  id: number;
+  task: EngineTask;
+  resolve: (reply: EngineReply) => void;
+  reject: (err: Error) => void;
+  onProgress: ProgressHandler;
+  inline: boolean;
+  cancelled: boolean;
+}
+
+const CANCELLED: EngineReply = { result: null, cancelled: true };
+
+async function runInline(
+  task: EngineTask,
+  payload: EnginePayload,
+  onProgress: ProgressHandler,
+  isCancelled: () => boolean
+): Promise<EngineReply> {
+  const { rows, rels, calendars, progressSettings } = payload;
+  if (task === "schedule") {
+    const result = simulateScenario(rows, rels, payload.impact, calendars, progressSettings, (fraction) =>
+      onProgress?.({ fraction })
+    );
+    return { result, cancelled: false };
+  }
+  const simulate = (impacts: ActivityImpact[]) => simulateScenario(rows, rels, { impacts }, calendars, progressSettings);
+  const deterministic = scheduleFinish(simulate([]));
+  const run = await runRiskAnalysis({
+    ...payload,
+    ranges: payload.ranges ?? {},
+    baseDurations: payload.baseDurations ?? {},
+    simulate,
+    random: createRandom(payload.seed),
+    onProgress: (done, total) => onProgress?.({ fraction: done / total, done, total }),
+    isCancelled,
+  });
+  const result = run.finishes.length ? { ...summariseRisk(run, rows, deterministic), deterministic } : null;
+  return { result, cancelled: run.cancelled, iterations: run.iterations };
+}
+
+export function createScheduleEngine() {
+  let worker: Worker | null = null;
+  let job: Job | null = null;
+  let nextId = 1;
+
+  const finish = (reply: EngineReply) => {
+    const current = job;
+    job = null;
+    current?.resolve(reply);
+  };
+
+  const ensureWorker = () => {
+    if (worker || typeof Worker === "undefined") return worker;
+    try {
+      worker = new Worker(new URL("./cpm.worker.ts", import.meta.url));
+    } catch {
+      return null;
+    }
+    worker.onmessage = (event: MessageEvent) => {
+      const msg = event.data || {};
+      if (!job || msg.id !== job.id) return;
+      if (msg.type === "progress") {
+        job.onProgress?.(msg);
+      } else if (msg.type === "error") {
+        const current = job;
+        job = null;
+        current?.reject(new Error(msg.message));
+      } else {
+        finish({ result: msg.result, cancelled: Boolean(msg.cancelled), iterations: msg.iterations });
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      worker?.terminate();
+      worker = null;
+      const current = job;
+      job = null;
+      current?.reject(new Error(event?.message || "Scheduling worker stopped unexpectedly."));
+    };
+    return worker;
+  };
+
+  const cancel = () => {
+    if (!job) return;
+    if (job.inline) {
+      job.cancelled = true;
+      return;
+    }
+    if (job.task === "risk") {
+      worker?.postMessage({ task: "cancel", payload: { id: job.id } });
+      return;
+    }
+    // A CPM run is one synchronous pass in the worker: stop the worker outright
+    worker?.terminate();
+    worker = null;
+    finish(CANCELLED);
+  };
+
+  const run = (task: EngineTask, payload: EnginePayload, onProgress: ProgressHandler = null): Promise<EngineReply> => {
+    if (job) {
+      const previous = job;
+      cancel();
+      // Superseded jobs settle now rather than when their partial result arrives
+      if (job === previous) finish(CANCELLED);
+    }
+    const id = nextId++;
+    const w = ensureWorker();
+    return new Promise<EngineReply>((resolve, reject) => {
+      job = { id, task, resolve, reject, onProgress, inline: !w, cancelled: false };
+      if (w) {
+        w.postMessage({ id, task, payload });
+        return;
+      }
+      const current = job;
+      runInline(task, payload, onProgress, () => current.cancelled).then(
+        (reply) => {
+          if (job === current) finish(reply);
+        },
+        (err) => {
+          if (job === current) {
+            job = null;
+            reject(err);
+          }
+        }
+      );
+    });
+  };
+
+  const dispose = () => {
+    if (job) finish(CANCELLED);
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { run, cancel, dispose, busy: () => Boolean(job) };
+}
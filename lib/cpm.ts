@@ -0,0 +1,770 @@
+import {
+  CALENDAR_DAYS,
+  DAY_MS,
+  addWorkDays,
+  nextWorkTime,
+  prevWorkTime,
+  resolveCalendar,
+  subtractWorkDays,
+  workDayList,
+  workDaysBetween,
+} from "@/lib/calendars";
+import type {
+  ActivityImpact,
+  Assignment,
+  Calendar,
+  CalendarSet,
+  ProgressOptions,
+  Relationship,
+  ScenarioImpact,
+  ScheduleRow,
+} from "@/lib/schedule-types";
+
+/**
+ * CPM scheduling engine
+ * - Forward/backward passes over FS/SS/FF/SF links with lags, calendars, constraints and progress
+ * - Summary rows roll up their children's dates
+ * - Optional resource levelling: over-allocated work is delayed within float, then beyond it in priority order
+ * - Shared by the page and the scheduling worker
+ */
+
+export function parseDate(d: unknown): Date | null {
+  if (!d) return null;
+  const t = new Date(d as string | number | Date);
+  return isNaN(t.getTime()) ? null : t;
+}
+
+// Activity identity is a trimmed string ("101", "A1010", "CIV-220"); blank IDs are undefined
+export function normalizeActivityId(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "number" && !Number.isFinite(value)) return undefined;
+  const s = String(value).trim();
+  return s ? s : undefined;
+}
+
+function getWbsLevel(row: ScheduleRow): number | null {
+  const raw =
+    row.WBSLevel ??
+    row["WBS Level"] ??
+    row.OutlineLevel ??
+    row["Outline Level"];
+  const level = Number(raw);
+  return Number.isFinite(level) ? level : null;
+}
+
+export interface SummaryMeta {
+  isSummary: boolean;
+  // Row indexes
+  children: number[];
+  parentIndex: number | null;
+  level: number | null;
+}
+
+export function buildSummaryMeta(rows: ScheduleRow[]): SummaryMeta[] {
+  const meta: SummaryMeta[] = rows.map(() => ({
+    isSummary: false,
+    children: [],
+    parentIndex: null,
+    level: null,
+  }));
+  const stack: { level: number; index: number }[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const level = getWbsLevel(rows[i]);
+    meta[i].level = level;
+    if (rows[i]?.IsSummaryExcel) {
+      meta[i].isSummary = true;
+    }
+    while (
+      stack.length &&
+      (level == null || level <= (stack[stack.length - 1]?.level ?? -Infinity))
+    ) {
+      stack.pop();
+    }
+    if (stack.length) {
+      const parent = stack[stack.length - 1];
+      meta[parent.index].children.push(i);
+      meta[parent.index].isSummary = true;
+      meta[i].parentIndex = parent.index;
+    }
+    if (level !== null && Number.isFinite(level)) {
+      stack.push({ level, index: i });
+    } else {
+      stack.length = 0;
+    }
+  }
+  return meta;
+}
+
+export function deriveDurationDays(row: ScheduleRow, cal: Calendar = CALENDAR_DAYS): number {
+  const dur = Number(row.DurDays);
+  if (Number.isFinite(dur) && dur >= 0) return dur;
+  const es = parseDate(row.ES);
+  const ef = parseDate(row.EF);
+  if (es && ef) return Math.max(0, Math.round(workDaysBetween(cal, es.getTime(), ef.getTime())));
+  return 0;
+}
+
+export function toISODate(ms: number | undefined): string | undefined {
+  if (!Number.isFinite(ms)) return undefined;
+  const d = new Date(ms as number);
+  if (isNaN(d.getTime())) return undefined;
+  return d.toISOString().slice(0, 10);
+}
+
+function normalizeRelType(type: unknown): string {
+  const t = String(type || "FS").toUpperCase();
+  return ["FS", "SS", "FF", "SF"].includes(t) ? t : "FS";
+}
+
+// Constraint names from Excel, MS Project and P6 -> SNET/SNLT/FNET/FNLT/MSO/MFO/ALAP/MANDSTART/MANDFIN
+const CONSTRAINT_ALIASES: Record<string, string[]> = {
+  ASAP: ["ASAP", "ASSOONASPOSSIBLE"],
+  ALAP: ["ALAP", "ASLATEASPOSSIBLE", "CSALAP"],
+  SNET: ["SNET", "STARTNOEARLIERTHAN", "STARTONORAFTER", "CSMSOA"],
+  SNLT: ["SNLT", "STARTNOLATERTHAN", "STARTONORBEFORE", "CSMSOB"],
+  FNET: ["FNET", "FINISHNOEARLIERTHAN", "FINISHONORAFTER", "CSMEOA"],
+  FNLT: ["FNLT", "FINISHNOLATERTHAN", "FINISHONORBEFORE", "CSMEOB"],
+  MSO: ["MSO", "MUSTSTARTON", "STARTON", "CSMSO"],
+  MFO: ["MFO", "MUSTFINISHON", "FINISHON", "CSMEO"],
+  MANDSTART: ["MANDSTART", "MANDATORYSTART", "CSMANDSTART"],
+  MANDFIN: ["MANDFIN", "MANDATORYFINISH", "CSMANDFIN"],
+};
+
+export const CONSTRAINT_LABELS: Record<string, string> = {
+  ALAP: "As late as possible",
+  SNET: "Start no earlier than",
+  SNLT: "Start no later than",
+  FNET: "Finish no earlier than",
+  FNLT: "Finish no later than",
+  MSO: "Must start on",
+  MFO: "Must finish on",
+  MANDSTART: "Mandatory start",
+  MANDFIN: "Mandatory finish",
+};
+
+export function normalizeConstraintType(type: unknown): string | undefined {
+  if (type === undefined || type === null) return undefined;
+  const key = String(type).toUpperCase().replace(/[^A-Z]/g, "");
+  if (!key) return undefined;
+  return Object.keys(CONSTRAINT_ALIASES).find((code) => CONSTRAINT_ALIASES[code].includes(key));
+}
+
+// Activities between onProgress callbacks during the passes
+const PROGRESS_EVERY = 500;
+// Furthest a levelled activity is pushed looking for free capacity
+const LEVELING_HORIZON_DAYS = 3660;
+
+// Which activity gets the resource first when several compete for it
+export const LEVELING_PRIORITIES = [
+  { key: "float", label: "Least total float first" },
+  { key: "start", label: "Earliest start first" },
+  { key: "priority", label: "Priority column (lowest first)" },
+];
+
+// Binary heap; the repeated sort it replaces made the forward pass quadratic
+function createMinHeap<T>(compare: (a: T, b: T) => number) {
+  const items: T[] = [];
+  const swap = (i: number, j: number) => {
+    const tmp = items[i];
+    items[i] = items[j];
+    items[j] = tmp;
+  };
+  return {
+    size: () => items.length,
+    push(item: T) {
+      items.push(item);
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (compare(items[i], items[parent]) >= 0) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop(): T {
+      const top = items[0];
+      const last = items.pop() as T;
+      if (items.length) {
+        items[0] = last;
+        let i = 0;
+        for (;;) {
+          const l = 2 * i + 1;
+          const r = l + 1;
+          let m = i;
+          if (l < items.length && compare(items[l], items[m]) < 0) m = l;
+          if (r < items.length && compare(items[r], items[m]) < 0) m = r;
+          if (m === i) break;
+          swap(i, m);
+          i = m;
+        }
+      }
+      return top;
+    },
+  };
+}
+
+// Working state of one activity during the passes. Times are epoch ms; a time the row does not
+// give, and a date no pass has set yet, is NaN
+interface EngineTask {
+  row: ScheduleRow;
+  id: string | undefined;
+  idx: number;
+  cal: Calendar;
+  duration: number;
+  status: "complete" | "active" | "planned";
+  actualStart: number;
+  actualFinish: number;
+  constraint: { type: string; date: number };
+  constraintViolated: boolean;
+  baseES: number;
+  baseEF: number;
+  baseLS: number;
+  baseLF: number;
+  ES: number;
+  EF: number;
+  LS: number;
+  LF: number;
+  remaining: number;
+  remStart: number;
+  TotalFloat_d: number;
+  FreeFloat_d: number;
+  isSummary: boolean;
+  assignments: Assignment[];
+  level?: { es: number; ls: number | undefined; tf: number; priority: number };
+  levelDelay?: number;
+  levelUnresolved?: boolean;
+}
+
+// progress: { dataDate: "YYYY-MM-DD", mode: "retained" | "override" }; actual dates are honoured either way
+// impact.leveling: { capacity: { [resource]: units per day }, priority, beyondFloat } levels row.Assignments
+// onProgress(fraction) is called every few hundred activities of each pass
+export function simulateScenario(
+  rows: ScheduleRow[],
+  rels: Relationship[],
+  impact: ScenarioImpact | null | undefined,
+  calendars: CalendarSet | null = null,
+  progress: ProgressOptions | null = null,
+  onProgress: ((fraction: number) => void) | null = null
+): ScheduleRow[] {
+  if (!rows?.length) return [];
+  const summaryMeta = buildSummaryMeta(rows);
+  const tasks = rows.map((row, idx): EngineTask => {
+    const id = normalizeActivityId(row.ActivityID);
+    const cal = resolveCalendar(calendars, row.CalendarID);
+    const baseES = row.__baselineES !== undefined && Number.isFinite(row.__baselineES)
+      ? row.__baselineES
+      : parseDate(row.ES)?.getTime() ?? NaN;
+    const baseEF = row.__baselineEF !== undefined && Number.isFinite(row.__baselineEF)
+      ? row.__baselineEF
+      : parseDate(row.EF)?.getTime() ?? NaN;
+    const actualStart = parseDate(row.ActualStart)?.getTime() ?? NaN;
+    const actualFinish = parseDate(row.ActualFinish)?.getTime() ?? NaN;
+    return {
+      row,
+      id,
+      idx,
+      cal,
+      duration: deriveDurationDays(row, cal),
+      status: Number.isFinite(actualFinish) ? "complete" : Number.isFinite(actualStart) ? "active" : "planned",
+      actualStart,
+      actualFinish,
+      constraint: {
+        type: normalizeConstraintType(row.ConstraintType) ?? "",
+        date: parseDate(row.ConstraintDate)?.getTime() ?? NaN,
+      },
+      constraintViolated: false,
+      baseES,
+      baseEF,
+      baseLS: parseDate(row.LS)?.getTime() ?? NaN,
+      baseLF: parseDate(row.LF)?.getTime() ?? NaN,
+      ES: NaN,
+      EF: NaN,
+      LS: NaN,
+      LF: NaN,
+      remaining: NaN,
+      remStart: NaN,
+      TotalFloat_d: Number(row.TotalFloat_d ?? 0),
+      FreeFloat_d: Number(row.FreeFloat_d ?? 0),
+      isSummary: summaryMeta[idx]?.isSummary ?? false,
+      assignments: Array.isArray(row.Assignments)
+        ? row.Assignments.filter((a: Assignment) => a?.resource && Number(a.units) > 0)
+        : [],
+    };
+  });
+  const logicTasks = tasks.filter(
+    (task) => task.id !== undefined && !task.isSummary
+  );
+  const idMap = new Map<string | undefined, EngineTask>();
+  logicTasks.forEach((task) => {
+    idMap.set(task.id, task);
+  });
+  if (!idMap.size) {
+    return applySummaryEnvelopes(
+      rows.map((row, idx) => ({
+        ...row,
+        IsSummary: summaryMeta[idx]?.isSummary ?? row.IsSummary,
+      })),
+      summaryMeta
+    );
+  }
+  // Levelling priorities and float limits come from the unlevelled run of the same scenario
+  const leveling = impact?.leveling?.capacity ? impact.leveling : null;
+  if (leveling) {
+    const unleveled = new Map(
+      simulateScenario(rows, rels, { ...impact, leveling: null }, calendars, progress).map((r) => [
+        normalizeActivityId(r.ActivityID),
+        r,
+      ])
+    );
+    logicTasks.forEach((task) => {
+      const ref = unleveled.get(task.id);
+      task.level = {
+        es: parseDate(ref?.ES)?.getTime() ?? Infinity,
+        ls: parseDate(ref?.LS)?.getTime(),
+        tf: Number.isFinite(Number(ref?.TotalFloat_d)) ? Number(ref?.TotalFloat_d) : Infinity,
+        priority: Number.isFinite(Number(task.row.Priority)) && task.row.Priority !== "" ? Number(task.row.Priority) : Infinity,
+      };
+    });
+  }
+  const defaultStart = (() => {
+    let min = Infinity;
+    logicTasks.forEach((task) => {
+      if (Number.isFinite(task.baseES)) min = Math.min(min, task.baseES);
+    });
+    return Number.isFinite(min) ? min : 0;
+  })();
+  const anchor = (task: EngineTask) =>
+    nextWorkTime(task.cal, Number.isFinite(task.baseES) ? task.baseES : defaultStart);
+  logicTasks.forEach((task) => {
+    if (!Number.isFinite(task.duration)) task.duration = 0;
+  });
+  const dataDate = parseDate(progress?.dataDate)?.getTime() ?? NaN;
+  const retainedLogic = progress?.mode !== "override";
+  // Work left to schedule: none once finished, the statused remainder while in progress
+  logicTasks.forEach((task) => {
+    if (task.status === "complete") {
+      task.remaining = 0;
+    } else if (task.status === "active") {
+      const statused = Number(task.row.RemainingDuration);
+      const pct = Math.max(0, Math.min(100, Number(task.row.PctComplete) || 0));
+      task.remaining = Number.isFinite(statused) && statused >= 0 ? statused : task.duration * (1 - pct / 100);
+    } else {
+      task.remaining = task.duration;
+    }
+  });
+  const impactList: ActivityImpact[] = Array.isArray(impact?.impacts)
+    ? impact.impacts
+    : normalizeActivityId(impact?.activityId) !== undefined
+    ? [impact as ActivityImpact]
+    : [];
+  impactList.forEach((entry) => {
+    const hit = idMap.get(normalizeActivityId(entry.activityId));
+    // Finished work keeps its actuals
+    if (hit && hit.status !== "complete") {
+      const delta = Number(entry.deltaDays) || 0;
+      hit.duration = Math.max(0, hit.duration + delta);
+      hit.remaining = Math.max(0, hit.remaining + delta);
+    }
+  });
+  // Start/finish of an activity's remaining work from the other end, on its own calendar
+  const finishFrom = (task: EngineTask, start: number) => addWorkDays(task.cal, start, task.remaining);
+  const startFrom = (task: EngineTask, finish: number) => subtractWorkDays(task.cal, finish, task.remaining);
+  // A finish constraint names the day work finishes on, so it falls at the end of that working day
+  const finishBy = (task: EngineTask, date: number) => prevWorkTime(task.cal, date + DAY_MS);
+  // Forward pass: early start after logic, lifted (or for mandatory types, fixed) by the constraint
+  const constrainEarly = (task: EngineTask, es: number) => {
+    const { type, date } = task.constraint;
+    if (!Number.isFinite(date)) return es;
+    if (type === "SNET" || type === "MSO") return Math.max(es, date);
+    if (type === "FNET" || type === "MFO") return Math.max(es, startFrom(task, finishBy(task, date)));
+    if (type === "MANDSTART") return date;
+    if (type === "MANDFIN") return startFrom(task, finishBy(task, date));
+    return es;
+  };
+  // Backward pass: late dates capped by the constraint; a cap before the early date gives negative float
+  const constrainLate = (task: EngineTask, ls: number, lf: number) => {
+    const { type, date } = task.constraint;
+    if (!Number.isFinite(date)) return { ls, lf };
+    // Once work has started only finish constraints still bite
+    if (task.status !== "planned" && !["FNLT", "MFO", "MANDFIN"].includes(type)) return { ls, lf };
+    const finish = finishBy(task, date);
+    if ((type === "FNLT" || type === "MFO") && finish < lf) {
+      return { ls: startFrom(task, finish), lf: finish };
+    }
+    if ((type === "SNLT" || type === "MSO") && date < ls) {
+      return { ls: date, lf: finishFrom(task, date) };
+    }
+    if (type === "MANDFIN") return { ls: startFrom(task, finish), lf: finish };
+    if (type === "MANDSTART") return { ls: date, lf: finishFrom(task, date) };
+    return { ls, lf };
+  };
+  // Early dates for one activity: actuals stay fixed, remaining work waits for the data date
+  // (and, with retained logic, for its predecessors; progress override resumes it at the data date)
+  const scheduleEarly = (task: EngineTask, startReq: number) => {
+    if (task.status === "complete") {
+      task.ES = Number.isFinite(task.actualStart)
+        ? task.actualStart
+        : subtractWorkDays(task.cal, task.actualFinish, task.duration);
+      task.EF = task.actualFinish;
+      task.remStart = task.actualFinish;
+      return;
+    }
+    if (task.status === "active") {
+      const resume = Number.isFinite(dataDate)
+        ? dataDate
+        : addWorkDays(task.cal, task.actualStart, Math.max(0, task.duration - task.remaining));
+      let start = Math.max(resume, task.actualStart);
+      if (retainedLogic && Number.isFinite(startReq)) start = Math.max(start, startReq);
+      task.ES = task.actualStart;
+      task.remStart = task.remaining > 0 ? nextWorkTime(task.cal, start) : start;
+      task.EF = finishFrom(task, task.remStart);
+      return;
+    }
+    let start = Number.isFinite(startReq) ? Math.max(startReq, anchor(task)) : anchor(task);
+    if (Number.isFinite(dataDate)) start = Math.max(start, dataDate);
+    const logicStart = task.duration > 0 ? nextWorkTime(task.cal, start) : start;
+    task.ES = constrainEarly(task, logicStart);
+    // Mandatory dates override logic: flag when predecessors want it later
+    task.constraintViolated = logicStart > task.ES;
+    task.remStart = task.ES;
+    task.EF = finishFrom(task, task.ES);
+  };
+  // Units booked per resource per working day, filled in the order activities are scheduled
+  const usage = new Map<string, Map<number, number>>();
+  const capacityOf = (resource: string) => {
+    const cap = Number(leveling?.capacity[resource]);
+    return Number.isFinite(cap) && cap > 0 ? cap : Infinity;
+  };
+  const clashDay = (task: EngineTask, start: number, finish: number) => {
+    for (const day of workDayList(task.cal, start, finish)) {
+      for (const a of task.assignments) {
+        if ((usage.get(a.resource)?.get(day) ?? 0) + Number(a.units) > capacityOf(a.resource) + 1e-9) return day;
+      }
+    }
+    return null;
+  };
+  const book = (task: EngineTask, start: number, finish: number) => {
+    for (const day of workDayList(task.cal, start, finish)) {
+      for (const a of task.assignments) {
+        const load = usage.get(a.resource) ?? new Map();
+        load.set(day, (load.get(day) ?? 0) + Number(a.units));
+        usage.set(a.resource, load);
+      }
+    }
+  };
+  // Planned work slides to the first start where every assigned resource has room; started
+  // and mandatory-dated work keeps its dates and just takes its share of capacity
+  const levelTask = (task: EngineTask) => {
+    if (task.status === "complete" || !task.assignments.length || !(task.remaining > 0)) return;
+    const fixed = task.status !== "planned" || ["MANDSTART", "MANDFIN", "MSO", "MFO"].includes(task.constraint.type);
+    if (!fixed) {
+      const limit = leveling?.beyondFloat ? Infinity : Math.max(task.ES, task.level?.ls ?? task.ES);
+      let start = task.ES;
+      let placed = false;
+      for (let guard = 0; guard < LEVELING_HORIZON_DAYS && start <= limit; guard++) {
+        const clash = clashDay(task, start, finishFrom(task, start));
+        if (clash === null) {
+          placed = true;
+          break;
+        }
+        start = nextWorkTime(task.cal, clash + DAY_MS);
+      }
+      if (!placed) {
+        task.levelUnresolved = true;
+      } else if (start > task.ES) {
+        task.levelDelay = workDaysBetween(task.cal, task.ES, start);
+        task.ES = start;
+        task.remStart = start;
+        task.EF = finishFrom(task, start);
+      }
+    }
+    book(task, task.remStart, task.EF);
+  };
+  const scheduleTask = (task: EngineTask, startReq: number) => {
+    scheduleEarly(task, startReq);
+    if (leveling) levelTask(task);
+  };
+  const edges = rels
+    .map((rel) => ({
+      ...rel,
+      PredID: normalizeActivityId(rel.PredID),
+      SuccID: normalizeActivityId(rel.SuccID),
+      RelType: normalizeRelType(rel.RelType),
+    }))
+    .filter((rel) => idMap.has(rel.PredID) && idMap.has(rel.SuccID));
+  const succMap = new Map<string | undefined, Relationship[]>();
+  const indegree = new Map(Array.from(idMap.values()).map((task) => [task.id, 0]));
+  const push = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+    const arr = map.get(key) || [];
+    arr.push(value);
+    map.set(key, arr);
+  };
+  edges.forEach((rel) => {
+    push(succMap, rel.PredID, rel);
+    indegree.set(rel.SuccID, (indegree.get(rel.SuccID) ?? 0) + 1);
+  });
+  // Ready activities come off in anchor order (row order breaks ties); when levelling, started
+  // work first and then the priority rule decides who gets contested resources
+  const anchors = new Map(logicTasks.map((task) => [task.id, anchor(task)]));
+  const cmp = (x: number, y: number) => (x < y ? -1 : x > y ? 1 : 0);
+  const levelKeys = (task: EngineTask) => {
+    const { es, tf, priority } = task.level!;
+    if (leveling?.priority === "start") return [es, tf];
+    if (leveling?.priority === "priority") return [priority, tf, es];
+    return [tf, es];
+  };
+  const levelOrder = (a: EngineTask, b: EngineTask) => {
+    const rank = cmp(a.status === "planned" ? 1 : 0, b.status === "planned" ? 1 : 0);
+    if (rank) return rank;
+    const ka = levelKeys(a);
+    const kb = levelKeys(b);
+    for (let i = 0; i < ka.length; i++) {
+      const c = cmp(ka[i], kb[i]);
+      if (c) return c;
+    }
+    return 0;
+  };
+  const queue = createMinHeap<EngineTask>(
+    leveling
+      ? (a, b) => levelOrder(a, b) || a.idx - b.idx
+      : (a, b) => anchors.get(a.id)! - anchors.get(b.id)! || a.idx - b.idx
+  );
+  logicTasks.forEach((task) => {
+    if ((indegree.get(task.id) ?? 0) === 0) queue.push(task);
+  });
+  const pending = new Map<string | undefined, number>();
+  const topo: (string | undefined)[] = [];
+  const total = logicTasks.length;
+  while (queue.size()) {
+    const current = queue.pop();
+    topo.push(current.id);
+    if (onProgress && topo.length % PROGRESS_EVERY === 0) onProgress((topo.length / total) * 0.5);
+    scheduleTask(current, pending.get(current.id) ?? NaN);
+    for (const rel of succMap.get(current.id) || []) {
+      const succ = idMap.get(rel.SuccID);
+      if (!succ) continue;
+      // Lags run on the successor's calendar
+      const lag = Number(rel.Lag_d) || 0;
+      let needed = addWorkDays(succ.cal, current.EF, lag);
+      if (rel.RelType === "SS") {
+        needed = addWorkDays(succ.cal, current.ES, lag);
+      } else if (rel.RelType === "FF") {
+        needed = startFrom(succ, addWorkDays(succ.cal, current.EF, lag));
+      } else if (rel.RelType === "SF") {
+        needed = startFrom(succ, addWorkDays(succ.cal, current.ES, lag));
+      }
+      const prev = pending.get(succ.id);
+      pending.set(succ.id, prev !== undefined ? Math.max(prev, needed) : needed);
+      const deg = (indegree.get(succ.id) ?? 0) - 1;
+      indegree.set(succ.id, deg);
+      if (deg === 0) queue.push(succ);
+    }
+  }
+  idMap.forEach((task) => {
+    if (!Number.isFinite(task.ES)) scheduleTask(task, NaN);
+  });
+  const topoOrder = topo.slice();
+  const ordered = new Set(topo);
+  idMap.forEach((task) => {
+    if (!ordered.has(task.id)) topoOrder.push(task.id);
+  });
+  const projectFinish = topoOrder.reduce((max, id) => {
+    const t = idMap.get(id);
+    if (!t) return max;
+    const ef = Number.isFinite(t.EF)
+      ? t.EF
+      : Number.isFinite(t.baseEF)
+      ? t.baseEF
+      : finishFrom(t, anchor(t));
+    return Math.max(max, ef);
+  }, defaultStart);
+  // Finished successors no longer need their predecessors; progress override also releases started ones.
+  // Work in or after a logic loop never comes off the queue, so it drives no late dates and gets none
+  const drivesSuccessor = (succ: EngineTask) =>
+    ordered.has(succ.id) && (succ.status === "planned" || (succ.status === "active" && retainedLogic));
+  const reverse = topoOrder.slice().reverse();
+  let walked = 0;
+  for (const id of reverse) {
+    walked++;
+    if (onProgress && walked % PROGRESS_EVERY === 0) onProgress(0.5 + (walked / total) * 0.5);
+    const task = idMap.get(id);
+    if (!task || !ordered.has(id)) continue;
+    const outgoing = succMap.get(id) || [];
+    let lfLimit = Infinity;
+    let lsLimit = Infinity;
+    for (const rel of outgoing) {
+      const succ = idMap.get(rel.SuccID);
+      if (!succ || !drivesSuccessor(succ)) continue;
+      const lag = Number(rel.Lag_d) || 0;
+      const succLS = Number.isFinite(succ.LS) ? succ.LS : Number.isFinite(succ.ES) ? succ.ES : anchor(succ);
+      const succLF = Number.isFinite(succ.LF) ? succ.LF : Number.isFinite(succ.EF) ? succ.EF : finishFrom(succ, succLS);
+      if (rel.RelType === "FS") {
+        lfLimit = Math.min(lfLimit, subtractWorkDays(succ.cal, succLS, lag));
+      } else if (rel.RelType === "FF") {
+        lfLimit = Math.min(lfLimit, subtractWorkDays(succ.cal, succLF, lag));
+      } else if (rel.RelType === "SS") {
+        lsLimit = Math.min(lsLimit, subtractWorkDays(succ.cal, succLS, lag));
+      } else if (rel.RelType === "SF") {
+        lsLimit = Math.min(lsLimit, subtractWorkDays(succ.cal, succLF, lag));
+      }
+    }
+    // Late finishes sit at the end of the last working day, like early finishes
+    const earlyFinish = Number.isFinite(task.EF) ? task.EF : Number.isFinite(task.baseEF) ? task.baseEF : projectFinish;
+    let lf = Number.isFinite(lfLimit) ? prevWorkTime(task.cal, lfLimit) : Math.max(earlyFinish, projectFinish);
+    let ls = startFrom(task, lf);
+    if (Number.isFinite(lsLimit) && lsLimit < ls) {
+      ls = lsLimit;
+      lf = finishFrom(task, ls);
+    }
+    if (!Number.isFinite(lf)) lf = earlyFinish;
+    if (!Number.isFinite(ls)) ls = startFrom(task, lf);
+    const capped = constrainLate(task, ls, lf);
+    if (capped.ls < ls && capped.ls < task.remStart) task.constraintViolated = true;
+    ls = capped.ls;
+    lf = capped.lf;
+    task.LF = lf;
+    task.LS = ls;
+  }
+  // ALAP work moves as late as its successors' early dates allow (its free float), never past its late start;
+  // successors first, so a chain of ALAP work closes up. Levelled work keeps the slot it was given
+  for (const id of reverse) {
+    const task = idMap.get(id);
+    if (!task || task.status !== "planned" || task.constraint.type !== "ALAP") continue;
+    if ((leveling && task.assignments.length) || !Number.isFinite(task.LS) || !(task.LS > task.ES)) continue;
+    let lfLimit = Infinity;
+    let lsLimit = task.LS;
+    for (const rel of succMap.get(id) || []) {
+      const succ = idMap.get(rel.SuccID);
+      if (!succ || !drivesSuccessor(succ) || !Number.isFinite(succ.ES)) continue;
+      const lag = Number(rel.Lag_d) || 0;
+      const succEF = Number.isFinite(succ.EF) ? succ.EF : finishFrom(succ, succ.ES);
+      if (rel.RelType === "FS") {
+        lfLimit = Math.min(lfLimit, subtractWorkDays(succ.cal, succ.ES, lag));
+      } else if (rel.RelType === "FF") {
+        lfLimit = Math.min(lfLimit, subtractWorkDays(succ.cal, succEF, lag));
+      } else if (rel.RelType === "SS") {
+        lsLimit = Math.min(lsLimit, subtractWorkDays(succ.cal, succ.ES, lag));
+      } else if (rel.RelType === "SF") {
+        lsLimit = Math.min(lsLimit, subtractWorkDays(succ.cal, succEF, lag));
+      }
+    }
+    if (Number.isFinite(lfLimit)) lsLimit = Math.min(lsLimit, startFrom(task, prevWorkTime(task.cal, lfLimit)));
+    if (Number.isFinite(lsLimit) && lsLimit > task.ES) {
+      task.ES = lsLimit;
+      task.remStart = lsLimit;
+      task.EF = finishFrom(task, lsLimit);
+    }
+  }
+  idMap.forEach((task) => {
+    const es = Number.isFinite(task.remStart) ? task.remStart : Number.isFinite(task.ES) ? task.ES : anchor(task);
+    const ef = Number.isFinite(task.EF) ? task.EF : finishFrom(task, es);
+    task.TotalFloat_d = Math.round(workDaysBetween(task.cal, es, Number.isFinite(task.LS) ? task.LS : es));
+    // Free float: slack to the earliest successor requirement, per relationship type
+    let minFree = Infinity;
+    for (const rel of succMap.get(task.id) || []) {
+      const succ = idMap.get(rel.SuccID);
+      if (!succ || !drivesSuccessor(succ)) continue;
+      const lag = Number(rel.Lag_d) || 0;
+      const succES = Number.isFinite(succ.ES) ? succ.ES : anchor(succ);
+      const succEF = Number.isFinite(succ.EF) ? succ.EF : finishFrom(succ, succES);
+      let free;
+      if (rel.RelType === "FS") {
+        free = workDaysBetween(task.cal, ef, subtractWorkDays(succ.cal, succES, lag));
+      } else if (rel.RelType === "FF") {
+        free = workDaysBetween(task.cal, ef, subtractWorkDays(succ.cal, succEF, lag));
+      } else if (rel.RelType === "SS") {
+        free = workDaysBetween(task.cal, es, subtractWorkDays(succ.cal, succES, lag));
+      } else {
+        free = workDaysBetween(task.cal, es, subtractWorkDays(succ.cal, succEF, lag));
+      }
+      if (Number.isFinite(free)) minFree = Math.min(minFree, free);
+    }
+    task.FreeFloat_d =
+      minFree < Infinity
+        ? Math.max(0, Math.round(minFree))
+        : Math.max(0, task.TotalFloat_d);
+  });
+  const updated = rows.map((row, idx): ScheduleRow => {
+    const id = normalizeActivityId(row.ActivityID);
+    const task = idMap.get(id);
+    if (!task) {
+      return {
+        ...row,
+        IsSummary: summaryMeta[idx]?.isSummary ?? row.IsSummary,
+      };
+    }
+    const ES = toISODate(task.ES);
+    const EF = toISODate(task.EF);
+    const LS = toISODate(Number.isFinite(task.LS) ? task.LS : task.baseLS);
+    const LF = toISODate(Number.isFinite(task.LF) ? task.LF : task.baseLF);
+    // Late dates and float of work the passes could not order are left blank
+    const looped = !ordered.has(task.id);
+    return {
+      ...row,
+      ES: ES ?? row.ES,
+      EF: EF ?? row.EF,
+      LS: looped ? "" : LS ?? row.LS,
+      LF: looped ? "" : LF ?? row.LF,
+      DurDays: Math.round(task.duration * 100) / 100,
+      RemainingDuration: Math.round(task.remaining * 100) / 100,
+      TotalFloat_d: looped ? "" : task.TotalFloat_d,
+      FreeFloat_d: looped ? "" : task.FreeFloat_d,
+      ConstraintViolated: task.constraintViolated,
+      ...(leveling
+        ? { LevelingDelay_d: Math.round((task.levelDelay ?? 0) * 100) / 100, LevelingUnresolved: Boolean(task.levelUnresolved) }
+        : {}),
+      IsSummary: summaryMeta[idx]?.isSummary ?? row.IsSummary,
+    };
+  });
+  return applySummaryEnvelopes(updated, summaryMeta);
+}
+
+export function applySummaryEnvelopes(rows: ScheduleRow[], meta: SummaryMeta[]): ScheduleRow[] {
+  if (!meta?.length) return rows;
+  const ensureSummary = (idx: number, seen = new Set<number>()) => {
+    if (seen.has(idx)) return;
+    seen.add(idx);
+    const info = meta[idx];
+    if (!info?.isSummary || !info.children?.length) {
+      rows[idx] = { ...rows[idx], IsSummary: info?.isSummary ?? rows[idx].IsSummary };
+      return;
+    }
+    let minES = Infinity;
+    let maxEF = -Infinity;
+    let minLS = Infinity;
+    let maxLF = -Infinity;
+    for (const childIdx of info.children) {
+      if (meta[childIdx]?.isSummary) ensureSummary(childIdx, seen);
+      const child = rows[childIdx];
+      const es = parseDate(child.ES)?.getTime() ?? NaN;
+      const ef = parseDate(child.EF)?.getTime() ?? NaN;
+      const ls = parseDate(child.LS)?.getTime() ?? NaN;
+      const lf = parseDate(child.LF)?.getTime() ?? NaN;
+      if (Number.isFinite(es)) minES = Math.min(minES, es);
+      if (Number.isFinite(ef)) maxEF = Math.max(maxEF, ef);
+      if (Number.isFinite(ls)) minLS = Math.min(minLS, ls);
+      if (Number.isFinite(lf)) maxLF = Math.max(maxLF, lf);
+    }
+    if (minES < Infinity && maxEF > -Infinity) {
+      const esIso = toISODate(minES);
+      const efIso = toISODate(maxEF);
+      const lsIso = Number.isFinite(minLS) ? toISODate(minLS) : esIso;
+      const lfIso = Number.isFinite(maxLF) ? toISODate(maxLF) : efIso;
+      rows[idx] = {
+        ...rows[idx],
+        ES: esIso ?? rows[idx].ES,
+        EF: efIso ?? rows[idx].EF,
+        LS: lsIso ?? rows[idx].LS,
+        LF: lfIso ?? rows[idx].LF,
+        DurDays: Math.max(0, Math.round((maxEF - minES) / DAY_MS)),
+        IsSummary: true,
+      };
+    } else {
+      rows[idx] = { ...rows[idx], IsSummary: true };
+    }
+  };
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (meta[i]?.isSummary) ensureSummary(i);
+  }
+  return rows;
+}
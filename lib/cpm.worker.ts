@@ -0,0 +1,56 @@
+import { simulateScenario } from "@/lib/cpm";
+import { createRandom, runRiskAnalysis, scheduleFinish, summariseRisk } from "@/lib/risk";
+import type { ActivityImpact } from "@/lib/schedule-types";
+
+/**
+ * Scheduling worker
+ * - "schedule": one CPM run, posting pass progress
+ * - "risk": Monte Carlo iterations, posting iteration progress; "cancel" stops it between chunks
+ * Replies are { id, type: "progress" | "result" | "error", ... }
+ */
+
+// Only risk runs yield between chunks, so only they can see a cancel; ids of finished jobs are ignored
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+self.onmessage = async (event: MessageEvent) => {
+  const { id, task, payload } = event.data || {};
+  if (task === "cancel") {
+    if (running.has(payload?.id)) cancelled.add(payload.id);
+    return;
+  }
+  const progress = (fraction: number) => self.postMessage({ id, type: "progress", fraction });
+  try {
+    if (task === "schedule") {
+      const { rows, rels, impact, calendars, progressSettings } = payload;
+      const result = simulateScenario(rows, rels, impact, calendars, progressSettings, progress);
+      self.postMessage({ id, type: "result", result });
+      return;
+    }
+    if (task === "risk") {
+      const { rows, rels, calendars, progressSettings, ranges, baseDurations, distribution, iterations, seed } = payload;
+      running.add(id);
+      const simulate = (impacts: ActivityImpact[]) => simulateScenario(rows, rels, { impacts }, calendars, progressSettings);
+      const deterministic = scheduleFinish(simulate([]));
+      const run = await runRiskAnalysis({
+        simulate,
+        ranges,
+        baseDurations,
+        distribution,
+        iterations,
+        random: createRandom(seed),
+        onProgress: (done, total) => self.postMessage({ id, type: "progress", fraction: done / total, done, total }),
+        isCancelled: () => cancelled.has(id),
+      });
+      const result = run.finishes.length ? { ...summariseRisk(run, rows, deterministic), deterministic } : null;
+      self.postMessage({ id, type: "result", result, cancelled: run.cancelled, iterations: run.iterations });
+      return;
+    }
+    throw new Error(`Unknown scheduling task "${task}".`);
+  } catch (err) {
+    self.postMessage({ id, type: "error", message: (err as Error)?.message || String(err) });
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
+  }
+};
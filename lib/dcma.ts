@@ -0,0 +1,314 @@
+import { DAY_MS, dayMs } from "@/lib/calendars";
+import { normalizeActivityId, normalizeConstraintType } from "@/lib/cpm";
+import type { BaselineDates } from "@/lib/baseline";
+import type { ActivityImpact, Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * DCMA 14-point schedule assessment
+ * - Logic, leads, lags, relationship types, hard constraints, high/negative float, high duration
+ * - Invalid dates, resources and missed tasks against the data date and a baseline
+ * - Critical path test (one delayed CPM run), CPLI and BEI
+ * Each check reports its metric, threshold, pass/fail (null when it cannot be assessed) and offending activities
+ */
+
+const HARD_CONSTRAINTS = ["MSO", "MFO", "SNLT", "FNLT", "MANDSTART", "MANDFIN"];
+const HIGH_DAYS = 44;
+// Delay added to a critical activity by the critical path test
+const CRITICAL_PATH_TEST_DELAY = 600;
+
+export interface DcmaOffender {
+  id: string | undefined;
+  name: string;
+  rowIndex: number | undefined;
+  detail: string;
+}
+
+export interface DcmaCheck {
+  key: string;
+  label: string;
+  description: string;
+  value: string;
+  threshold: string;
+  // null when the check cannot be assessed
+  pass: boolean | null;
+  offenders: DcmaOffender[];
+}
+
+const pctText = (n: number) => `${(n * 100).toFixed(1)}%`;
+const isMilestone = (row: ScheduleRow) => row.Milestone === true || Number(row.DurDays) === 0;
+const isComplete = (row: ScheduleRow) => Boolean(row.ActualFinish) || Number(row.PctComplete) >= 100;
+const offender = (row: ScheduleRow, detail: string): DcmaOffender => ({
+  id: normalizeActivityId(row.ActivityID),
+  name: row.TaskName ?? "",
+  rowIndex: row.__rowIndex,
+  detail,
+});
+
+// Share of offenders out of the assessed population, passing at or below the limit
+const ratioCheck = (
+  key: string,
+  label: string,
+  description: string,
+  offenders: DcmaOffender[],
+  total: number,
+  max: number
+): DcmaCheck => {
+  const ratio = total ? offenders.length / total : 0;
+  return {
+    key,
+    label,
+    description,
+    value: total ? pctText(ratio) : "n/a",
+    threshold: `≤ ${pctText(max).replace(".0%", "%")}`,
+    pass: total ? ratio <= max : null,
+    offenders,
+  };
+};
+
+/**
+ * @param rows scheduled rows (ES/EF/TotalFloat_d), scenario or as loaded
+ * @param rels relationship edges
+ * @param dataDate ISO status date; checks that need one are skipped without it
+ * @param baselineOf (row) => { start, finish } in ms or null
+ * @param simulate (impacts) => rescheduled rows, for the critical path test
+ */
+export function runDcmaCheck({
+  rows,
+  rels,
+  dataDate = "",
+  baselineOf = null,
+  simulate = null,
+}: {
+  rows: ScheduleRow[];
+  rels: Relationship[];
+  dataDate?: string;
+  baselineOf?: ((row: ScheduleRow) => BaselineDates | null) | null;
+  simulate?: ((impacts: ActivityImpact[]) => ScheduleRow[]) | null;
+}): { checks: DcmaCheck[]; passed: number; failed: number; assessed: number } {
+  const tasks = rows.filter((r) => !r.IsSummary && normalizeActivityId(r.ActivityID) !== undefined);
+  const byId = new Map(tasks.map((r) => [normalizeActivityId(r.ActivityID), r]));
+  const incomplete = tasks.filter((r) => !isComplete(r));
+  const links = rels
+    .map((e) => ({ ...e, PredID: normalizeActivityId(e.PredID), SuccID: normalizeActivityId(e.SuccID) }))
+    .filter((e) => byId.has(e.PredID) && byId.has(e.SuccID));
+  const linkLabel = (e: (typeof links)[number]) => `${e.PredID} → ${e.SuccID} ${String(e.RelType || "FS").toUpperCase()} ${Number(e.Lag_d) > 0 ? "+" : ""}${Number(e.Lag_d) || 0}d`;
+  const status = dayMs(dataDate);
+  const checks: DcmaCheck[] = [];
+
+  // 1. Logic
+  const hasPred = new Set(links.map((e) => e.SuccID));
+  const hasSucc = new Set(links.map((e) => e.PredID));
+  const missingLogic = incomplete
+    .filter((r) => {
+      const id = normalizeActivityId(r.ActivityID);
+      return !hasPred.has(id) || !hasSucc.has(id);
+    })
+    .map((r) => {
+      const id = normalizeActivityId(r.ActivityID);
+      const missing = [!hasPred.has(id) && "predecessor", !hasSucc.has(id) && "successor"].filter(Boolean).join(" and ");
+      return offender(r, `No ${missing}`);
+    });
+  checks.push(ratioCheck("logic", "Logic", "Incomplete activities missing a predecessor or successor.", missingLogic, incomplete.length, 0.05));
+
+  // 2–4. Relationships
+  const leadLinks = links.filter((e) => Number(e.Lag_d) < 0);
+  checks.push({
+    key: "leads",
+    label: "Leads",
+    description: "Relationships with a negative lag.",
+    value: String(leadLinks.length),
+    threshold: "= 0",
+    pass: leadLinks.length === 0,
+    offenders: leadLinks.map((e) => offender(byId.get(e.SuccID)!, linkLabel(e))),
+  });
+  checks.push(
+    ratioCheck(
+      "lags",
+      "Lags",
+      "Relationships with a positive lag.",
+      links.filter((e) => Number(e.Lag_d) > 0).map((e) => offender(byId.get(e.SuccID)!, linkLabel(e))),
+      links.length,
+      0.05
+    )
+  );
+  const nonFs = links.filter((e) => String(e.RelType || "FS").toUpperCase() !== "FS");
+  checks.push({
+    ...ratioCheck(
+      "relationship-types",
+      "Relationship types",
+      "Share of finish-to-start relationships; the offenders are the others.",
+      nonFs.map((e) => offender(byId.get(e.SuccID)!, linkLabel(e))),
+      links.length,
+      0.1
+    ),
+    value: links.length ? pctText(1 - nonFs.length / links.length) : "n/a",
+    threshold: "≥ 90% FS",
+  });
+
+  // 5. Hard constraints
+  checks.push(
+    ratioCheck(
+      "hard-constraints",
+      "Hard constraints",
+      "Incomplete activities with a mandatory or finish/start-no-later-than constraint.",
+      incomplete
+        .filter((r) => HARD_CONSTRAINTS.includes(normalizeConstraintType(r.ConstraintType) ?? ""))
+        .map((r) => offender(r, `${normalizeConstraintType(r.ConstraintType)} ${r.ConstraintDate ?? ""}`.trim())),
+      incomplete.length,
+      0.05
+    )
+  );
+
+  // 6–8. Float and duration
+  const tf = (r: ScheduleRow) => Number(r.TotalFloat_d);
+  checks.push(
+    ratioCheck(
+      "high-float",
+      "High float",
+      `Incomplete activities with more than ${HIGH_DAYS} days of total float.`,
+      incomplete.filter((r) => tf(r) > HIGH_DAYS).map((r) => offender(r, `TF ${tf(r)}d`)),
+      incomplete.length,
+      0.05
+    )
+  );
+  const negative = incomplete.filter((r) => tf(r) < 0);
+  checks.push({
+    key: "negative-float",
+    label: "Negative float",
+    description: "Incomplete activities with total float below zero.",
+    value: String(negative.length),
+    threshold: "= 0",
+    pass: negative.length === 0,
+    offenders: negative.map((r) => offender(r, `TF ${tf(r)}d`)),
+  });
+  const durationOf = (r: ScheduleRow) => (r.ActualStart && Number.isFinite(Number(r.RemainingDuration)) ? Number(r.RemainingDuration) : Number(r.DurDays));
+  checks.push(
+    ratioCheck(
+      "high-duration",
+      "High duration",
+      `Incomplete activities with more than ${HIGH_DAYS} days of (remaining) duration.`,
+      incomplete.filter((r) => durationOf(r) > HIGH_DAYS).map((r) => offender(r, `${durationOf(r)}d`)),
+      incomplete.length,
+      0.05
+    )
+  );
+
+  // 9. Invalid dates
+  const invalid: DcmaOffender[] = Number.isFinite(status)
+    ? tasks
+        .map((r): DcmaOffender | null => {
+          const as = dayMs(r.ActualStart);
+          const af = dayMs(r.ActualFinish);
+          if (as > status || af > status) return offender(r, "Actual date after the data date");
+          if (!isComplete(r) && !r.ActualStart && dayMs(r.ES) < status) return offender(r, "Forecast start before the data date");
+          if (!isComplete(r) && dayMs(r.EF) < status) return offender(r, "Forecast finish before the data date");
+          return null;
+        })
+        .filter((o): o is DcmaOffender => o !== null)
+    : [];
+  checks.push({
+    key: "invalid-dates",
+    label: "Invalid dates",
+    description: "Actual dates after the data date, or forecast dates before it.",
+    value: Number.isFinite(status) ? String(invalid.length) : "n/a",
+    threshold: "= 0",
+    pass: Number.isFinite(status) ? invalid.length === 0 : null,
+    offenders: invalid,
+  });
+
+  // 10. Resources
+  const hasResources = (r: ScheduleRow) => (r.Assignments?.length ?? 0) > 0 || r.Resources || r.Resource;
+  const resourced = tasks.some(hasResources);
+  const unresourced = incomplete.filter((r) => !isMilestone(r) && !hasResources(r));
+  const resourceCheck = ratioCheck(
+    "resources",
+    "Resources",
+    "Incomplete activities with duration but no resource assignment.",
+    unresourced.map((r) => offender(r, "No resources")),
+    incomplete.filter((r) => !isMilestone(r)).length,
+    0
+  );
+  if (!resourced) Object.assign(resourceCheck, { value: "n/a", pass: null, offenders: [], description: `${resourceCheck.description} The schedule carries no resources.` });
+  checks.push(resourceCheck);
+
+  // 11. Missed tasks and 14. BEI: activities the baseline had finishing by the data date
+  const dueByStatus: ScheduleRow[] = Number.isFinite(status) && baselineOf
+    ? tasks.filter((r) => {
+        const b = baselineOf(r);
+        return b && Number.isFinite(b.finish) && b.finish <= status;
+      })
+    : [];
+  const missed = dueByStatus
+    .filter((r) => !isComplete(r) || dayMs(r.ActualFinish) > (baselineOf?.(r)?.finish ?? NaN))
+    .map((r) => offender(r, isComplete(r) ? `Finished ${r.ActualFinish}` : "Not finished"));
+  const missedCheck = ratioCheck("missed-tasks", "Missed tasks", "Baselined to finish by the data date but finished late or not at all.", missed, dueByStatus.length, 0.05);
+  checks.push(missedCheck);
+
+  // 12. Critical path test: delaying a critical activity must delay the project finish as much
+  const finishOf = (list: ScheduleRow[]) => Math.max(...list.filter((r) => !r.IsSummary).map((r) => dayMs(r.EF)).filter(Number.isFinite));
+  const candidate = incomplete
+    .filter((r) => tf(r) <= 0 && !isMilestone(r))
+    .sort((a, b) => dayMs(a.ES) - dayMs(b.ES))[0];
+  let cpTest: Pick<DcmaCheck, "pass" | "value" | "offenders"> = { pass: null, value: "n/a", offenders: [] };
+  if (candidate && simulate) {
+    const id = normalizeActivityId(candidate.ActivityID);
+    const before = simulate([]);
+    const after = simulate([{ activityId: id, deltaDays: CRITICAL_PATH_TEST_DELAY }]);
+    const taskOf = (list: ScheduleRow[]) => list.find((r) => normalizeActivityId(r.ActivityID) === id);
+    const taskShift = dayMs(taskOf(after)?.EF) - dayMs(taskOf(before)?.EF);
+    const projectShift = finishOf(after) - finishOf(before);
+    const pass = Number.isFinite(taskShift) && projectShift >= taskShift - DAY_MS;
+    cpTest = {
+      pass,
+      value: `${Math.round(projectShift / DAY_MS)}d / ${Math.round(taskShift / DAY_MS)}d`,
+      offenders: [offender(candidate, pass ? "Delay carried to the finish" : "Delay absorbed before the finish")],
+    };
+  }
+  checks.push({
+    key: "critical-path-test",
+    label: "Critical path test",
+    description: `Adds ${CRITICAL_PATH_TEST_DELAY} days to the first critical activity; the project finish must slip by the same amount.`,
+    threshold: "finish slips fully",
+    ...cpTest,
+  });
+
+  // 13. CPLI: (critical path length + project float) / critical path length
+  const forecastFinish = finishOf(tasks);
+  const startMs = Number.isFinite(status) ? status : Math.min(...tasks.map((r) => dayMs(r.ES)).filter(Number.isFinite));
+  const baselineFinish = baselineOf
+    ? Math.max(...tasks.map((r) => baselineOf(r)?.finish ?? NaN).filter(Number.isFinite))
+    : NaN;
+  const cpl = (forecastFinish - startMs) / DAY_MS;
+  const projectFloat = Number.isFinite(baselineFinish)
+    ? (baselineFinish - forecastFinish) / DAY_MS
+    : Math.min(0, ...tasks.map(tf).filter(Number.isFinite));
+  const cpli = cpl > 0 ? (cpl + projectFloat) / cpl : NaN;
+  checks.push({
+    key: "cpli",
+    label: "CPLI",
+    description: "Critical path length index: (critical path length + project float) / critical path length.",
+    value: Number.isFinite(cpli) ? cpli.toFixed(2) : "n/a",
+    threshold: "≥ 0.95",
+    pass: Number.isFinite(cpli) ? cpli >= 0.95 : null,
+    offenders: Number.isFinite(cpli) && cpli < 0.95 ? incomplete.filter((r) => tf(r) <= 0).map((r) => offender(r, `TF ${tf(r)}d`)) : [],
+  });
+
+  const completed = dueByStatus.filter(isComplete).length;
+  const bei = dueByStatus.length ? completed / dueByStatus.length : NaN;
+  checks.push({
+    key: "bei",
+    label: "BEI",
+    description: "Baseline execution index: activities completed / activities baselined to finish by the data date.",
+    value: Number.isFinite(bei) ? bei.toFixed(2) : "n/a",
+    threshold: "≥ 0.95",
+    pass: Number.isFinite(bei) ? bei >= 0.95 : null,
+    offenders: missedCheck.offenders.filter((o) => o.detail === "Not finished"),
+  });
+
+  return {
+    checks,
+    passed: checks.filter((c) => c.pass === true).length,
+    failed: checks.filter((c) => c.pass === false).length,
+    assessed: checks.filter((c) => c.pass !== null).length,
+  };
+}
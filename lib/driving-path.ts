@@ -0,0 +1,142 @@
+import { DAY_MS, addWorkDays, dayMs, resolveCalendar, workDaysBetween } from "@/lib/calendars";
+import { normalizeActivityId } from "@/lib/cpm";
+import { csvCell } from "@/lib/utils";
+import type { CalendarSet, Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Driving-path trace
+ * - Relationship free float per FS/SS/FF/SF rule, in working days on the successor's calendar
+ * - Walks back from an activity through driving predecessors only (zero relationship free float)
+ * - Path rows in start order with the link each step drives, plus CSV serialisation
+ */
+
+export interface DrivenLink {
+  SuccID: string;
+  RelType: string;
+  Lag_d: number;
+  // Relationship free float, working days
+  rff: number;
+}
+
+export interface DrivingStep {
+  id: string;
+  // Links from the target back to this activity
+  depth: number;
+  drives: DrivenLink[];
+  TaskName: string;
+  ES: string | undefined;
+  EF: string | undefined;
+  TotalFloat_d: ScheduleRow["TotalFloat_d"];
+  __rowIndex: number | undefined;
+}
+
+/**
+ * @param rows schedule rows with ES/EF
+ * @param rels relationship edges
+ * @param targetId activity to trace back from
+ * @param calendars calendar set for working-day measurements
+ * @param finishInclusive imported finishes name the last working day; engine finishes are exclusive
+ */
+export function traceDrivingPath({
+  rows,
+  rels,
+  targetId,
+  calendars = null,
+  finishInclusive = false,
+}: {
+  rows: ScheduleRow[];
+  rels: Relationship[];
+  targetId: unknown;
+  calendars?: CalendarSet | null;
+  finishInclusive?: boolean;
+}): DrivingStep[] | null {
+  const target = normalizeActivityId(targetId);
+  const byId = new Map<string | undefined, ScheduleRow>();
+  rows.forEach((row) => {
+    const id = normalizeActivityId(row.ActivityID);
+    if (id !== undefined && !row.IsSummary) byId.set(id, row);
+  });
+  if (target === undefined || !byId.has(target)) return null;
+
+  const dates = new Map<string, { start: number; finish: number }>();
+  const datesOf = (id: string) => {
+    const known = dates.get(id);
+    if (known) return known;
+    const row = byId.get(id)!;
+    const start = dayMs(row.ES);
+    let finish = dayMs(row.EF);
+    const milestone = row.Milestone === true || Number(row.DurDays) === 0;
+    if (finishInclusive && !milestone && Number.isFinite(finish) && finish >= start) finish += DAY_MS;
+    const out = { start, finish: Number.isFinite(finish) ? finish : start };
+    dates.set(id, out);
+    return out;
+  };
+
+  const predLinks = new Map<string, Relationship[]>();
+  rels.forEach((rel) => {
+    const pred = normalizeActivityId(rel.PredID);
+    const succ = normalizeActivityId(rel.SuccID);
+    if (pred === undefined || succ === undefined || !byId.has(pred) || !byId.has(succ)) return;
+    const arr = predLinks.get(succ) || [];
+    arr.push({ ...rel, PredID: pred, SuccID: succ, RelType: String(rel.RelType || "FS").toUpperCase() });
+    predLinks.set(succ, arr);
+  });
+
+  const relationshipFloat = (link: Relationship) => {
+    const p = datesOf(link.PredID);
+    const s = datesOf(link.SuccID);
+    const cal = resolveCalendar(calendars, byId.get(link.SuccID)?.CalendarID);
+    const lag = Number(link.Lag_d) || 0;
+    const from = link.RelType === "SS" || link.RelType === "SF" ? p.start : p.finish;
+    const to = link.RelType === "FF" || link.RelType === "SF" ? s.finish : s.start;
+    return workDaysBetween(cal, addWorkDays(cal, from, lag), to);
+  };
+
+  // Breadth-first walk so each activity's depth is its shortest step count to the target
+  const steps = new Map<string, { id: string; depth: number; drives: DrivenLink[] }>([[target, { id: target, depth: 0, drives: [] }]]);
+  const queue = [target];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const link of predLinks.get(id) || []) {
+      const rff = relationshipFloat(link);
+      if (!Number.isFinite(rff) || Math.round(rff * 100) / 100 > 0) continue;
+      let step = steps.get(link.PredID);
+      if (!step) {
+        step = { id: link.PredID, depth: steps.get(id)!.depth + 1, drives: [] };
+        steps.set(link.PredID, step);
+        queue.push(link.PredID);
+      }
+      step.drives.push({ SuccID: link.SuccID, RelType: link.RelType, Lag_d: Number(link.Lag_d) || 0, rff });
+    }
+  }
+
+  return Array.from(steps.values())
+    .map((step): DrivingStep => {
+      const row = byId.get(step.id)!;
+      return {
+        ...step,
+        TaskName: row.TaskName ?? "",
+        ES: row.ES,
+        EF: row.EF,
+        TotalFloat_d: row.TotalFloat_d,
+        __rowIndex: row.__rowIndex,
+      };
+    })
+    .sort((a, b) => (dayMs(a.ES) || 0) - (dayMs(b.ES) || 0) || b.depth - a.depth);
+}
+
+export function drivingPathToCSV(path: DrivingStep[]): string {
+  const header = ["Step", "ActivityID", "TaskName", "ES", "EF", "TotalFloat_d", "Drives", "RelType", "Lag_d"];
+  const lines: string[] = [];
+  path.forEach((step, idx) => {
+    const drives: (DrivenLink | null)[] = step.drives.length ? step.drives : [null];
+    drives.forEach((d) => {
+      lines.push(
+        [idx + 1, step.id, step.TaskName, step.ES, step.EF, step.TotalFloat_d, d?.SuccID ?? "", d?.RelType ?? "", d ? d.Lag_d : ""]
+          .map(csvCell)
+          .join(",")
+      );
+    });
+  });
+  return [header.join(","), ...lines].join("\n");
+}
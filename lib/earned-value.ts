@@ -0,0 +1,219 @@
+import { DAY_MS, dayMs, resolveCalendar, workDayList } from "@/lib/calendars";
+import type { BaselineDates } from "@/lib/baseline";
+import type { Calendar, CalendarSet, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Earned value
+ * - Budget per activity in cost, hours or (where no budgets are loaded) duration-weighted units
+ * - PV from the baseline dates, EV from percent complete, AC from actual cost/hours, all at the data date
+ * - SV/CV, SPI/CPI, EAC (BAC / CPI), VAC and TCPI to the BAC
+ * - Weekly or monthly periods with cumulative S-curve values for baseline planned, current planned, earned and actual
+ */
+
+export const EV_MEASURES: { key: string; label: string; budget: string | null; actual: string | null }[] = [
+  { key: "cost", label: "Cost", budget: "BudgetCost", actual: "ActualCost" },
+  { key: "hours", label: "Hours", budget: "BudgetHours", actual: "ActualHours" },
+  { key: "duration", label: "Duration-weighted", budget: null, actual: null },
+];
+
+const positive = (value: unknown) => {
+  const n = Number(value);
+  return value !== "" && value !== null && value !== undefined && Number.isFinite(n) && n >= 0 ? n : NaN;
+};
+
+const floorDay = (ms: number) => Math.floor(ms / DAY_MS) * DAY_MS;
+
+// Measures the schedule carries budgets for, best first; duration weighting is always available
+export function availableMeasures(rows: ScheduleRow[]): string[] {
+  return EV_MEASURES.filter((m) => !m.budget || rows.some((r) => !r.IsSummary && positive(r[m.budget as string]) > 0)).map((m) => m.key);
+}
+
+function budgetOf(row: ScheduleRow, measure: string): number {
+  const m = EV_MEASURES.find((x) => x.key === measure) ?? EV_MEASURES[2];
+  if (!m.budget) return Math.max(0, Number(row.DurDays) || 0);
+  const b = positive(row[m.budget]);
+  return Number.isFinite(b) ? b : 0;
+}
+
+function actualOf(row: ScheduleRow, measure: string): number {
+  const m = EV_MEASURES.find((x) => x.key === measure);
+  return m?.actual ? positive(row[m.actual]) : NaN;
+}
+
+// Spreads amount evenly over the working days of [start, finish); zero-length spans land on their start day
+function spread(into: Map<number, number>, cal: Calendar, start: number, finish: number, amount: number) {
+  if (!(amount > 0) || !Number.isFinite(start)) return;
+  const days = Number.isFinite(finish) && finish > start ? workDayList(cal, start, finish) : [];
+  if (!days.length) {
+    const day = floorDay(start);
+    into.set(day, (into.get(day) ?? 0) + amount);
+    return;
+  }
+  const share = amount / days.length;
+  days.forEach((day) => into.set(day, (into.get(day) ?? 0) + share));
+}
+
+function periodStart(ms: number, period: string): number {
+  const d = new Date(ms);
+  if (period === "month") return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  return floorDay(ms) - ((d.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+function nextPeriod(ms: number, period: string): number {
+  const d = new Date(ms);
+  return period === "month" ? Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1) : ms + 7 * DAY_MS;
+}
+
+type EvSeriesKey = "planned" | "current" | "earned" | "actual";
+
+const ratio = (a: number, b: number) => (Number.isFinite(a) && Number.isFinite(b) && b !== 0 ? a / b : NaN);
+
+/**
+ * @param rows schedule rows (ES/EF, PctComplete, budgets, actuals)
+ * @param measure "cost" | "hours" | "duration"
+ * @param dataDate ISO day or ms; progress and actuals are taken as of this date
+ * @param finishInclusive whether EF is inclusive (imported) rather than engine output
+ * @param baselineOf (row) => { start, finish } with an inclusive finish, or null to plan against the current dates
+ * @param period "week" | "month", or "auto" (weeks up to about six months)
+ */
+export function earnedValue(
+  rows: ScheduleRow[],
+  {
+    measure = "cost",
+    dataDate,
+    calendars = null,
+    finishInclusive = false,
+    baselineOf = null,
+    period = "auto",
+  }: {
+    measure?: string;
+    dataDate?: string | number;
+    calendars?: CalendarSet | null;
+    finishInclusive?: boolean;
+    baselineOf?: ((row: ScheduleRow) => BaselineDates | null) | null;
+    period?: string;
+  } = {}
+) {
+  const statusDate = dayMs(dataDate);
+  if (!Number.isFinite(statusDate)) return null;
+  const planned = new Map<number, number>();
+  const current = new Map<number, number>();
+  const earned = new Map<number, number>();
+  const actual = new Map<number, number>();
+  let bac = 0;
+  let ev = 0;
+  let ac = 0;
+  let hasActuals = false;
+  let min = Infinity;
+  let max = -Infinity;
+
+  rows.forEach((row) => {
+    if (row.IsSummary) return;
+    const budget = budgetOf(row, measure);
+    const cal = resolveCalendar(calendars, row.CalendarID);
+    const milestone = row.Milestone === true || Number(row.DurDays) === 0;
+    const es = dayMs(row.ES);
+    let ef = dayMs(row.EF);
+    if (finishInclusive && !milestone && Number.isFinite(ef)) ef += DAY_MS;
+    if (!Number.isFinite(es)) return;
+    const base = baselineOf?.(row);
+    const bs = base && Number.isFinite(base.start) ? base.start : es;
+    const bf = base && Number.isFinite(base.finish) ? (milestone ? base.finish : base.finish + DAY_MS) : ef;
+    [es, ef, bs, bf].forEach((t) => {
+      if (Number.isFinite(t)) {
+        min = Math.min(min, t);
+        max = Math.max(max, t);
+      }
+    });
+    bac += budget;
+    spread(planned, cal, bs, bf, budget);
+    spread(current, cal, es, ef, budget);
+
+    // Earned and spent between the actual start (else the planned start) and the actual finish or data date
+    const pct = Math.max(0, Math.min(100, Number(row.PctComplete) || 0));
+    const value = (budget * pct) / 100;
+    const cost = actualOf(row, measure);
+    if (Number.isFinite(cost)) hasActuals = true;
+    if (!(value > 0) && !(cost > 0)) return;
+    const from = Number.isFinite(dayMs(row.ActualStart)) ? dayMs(row.ActualStart) : es;
+    const af = dayMs(row.ActualFinish);
+    const to = Number.isFinite(af) ? af + DAY_MS : statusDate;
+    const start = Math.min(from, statusDate);
+    ev += value;
+    spread(earned, cal, start, Math.max(start, to), value);
+    if (cost > 0) {
+      ac += cost;
+      spread(actual, cal, start, Math.max(start, to), cost);
+    }
+  });
+  if (!Number.isFinite(min)) return null;
+  min = Math.min(min, statusDate);
+  max = Math.max(max, statusDate);
+
+  // PV: baseline planned work due before the data date (remaining work resumes on it)
+  let pv = 0;
+  planned.forEach((amount, day) => {
+    if (day < statusDate) pv += amount;
+  });
+  const spi = ratio(ev, pv);
+  const cpi = hasActuals ? ratio(ev, ac) : NaN;
+  const eac = ratio(bac, cpi);
+
+  const unit = period === "auto" ? (max - min <= 183 * DAY_MS ? "week" : "month") : period;
+  const series: {
+    start: number;
+    end: number;
+    period: Record<EvSeriesKey, number>;
+    cumPlanned: number;
+    cumCurrent: number;
+    cumEarned: number | null;
+    cumActual: number | null;
+  }[] = [];
+  const totals: Record<EvSeriesKey, number> = { planned: 0, current: 0, earned: 0, actual: 0 };
+  const sum = (map: Map<number, number>, from: number, to: number) => {
+    let s = 0;
+    map.forEach((amount, day) => {
+      if (day >= from && day < to) s += amount;
+    });
+    return s;
+  };
+  for (let p = periodStart(min, unit), guard = 0; p <= max && guard < 2000; p = nextPeriod(p, unit), guard++) {
+    const end = nextPeriod(p, unit);
+    const slice: Record<EvSeriesKey, number> = {
+      planned: sum(planned, p, end),
+      current: sum(current, p, end),
+      earned: sum(earned, p, end),
+      actual: sum(actual, p, end),
+    };
+    (Object.keys(totals) as EvSeriesKey[]).forEach((k) => (totals[k] += slice[k]));
+    const reported = p <= statusDate;
+    series.push({
+      start: p,
+      end,
+      period: slice,
+      cumPlanned: totals.planned,
+      cumCurrent: totals.current,
+      // Earned and actual curves stop at the data date
+      cumEarned: reported ? totals.earned : null,
+      cumActual: reported && hasActuals ? totals.actual : null,
+    });
+  }
+
+  return {
+    measure,
+    statusDate,
+    period: unit,
+    bac,
+    pv,
+    ev,
+    ac: hasActuals ? ac : NaN,
+    sv: ev - pv,
+    cv: hasActuals ? ev - ac : NaN,
+    spi,
+    cpi,
+    eac,
+    vac: bac - eac,
+    tcpi: hasActuals ? ratio(bac - ev, bac - ac) : NaN,
+    series,
+  };
+}
@@ -0,0 +1,321 @@
+import { DAY_MS, dayMs, resolveCalendar, workDaysBetween } from "@/lib/calendars";
+import { normalizeActivityId, toISODate } from "@/lib/cpm";
+import type { ActivityImpact, CalendarSet, Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Fragnets (time impact analysis)
+ * - A scenario's fragnet: new activities (duration, calendar) and relationship edits (add, remove, retype or re-lag)
+ * - Applied to a copy of the network before the CPM run; new activities sit next to their first linked activity
+ * - Before/after dates and float of chosen milestones against the unimpacted run
+ * - A printable impact summary (standalone HTML)
+ */
+
+export const LINK_ACTIONS = [
+  { key: "add", label: "Add" },
+  { key: "remove", label: "Remove" },
+  { key: "change", label: "Change type / lag" },
+];
+
+export const LINK_TYPES = ["FS", "SS", "FF", "SF"];
+
+// Fields as entered in the fragnet editor; applyFragnet validates and normalizes them
+export interface FragnetActivity {
+  ActivityID: unknown;
+  TaskName?: string;
+  DurDays: unknown;
+  CalendarID?: string;
+}
+
+export interface FragnetLink {
+  action: "add" | "remove" | "change";
+  PredID: unknown;
+  SuccID: unknown;
+  RelType?: string;
+  Lag_d?: unknown;
+}
+
+export interface Fragnet {
+  activities?: FragnetActivity[];
+  links?: FragnetLink[];
+}
+
+export interface MilestoneImpact {
+  id: string;
+  name: string;
+  beforeStart: string | undefined;
+  beforeFinish: string | undefined;
+  beforeFloat: number;
+  afterStart: string | undefined;
+  afterFinish: string | undefined;
+  afterFloat: number;
+  finishDelta: number;
+  floatDelta: number;
+}
+
+export interface ImpactReport {
+  milestones: MilestoneImpact[];
+  project: { before: string | undefined; after: string | undefined; delta: number };
+}
+
+export function fragnetSize(fragnet: Fragnet | null | undefined): number {
+  return (fragnet?.activities?.length ?? 0) + (fragnet?.links?.length ?? 0);
+}
+
+const relKey = (predId: string | undefined, succId: string | undefined) => `${predId}->${succId}`;
+
+const relType = (value: unknown) => {
+  const t = String(value ?? "FS").trim().toUpperCase();
+  return LINK_TYPES.includes(t) ? t : "FS";
+};
+
+const lagOf = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * @param rows prepared schedule rows (with __rowIndex)
+ * @param rels normalized relationships { PredID, SuccID, RelType, Lag_d }
+ * @param fragnet { activities: [{ ActivityID, TaskName, DurDays, CalendarID }],
+ *   links: [{ action: "add" | "remove" | "change", PredID, SuccID, RelType, Lag_d }] }
+ * @returns { rows, rels, errors } with new rows marked __fragnet; rows/rels are unchanged when there are errors
+ */
+export function applyFragnet(
+  rows: ScheduleRow[],
+  rels: Relationship[],
+  fragnet: Fragnet | null | undefined
+): { rows: ScheduleRow[]; rels: Relationship[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!fragnet || !fragnetSize(fragnet)) return { rows, rels, errors };
+  const existing = new Map<string | undefined, ScheduleRow>();
+  rows.forEach((row) => {
+    const id = normalizeActivityId(row.ActivityID);
+    if (id !== undefined) existing.set(id, row);
+  });
+
+  const added: { ActivityID: string; TaskName?: string; DurDays: number; CalendarID?: string }[] = [];
+  const addedIds = new Set<string>();
+  (fragnet.activities ?? []).forEach((activity, idx) => {
+    const id = normalizeActivityId(activity.ActivityID);
+    const dur = Number(activity.DurDays);
+    if (id === undefined) errors.push(`New activity ${idx + 1} has no Activity ID.`);
+    else if (existing.has(id) || addedIds.has(id)) errors.push(`Activity ID ${id} is already in use.`);
+    else if (!Number.isFinite(dur) || dur < 0) errors.push(`New activity ${id} needs a duration of zero or more days.`);
+    else {
+      addedIds.add(id);
+      added.push({ ...activity, ActivityID: id, DurDays: dur });
+    }
+  });
+
+  const known = (id: string) => addedIds.has(id) || (existing.has(id) && !existing.get(id)?.IsSummary);
+  const byKey = new Map(rels.map((rel) => [relKey(rel.PredID, rel.SuccID), rel]));
+  (fragnet.links ?? []).forEach((link) => {
+    const predId = normalizeActivityId(link.PredID);
+    const succId = normalizeActivityId(link.SuccID);
+    const key = relKey(predId, succId);
+    const text = `${predId ?? "?"} → ${succId ?? "?"}`;
+    if (predId === undefined || succId === undefined || predId === succId) {
+      errors.push(`Link ${text} needs two different activities.`);
+      return;
+    }
+    if (!known(predId) || !known(succId)) {
+      const missing = known(predId) ? succId : predId;
+      errors.push(`Link ${text}: ${missing} is not a schedulable activity${existing.get(missing)?.IsSummary ? " (it is a summary)" : ""}.`);
+      return;
+    }
+    if (link.action === "add") {
+      if (byKey.has(key)) errors.push(`Link ${text} already exists; change it instead.`);
+      else byKey.set(key, { PredID: predId, SuccID: succId, RelType: relType(link.RelType), Lag_d: lagOf(link.Lag_d) });
+    } else if (!byKey.has(key)) {
+      errors.push(`Link ${text} is not in the schedule.`);
+    } else if (link.action === "remove") {
+      byKey.delete(key);
+    } else {
+      byKey.set(key, { ...byKey.get(key)!, RelType: relType(link.RelType), Lag_d: lagOf(link.Lag_d) });
+    }
+  });
+  if (errors.length) return { rows, rels, errors };
+
+  // Each new activity goes after its first predecessor (else before its first successor, else at the end),
+  // taking that row's WBS level so the summary hierarchy around it is unchanged
+  const nextRels = Array.from(byKey.values());
+  const out = rows.slice();
+  let rowIndex = rows.reduce((max, row) => Math.max(max, Number(row.__rowIndex) || 0), -1);
+  added.forEach((activity) => {
+    const position = (id: string) => out.findIndex((row) => normalizeActivityId(row.ActivityID) === id);
+    const pred = nextRels.find((rel) => rel.SuccID === activity.ActivityID && position(rel.PredID) >= 0);
+    const succ = !pred && nextRels.find((rel) => rel.PredID === activity.ActivityID && position(rel.SuccID) >= 0);
+    const anchorAt = pred ? position(pred.PredID) : succ ? position(succ.SuccID) : -1;
+    const anchor = anchorAt >= 0 ? out[anchorAt] : null;
+    const row: ScheduleRow = {
+      ActivityID: activity.ActivityID,
+      TaskName: String(activity.TaskName ?? "").trim() || `Fragnet ${activity.ActivityID}`,
+      DurDays: activity.DurDays,
+      Milestone: activity.DurDays === 0,
+      ...(activity.CalendarID ? { CalendarID: activity.CalendarID } : {}),
+      ...(anchor?.WBSLevel !== undefined ? { WBSLevel: anchor.WBSLevel } : {}),
+      IsSummary: false,
+      __fragnet: true,
+      __rowIndex: ++rowIndex,
+    };
+    if (anchorAt < 0) out.push(row);
+    else out.splice(pred ? anchorAt + 1 : anchorAt, 0, row);
+  });
+  return { rows: out, rels: nextRels, errors };
+}
+
+const isMilestone = (row: ScheduleRow) => row.Milestone === true || Number(row.DurDays) === 0;
+
+// Engine finishes are exclusive; reports name the last working day
+const reportFinish = (row: ScheduleRow | null | undefined) => {
+  const ef = dayMs(row?.EF);
+  if (!Number.isFinite(ef)) return "";
+  return toISODate(row && isMilestone(row) ? ef : ef - DAY_MS);
+};
+
+const floatOf = (row: ScheduleRow | null | undefined) => {
+  const n = Number(row?.TotalFloat_d);
+  return row && row.TotalFloat_d !== undefined && row.TotalFloat_d !== null && row.TotalFloat_d !== "" && Number.isFinite(n) ? n : NaN;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Latest-finishing activity of engine rows; a finish milestone wins a tie with the task it closes
+export function projectFinish(rows: ScheduleRow[]): ScheduleRow | null {
+  let last: ScheduleRow | null = null;
+  rows.forEach((row) => {
+    const ef = dayMs(row.EF);
+    if (row.IsSummary || !Number.isFinite(ef)) return;
+    const lastEf = last ? dayMs(last.EF) : -Infinity;
+    if (!last || ef > lastEf || (ef === lastEf && isMilestone(row))) last = row;
+  });
+  return last;
+}
+
+/**
+ * @param before engine rows without the scenario (the unimpacted network)
+ * @param after engine rows with the scenario's impacts and fragnet
+ * @param milestoneIds activities to report on
+ * @returns { milestones: [{ id, name, beforeStart, beforeFinish, beforeFloat, afterStart, afterFinish, afterFloat,
+ *   finishDelta, floatDelta }], project: { before, after, delta } } with deltas in working days
+ */
+export function milestoneImpact(
+  before: ScheduleRow[],
+  after: ScheduleRow[],
+  milestoneIds: string[],
+  calendars: CalendarSet | null = null
+): ImpactReport {
+  const index = (rows: ScheduleRow[]) => new Map(rows.map((row) => [normalizeActivityId(row.ActivityID), row]));
+  const was = index(before);
+  const now = index(after);
+  const milestones = milestoneIds
+    .map((id): MilestoneImpact | null => {
+      const b = was.get(id);
+      const a = now.get(id);
+      if (!b && !a) return null;
+      const cal = resolveCalendar(calendars, (a ?? b)?.CalendarID);
+      const finishDelta = workDaysBetween(cal, dayMs(b?.EF), dayMs(a?.EF));
+      const floatDelta = floatOf(a) - floatOf(b);
+      return {
+        id,
+        name: (a ?? b)?.TaskName ?? "",
+        beforeStart: b?.ES ? toISODate(dayMs(b.ES)) : "",
+        beforeFinish: reportFinish(b),
+        beforeFloat: floatOf(b),
+        afterStart: a?.ES ? toISODate(dayMs(a.ES)) : "",
+        afterFinish: reportFinish(a),
+        afterFloat: floatOf(a),
+        finishDelta: Number.isFinite(finishDelta) ? round2(finishDelta) : NaN,
+        floatDelta: Number.isFinite(floatDelta) ? round2(floatDelta) : NaN,
+      };
+    })
+    .filter((m): m is MilestoneImpact => m !== null);
+  const pb = projectFinish(before);
+  const pa = projectFinish(after);
+  const delta = workDaysBetween(resolveCalendar(calendars, null), dayMs(pb?.EF), dayMs(pa?.EF));
+  return {
+    milestones,
+    project: {
+      before: reportFinish(pb),
+      after: reportFinish(pa),
+      delta: Number.isFinite(delta) ? round2(delta) : NaN,
+    },
+  };
+}
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+const escapeHtml = (value: unknown) => String(value ?? "").replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+
+const signed = (n: number) => (Number.isFinite(n) ? `${n > 0 ? "+" : ""}${n}d` : "—");
+const days = (n: number) => (Number.isFinite(n) ? `${n}d` : "—");
+
+const table = (head: string[], body: unknown[][]) =>
+  `<table><thead><tr>${head.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead><tbody>${
+    body.length
+      ? body.map((cells) => `<tr>${cells.map((c) => `<td>${escapeHtml(c)}</td>`).join("")}</tr>`).join("")
+      : `<tr><td colspan="${head.length}">None</td></tr>`
+  }</tbody></table>`;
+
+/**
+ * Standalone HTML page (prints itself on open) describing the scenario and its milestone impacts.
+ * @param report result of milestoneImpact
+ * @param scenario { title, impacts, fragnet }
+ * @param details extra header lines (file name, data date, ...)
+ */
+export function impactSummaryHTML(
+  report: ImpactReport,
+  scenario: { title?: string; impacts?: ActivityImpact[]; fragnet?: Fragnet | null } | null | undefined,
+  details: string[] = []
+): string {
+  const fragnet: Fragnet = scenario?.fragnet ?? {};
+  const title = `Time impact analysis — ${scenario?.title ?? "Scenario"}`;
+  const sections = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    details.length ? `<p class="meta">${details.map(escapeHtml).join(" · ")}</p>` : "",
+    `<p><strong>Project finish:</strong> ${escapeHtml(report.project.before || "—")} → ${escapeHtml(report.project.after || "—")} (${escapeHtml(
+      signed(report.project.delta)
+    )})</p>`,
+    "<h2>Milestone impact</h2>",
+    table(
+      ["Activity", "Name", "Finish before", "Finish after", "Δ finish", "Float before", "Float after", "Δ float"],
+      report.milestones.map((m) => [
+        m.id,
+        m.name,
+        m.beforeFinish || "—",
+        m.afterFinish || "—",
+        signed(m.finishDelta),
+        days(m.beforeFloat),
+        days(m.afterFloat),
+        signed(m.floatDelta),
+      ])
+    ),
+    "<h2>Fragnet activities</h2>",
+    table(
+      ["Activity", "Name", "Duration", "Calendar"],
+      (fragnet.activities ?? []).map((a) => [a.ActivityID, a.TaskName ?? "", days(Number(a.DurDays)), a.CalendarID || "Project default"])
+    ),
+    "<h2>Relationship changes</h2>",
+    table(
+      ["Change", "Predecessor", "Successor", "Type", "Lag"],
+      (fragnet.links ?? []).map((l) => [
+        LINK_ACTIONS.find((x) => x.key === l.action)?.label ?? l.action,
+        l.PredID,
+        l.SuccID,
+        l.action === "remove" ? "" : relType(l.RelType),
+        l.action === "remove" ? "" : days(lagOf(l.Lag_d)),
+      ])
+    ),
+    "<h2>Duration adjustments</h2>",
+    table(
+      ["Activity", "Change"],
+      (scenario?.impacts ?? []).map((i) => [i.activityId, signed(Number(i.deltaDays))])
+    ),
+  ];
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+body{font-family:system-ui,sans-serif;font-size:12px;color:#0f172a;margin:24px}
+h1{font-size:18px;margin:0 0 4px}h2{font-size:14px;margin:18px 0 6px}.meta{color:#64748b;margin:0 0 12px}
+table{border-collapse:collapse;width:100%}th,td{border:1px solid #cbd5e1;padding:4px 6px;text-align:left}th{background:#f1f5f9}
+@page{margin:12mm}
+</style></head><body>${sections.join("")}<script>window.onload=function(){window.print()}</script></body></html>`;
+}
@@ -0,0 +1,512 @@
+import { baselineBarFinish } from "@/lib/baseline";
+import { DAY_MS, dayMs } from "@/lib/calendars";
+import { normalizeActivityId } from "@/lib/cpm";
+import { wbsLinkId } from "@/lib/wbs-tree";
+import type { BaselineDates } from "@/lib/baseline";
+import type { Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Print layout for the Gantt
+ * - Lays the whole chart (every row, full timescale) out as vector primitives: rects, lines, paths, text
+ * - One tall sheet for SVG, or pages with a repeated timescale, title block, legend and page numbers
+ * - Serialises to standalone SVG or to a PDF built here (Helvetica, no font embedding)
+ */
+
+export const PAPER_SIZES = [
+  { key: "A4", label: "A4", width: 595, height: 842 },
+  { key: "A3", label: "A3", width: 842, height: 1191 },
+  { key: "A2", label: "A2", width: 1191, height: 1684 },
+  { key: "A1", label: "A1", width: 1684, height: 2384 },
+  { key: "Letter", label: "Letter", width: 612, height: 792 },
+  { key: "Tabloid", label: "Tabloid (11×17)", width: 792, height: 1224 },
+];
+
+export interface PrintOptions {
+  // Rows in display order
+  rows: ScheduleRow[];
+  rels?: Relationship[];
+  showLinks?: boolean;
+  title?: string;
+  details?: string[];
+  dataDate?: string | null;
+  threshold?: number;
+  baselineOf?: ((row: ScheduleRow) => BaselineDates | null) | null;
+  finishInclusive?: boolean;
+  depthOf?: (row: ScheduleRow) => number;
+}
+
+type PathCommand = [string, ...number[]];
+
+export type SceneItem =
+  | { type: "rect"; x: number; y: number; w: number; h: number; fill?: string; stroke?: string }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; stroke: string; width?: number; dash?: number[] }
+  | { type: "path"; d: PathCommand[]; fill?: string; stroke?: string; width?: number }
+  | { type: "text"; x: number; y: number; text: string; size: number; bold?: boolean; fill?: string; anchor?: "end" | "middle" };
+
+export interface Scene {
+  width: number;
+  height: number;
+  items: SceneItem[];
+}
+
+interface Layout {
+  domain: { min: number; max: number };
+  labelWidth: number;
+  chartX0: number;
+  chartX1: number;
+  scaleX: (t: number) => number;
+  axis: { ticks: number[]; fmt: (t: number) => string };
+}
+
+const COLORS = {
+  critical: "#ef4444",
+  near: "#f59e0b",
+  normal: "#3b82f6",
+  summary: "#111827",
+  baseline: "#64748b",
+  dataDate: "#111827",
+  grid: "#e2e8f0",
+  header: "#f1f5f9",
+  stripe: "#f8fafc",
+  text: "#111827",
+  muted: "#64748b",
+};
+const LINK_COLORS: Record<string, string> = { FS: "#7c3aed", SS: "#10b981", FF: "#06b6d4", SF: "#f97316" };
+const MARGIN = 24;
+const TITLE_HEIGHT = 46;
+const HEADER_HEIGHT = 24;
+const FOOTER_HEIGHT = 16;
+
+export function paperDimensions(key: string, orientation = "landscape"): { width: number; height: number } {
+  const paper = PAPER_SIZES.find((p) => p.key === key) ?? PAPER_SIZES[1];
+  const [short, long] = [Math.min(paper.width, paper.height), Math.max(paper.width, paper.height)];
+  return orientation === "portrait" ? { width: short, height: long } : { width: long, height: short };
+}
+
+// Lighter tint of a colour, standing in for the on-screen bar opacity (PDF has no alpha here)
+function tint(hex: string, amount: number): string {
+  const n = parseInt(hex.slice(1), 16);
+  const mix = (c: number) => Math.round(c + (255 - c) * amount);
+  const r = mix((n >> 16) & 255);
+  const g = mix((n >> 8) & 255);
+  const b = mix(n & 255);
+  return `#${((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1)}`;
+}
+
+// Helvetica advance widths, roughly, so labels can be fitted without a font file
+export function textWidth(text: unknown, size: number): number {
+  let w = 0;
+  for (const ch of String(text)) {
+    if (/[ilIjtf.,:;|!' ]/.test(ch)) w += 0.28;
+    else if (/[mwMW]/.test(ch)) w += 0.85;
+    else if (/[A-Z]/.test(ch)) w += 0.67;
+    else if (/[0-9]/.test(ch)) w += 0.556;
+    else w += 0.5;
+  }
+  return w * size;
+}
+
+function fitText(text: unknown, size: number, maxWidth: number): string {
+  const s = String(text ?? "");
+  if (textWidth(s, size) <= maxWidth) return s;
+  let out = s;
+  while (out.length && textWidth(out + "…", size) > maxWidth) out = out.slice(0, -1);
+  return out ? out + "…" : "";
+}
+
+// Timescale ticks (UTC days) spaced so labels stay apart at this scale
+function buildTicks(min: number, max: number, pxPerDay: number): Layout["axis"] {
+  const d = new Date(min);
+  d.setUTCHours(0, 0, 0, 0);
+  const ticks: number[] = [];
+  const step = (mode: string) => {
+    if (mode === "day") d.setUTCDate(d.getUTCDate() + 1);
+    else if (mode === "week") d.setUTCDate(d.getUTCDate() + 7);
+    else if (mode === "month") d.setUTCMonth(d.getUTCMonth() + 1);
+    else if (mode === "quarter") d.setUTCMonth(d.getUTCMonth() + 3);
+    else d.setUTCFullYear(d.getUTCFullYear() + 1);
+  };
+  const mode =
+    pxPerDay >= 22 ? "day" : pxPerDay * 7 >= 44 ? "week" : pxPerDay * 30 >= 40 ? "month" : pxPerDay * 91 >= 40 ? "quarter" : "year";
+  if (mode === "week") d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (mode === "month") d.setUTCDate(1);
+  if (mode === "quarter") d.setUTCMonth(Math.floor(d.getUTCMonth() / 3) * 3, 1);
+  if (mode === "year") d.setUTCMonth(0, 1);
+  while (d.getTime() <= max) {
+    ticks.push(d.getTime());
+    step(mode);
+  }
+  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  const fmt = (t: number) => {
+    const x = new Date(t);
+    const yy = String(x.getUTCFullYear()).slice(-2);
+    if (mode === "day") return `${String(x.getUTCDate()).padStart(2, "0")} ${months[x.getUTCMonth()]}`;
+    if (mode === "week") return `${String(x.getUTCDate()).padStart(2, "0")} ${months[x.getUTCMonth()]} ${yy}`;
+    if (mode === "month") return `${months[x.getUTCMonth()]} ${yy}`;
+    if (mode === "quarter") return `Q${Math.floor(x.getUTCMonth() / 3) + 1} ${yy}`;
+    return String(x.getUTCFullYear());
+  };
+  return { ticks, fmt };
+}
+
+function scheduleDomain(rows: ScheduleRow[], dataDate: unknown): Layout["domain"] | null {
+  let min = Infinity;
+  let max = -Infinity;
+  rows.forEach((r) => {
+    const es = dayMs(r.ES);
+    const ef = dayMs(r.EF);
+    if (Number.isFinite(es)) min = Math.min(min, es);
+    if (Number.isFinite(ef)) max = Math.max(max, ef);
+  });
+  const dd = dayMs(dataDate);
+  if (Number.isFinite(dd)) {
+    min = Math.min(min, dd);
+    max = Math.max(max, dd);
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+  const pad = Math.max(DAY_MS * 2, (max - min) * 0.02);
+  return { min: min - pad, max: max + pad };
+}
+
+/**
+ * @param opts.rows rows in display order
+ * @param opts.title file / project name; opts.details extra title-block lines
+ * @param opts.threshold near-critical total float
+ * @param opts.baselineOf (row) => { start, finish } or null, for thin baseline bars
+ * @param opts.finishInclusive whether row finishes are inclusive (imported) rather than engine output
+ */
+function createLayout(opts: PrintOptions, width: number): Layout {
+  const { rows, dataDate } = opts;
+  const domain = scheduleDomain(rows, dataDate) ?? { min: Date.now(), max: Date.now() + 30 * DAY_MS };
+  const labelWidth = Math.min(260, (width - 2 * MARGIN) * 0.3);
+  const chartX0 = MARGIN + labelWidth;
+  const chartX1 = width - MARGIN - 36;
+  const scaleX = (t: number) => chartX0 + ((t - domain.min) / (domain.max - domain.min)) * (chartX1 - chartX0);
+  const pxPerDay = ((chartX1 - chartX0) / (domain.max - domain.min)) * DAY_MS;
+  return { domain, labelWidth, chartX0, chartX1, scaleX, axis: buildTicks(domain.min, domain.max, pxPerDay) };
+}
+
+function drawTitleBlock(items: SceneItem[], opts: PrintOptions, width: number, pageLabel: string | null) {
+  const top = MARGIN;
+  items.push({ type: "rect", x: MARGIN, y: top, w: width - 2 * MARGIN, h: TITLE_HEIGHT - 6, fill: "#ffffff", stroke: COLORS.grid });
+  items.push({ type: "text", x: MARGIN + 8, y: top + 16, text: fitText(opts.title, 12, width * 0.45), size: 12, bold: true, fill: COLORS.text });
+  (opts.details ?? []).slice(0, 2).forEach((line, idx) => {
+    items.push({ type: "text", x: MARGIN + 8, y: top + 27 + idx * 9, text: fitText(line, 7.5, width * 0.45), size: 7.5, fill: COLORS.muted });
+  });
+  // Legend, right-aligned
+  const legend: [string, string][] = [
+    ["Critical", COLORS.critical],
+    ["Near-critical", COLORS.near],
+    ["Non-critical", COLORS.normal],
+    ["Summary", COLORS.summary],
+    ...(opts.baselineOf ? [["Baseline", COLORS.baseline] as [string, string]] : []),
+  ];
+  let x = width - MARGIN - 8;
+  for (let i = legend.length - 1; i >= 0; i--) {
+    const [label, color] = legend[i];
+    const w = textWidth(label, 7.5);
+    x -= w;
+    items.push({ type: "text", x, y: top + 18, text: label, size: 7.5, fill: COLORS.text });
+    x -= 12;
+    items.push({ type: "rect", x, y: top + 11, w: 9, h: 8, fill: color });
+    x -= 12;
+  }
+  if (pageLabel) {
+    items.push({ type: "text", x: width - MARGIN - 8, y: top + 32, text: pageLabel, size: 7.5, fill: COLORS.muted, anchor: "end" });
+  }
+}
+
+function drawHeader(items: SceneItem[], layout: Layout, top: number) {
+  const { chartX0, chartX1, scaleX, axis } = layout;
+  items.push({ type: "rect", x: MARGIN, y: top, w: chartX1 + 36 - MARGIN, h: HEADER_HEIGHT, fill: COLORS.header });
+  items.push({ type: "text", x: MARGIN + 4, y: top + 15, text: "ID", size: 7.5, bold: true, fill: COLORS.text });
+  items.push({ type: "text", x: MARGIN + 50, y: top + 15, text: "Activity", size: 7.5, bold: true, fill: COLORS.text });
+  let lastLabel = -Infinity;
+  axis.ticks.forEach((t) => {
+    const x = scaleX(t);
+    if (x < chartX0 || x > chartX1) return;
+    items.push({ type: "line", x1: x, y1: top, x2: x, y2: top + HEADER_HEIGHT, stroke: COLORS.grid, width: 0.5 });
+    const label = axis.fmt(t);
+    if (x - lastLabel >= textWidth(label, 7) + 6) {
+      items.push({ type: "text", x: x + 2, y: top + 15, text: label, size: 7, fill: COLORS.text });
+      lastLabel = x;
+    }
+  });
+}
+
+function drawRows(items: SceneItem[], layout: Layout, opts: PrintOptions, slice: ScheduleRow[], top: number, rowHeight: number) {
+  const { scaleX, labelWidth, chartX0, chartX1 } = layout;
+  const font = Math.max(4, Math.min(8, rowHeight * 0.55));
+  const index = new Map<string | undefined, number>();
+  slice.forEach((row, k) => {
+    const y = top + k * rowHeight;
+    index.set(wbsLinkId(row, k), k);
+    if (k % 2 === 1) items.push({ type: "rect", x: MARGIN, y, w: chartX1 + 36 - MARGIN, h: rowHeight, fill: COLORS.stripe });
+    const textY = y + rowHeight / 2 + font * 0.35;
+    items.push({ type: "text", x: MARGIN + 4, y: textY, text: fitText(row.ActivityID ?? "", font, 44), size: font, fill: COLORS.text });
+    const indent = Math.min(40, (opts.depthOf?.(row) ?? 0) * 6);
+    items.push({
+      type: "text",
+      x: MARGIN + 50 + indent,
+      y: textY,
+      text: fitText(row.TaskName ?? "", font, labelWidth - 54 - indent),
+      size: font,
+      bold: Boolean(row.IsSummary),
+      fill: COLORS.text,
+    });
+  });
+
+  // Timescale grid over the row stripes
+  const bottom = top + slice.length * rowHeight;
+  layout.axis.ticks.forEach((t) => {
+    const x = scaleX(t);
+    if (x >= chartX0 && x <= chartX1) items.push({ type: "line", x1: x, y1: top, x2: x, y2: bottom, stroke: COLORS.grid, width: 0.5 });
+  });
+
+  // Links behind bars, only between rows on this page
+  if (opts.showLinks) {
+    (opts.rels ?? []).forEach((e) => {
+      const i1 = index.get(normalizeActivityId(e.PredID));
+      const i2 = index.get(normalizeActivityId(e.SuccID));
+      if (i1 == null || i2 == null) return;
+      const a = slice[i1];
+      const b = slice[i2];
+      const rt = String(e.RelType || "FS").toUpperCase();
+      const xStart = scaleX(dayMs(rt === "SS" || rt === "SF" ? a.ES : a.EF));
+      const xEnd = scaleX(dayMs(rt === "FF" || rt === "SF" ? b.EF : b.ES));
+      const yStart = top + i1 * rowHeight + rowHeight / 2;
+      const yEnd = top + i2 * rowHeight + rowHeight / 2;
+      if (![xStart, xEnd].every(Number.isFinite)) return;
+      const midX = (xStart + xEnd) / 2;
+      items.push({
+        type: "path",
+        d: [
+          ["M", xStart, yStart],
+          ["C", midX, yStart, midX, yEnd, xEnd, yEnd],
+        ],
+        stroke: LINK_COLORS[rt] ?? COLORS.muted,
+        width: 0.6,
+      });
+    });
+  }
+
+  slice.forEach((row, k) => {
+    const y = top + k * rowHeight;
+    const es = dayMs(row.ES);
+    const ef = dayMs(row.EF);
+    if (!Number.isFinite(es)) return;
+    const x1 = scaleX(es);
+    const x2 = Number.isFinite(ef) ? scaleX(ef) : x1;
+    const tf = Number(row.TotalFloat_d);
+    const color = row.IsSummary
+      ? COLORS.summary
+      : tf <= 0
+      ? COLORS.critical
+      : tf <= Number(opts.threshold ?? 5)
+      ? COLORS.near
+      : COLORS.normal;
+    const barH = rowHeight * 0.5;
+    const barY = y + (rowHeight - barH) / 2 - rowHeight * 0.06;
+    const milestone = !row.IsSummary && (row.Milestone === true || Number(row.DurDays) === 0);
+
+    const base = opts.baselineOf?.(row);
+    if (base && Number.isFinite(base.start)) {
+      const bx1 = scaleX(base.start);
+      const bx2 = Number.isFinite(base.finish) ? scaleX(baselineBarFinish(row, base, opts.finishInclusive)) : bx1;
+      items.push({ type: "rect", x: bx1, y: y + rowHeight * 0.78, w: Math.max(1.5, bx2 - bx1), h: Math.max(1, rowHeight * 0.1), fill: COLORS.baseline });
+    }
+
+    if (milestone) {
+      const r = barH / 2;
+      const cy = barY + barH / 2;
+      items.push({
+        type: "path",
+        d: [["M", x1, cy - r], ["L", x1 + r, cy], ["L", x1, cy + r], ["L", x1 - r, cy], ["Z"]],
+        fill: color,
+      });
+      return;
+    }
+    if (row.IsSummary) {
+      const h = Math.max(1.5, barH / 3);
+      items.push({ type: "rect", x: x1, y: barY + (barH - h) / 2, w: Math.max(1.5, x2 - x1), h, fill: color });
+      return;
+    }
+    const w = Math.max(1.5, x2 - x1);
+    items.push({ type: "rect", x: x1, y: barY, w, h: barH, fill: tint(color, 0.7) });
+    const pct = Math.max(0, Math.min(100, Number(row.PctComplete) || 0));
+    if (pct > 0) items.push({ type: "rect", x: x1, y: barY, w: w * (pct / 100), h: barH, fill: color });
+  });
+
+  const dd = dayMs(opts.dataDate);
+  if (Number.isFinite(dd)) {
+    const x = scaleX(dd);
+    if (x >= chartX0 && x <= chartX1) {
+      items.push({ type: "line", x1: x, y1: top - HEADER_HEIGHT, x2: x, y2: bottom, stroke: COLORS.dataDate, width: 0.8, dash: [3, 3] });
+    }
+  }
+}
+
+/** One page per rowsPerPage rows, each with title block, repeated timescale and page number */
+export function layoutGanttPages(opts: PrintOptions & { paper: { width: number; height: number }; rowsPerPage?: number }): Scene[] {
+  const { width, height } = opts.paper;
+  const rowsPerPage = Math.max(1, Math.floor(Number(opts.rowsPerPage) || 40));
+  const layout = createLayout(opts, width);
+  const top = MARGIN + TITLE_HEIGHT + HEADER_HEIGHT;
+  const rowHeight = (height - top - MARGIN - FOOTER_HEIGHT) / rowsPerPage;
+  const total = Math.max(1, Math.ceil(opts.rows.length / rowsPerPage));
+  const pages: Scene[] = [];
+  for (let p = 0; p < total; p++) {
+    const slice = opts.rows.slice(p * rowsPerPage, (p + 1) * rowsPerPage);
+    const items: SceneItem[] = [];
+    const label = `Page ${p + 1} of ${total}`;
+    drawTitleBlock(items, opts, width, label);
+    drawHeader(items, layout, MARGIN + TITLE_HEIGHT);
+    drawRows(items, layout, opts, slice, top, rowHeight);
+    const first = p * rowsPerPage + 1;
+    items.push({
+      type: "text",
+      x: MARGIN,
+      y: height - MARGIN,
+      text: slice.length ? `Rows ${first}–${first + slice.length - 1} of ${opts.rows.length}` : "No rows",
+      size: 7,
+      fill: COLORS.muted,
+    });
+    items.push({ type: "text", x: width - MARGIN, y: height - MARGIN, text: label, size: 7, fill: COLORS.muted, anchor: "end" });
+    pages.push({ width, height, items });
+  }
+  return pages;
+}
+
+/** The whole chart on one sheet, sized to its rows */
+export function layoutGanttSheet(opts: PrintOptions, width = 1600, rowHeight = 18): Scene {
+  const layout = createLayout(opts, width);
+  const top = MARGIN + TITLE_HEIGHT + HEADER_HEIGHT;
+  const height = top + opts.rows.length * rowHeight + MARGIN + FOOTER_HEIGHT;
+  const items: SceneItem[] = [];
+  drawTitleBlock(items, opts, width, null);
+  drawHeader(items, layout, MARGIN + TITLE_HEIGHT);
+  drawRows(items, layout, opts, opts.rows, top, rowHeight);
+  items.push({ type: "text", x: MARGIN, y: height - MARGIN, text: `${opts.rows.length} rows`, size: 7, fill: COLORS.muted });
+  return { width, height, items };
+}
+
+const n2 = (v: number) => String(Math.round(v * 100) / 100);
+const escapeXml = (s: unknown) => String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function sceneToSVG(scene: Scene): string {
+  const out = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n2(scene.width)}" height="${n2(scene.height)}" viewBox="0 0 ${n2(scene.width)} ${n2(scene.height)}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect x="0" y="0" width="${n2(scene.width)}" height="${n2(scene.height)}" fill="#ffffff"/>`,
+  ];
+  scene.items.forEach((it) => {
+    if (it.type === "rect") {
+      out.push(
+        `<rect x="${n2(it.x)}" y="${n2(it.y)}" width="${n2(it.w)}" height="${n2(it.h)}" fill="${it.fill ?? "none"}"${it.stroke ? ` stroke="${it.stroke}" stroke-width="0.5"` : ""}/>`
+      );
+    } else if (it.type === "line") {
+      out.push(
+        `<line x1="${n2(it.x1)}" y1="${n2(it.y1)}" x2="${n2(it.x2)}" y2="${n2(it.y2)}" stroke="${it.stroke}" stroke-width="${n2(it.width ?? 1)}"${it.dash ? ` stroke-dasharray="${it.dash.join(" ")}"` : ""}/>`
+      );
+    } else if (it.type === "path") {
+      const d = it.d.map(([op, ...args]) => [op, ...args.map(n2)].join(" ")).join(" ");
+      out.push(`<path d="${d}" fill="${it.fill ?? "none"}"${it.stroke ? ` stroke="${it.stroke}" stroke-width="${n2(it.width ?? 1)}"` : ""}/>`);
+    } else if (it.type === "text") {
+      const anchor = it.anchor === "end" ? ` text-anchor="end"` : it.anchor === "middle" ? ` text-anchor="middle"` : "";
+      out.push(
+        `<text x="${n2(it.x)}" y="${n2(it.y)}" font-size="${n2(it.size)}"${it.bold ? ` font-weight="bold"` : ""} fill="${it.fill}"${anchor}>${escapeXml(it.text)}</text>`
+      );
+    }
+  });
+  out.push("</svg>");
+  return out.join("\n");
+}
+
+// WinAnsi text for the standard Helvetica fonts; anything else degrades to "?"
+const WIN_ANSI: Record<string, number | null> = { "…": 0x85, "–": 0x96, "—": 0x97, "→": null, "×": 0xd7 };
+function pdfString(text: unknown): string {
+  let out = "";
+  for (const ch of String(text).replace(/→/g, "->")) {
+    let code = ch in WIN_ANSI ? WIN_ANSI[ch] : ch.charCodeAt(0);
+    if (code == null || code > 255) code = 63;
+    const c = String.fromCharCode(code);
+    out += c === "(" || c === ")" || c === "\\" ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+const pdfColor = (hex: string, op: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return `${n2(((n >> 16) & 255) / 255)} ${n2(((n >> 8) & 255) / 255)} ${n2((n & 255) / 255)} ${op}`;
+};
+
+function pageStream(scene: Scene): string {
+  const H = scene.height;
+  const ops: string[] = [];
+  scene.items.forEach((it) => {
+    if (it.type === "rect") {
+      const rect = `${n2(it.x)} ${n2(H - it.y - it.h)} ${n2(it.w)} ${n2(it.h)} re`;
+      if (it.fill) ops.push(pdfColor(it.fill, "rg"), `${rect} f`);
+      if (it.stroke) ops.push(pdfColor(it.stroke, "RG"), "0.5 w", `${rect} S`);
+    } else if (it.type === "line") {
+      ops.push(pdfColor(it.stroke, "RG"), `${n2(it.width ?? 1)} w`, it.dash ? `[${it.dash.join(" ")}] 0 d` : "[] 0 d");
+      ops.push(`${n2(it.x1)} ${n2(H - it.y1)} m ${n2(it.x2)} ${n2(H - it.y2)} l S`);
+      if (it.dash) ops.push("[] 0 d");
+    } else if (it.type === "path") {
+      const d = it.d
+        .map(([op, ...a]) => {
+          if (op === "M") return `${n2(a[0])} ${n2(H - a[1])} m`;
+          if (op === "L") return `${n2(a[0])} ${n2(H - a[1])} l`;
+          if (op === "C") return `${n2(a[0])} ${n2(H - a[1])} ${n2(a[2])} ${n2(H - a[3])} ${n2(a[4])} ${n2(H - a[5])} c`;
+          return "h";
+        })
+        .join(" ");
+      if (it.fill) ops.push(pdfColor(it.fill, "rg"), `${d} f`);
+      else ops.push(pdfColor(it.stroke ?? COLORS.text, "RG"), `${n2(it.width ?? 1)} w`, `${d} S`);
+    } else if (it.type === "text") {
+      const w = textWidth(it.text, it.size);
+      const x = it.anchor === "end" ? it.x - w : it.anchor === "middle" ? it.x - w / 2 : it.x;
+      ops.push(pdfColor(it.fill ?? COLORS.text, "rg"), `BT /${it.bold ? "F2" : "F1"} ${n2(it.size)} Tf ${n2(x)} ${n2(H - it.y)} Td ${pdfString(it.text)} Tj ET`);
+    }
+  });
+  return ops.join("\n");
+}
+
+/** @returns Uint8Array of a PDF with one page per scene */
+export function scenesToPDF(scenes: Scene[], title = "Gantt chart"): Uint8Array {
+  const objects: (string | null)[] = [];
+  const add = (body: string | null) => {
+    objects.push(body);
+    return objects.length;
+  };
+  const catalog = add(null);
+  const pagesId = add(null);
+  const f1 = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const f2 = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const info = add(`<< /Title ${pdfString(title)} /Producer (Gantt Viewer Pro) >>`);
+  const kids = scenes.map((scene) => {
+    const stream = pageStream(scene);
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${n2(scene.width)} ${n2(scene.height)}] /Resources << /Font << /F1 ${f1} 0 R /F2 ${f2} 0 R >> >> /Contents ${content} 0 R >>`
+    );
+  });
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${kids.map((k) => `${k} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+
+  // Every character is a single byte (WinAnsi), so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, idx) => {
+    offsets.push(pdf.length);
+    pdf += `${idx + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((o) => {
+    pdf += `${String(o).padStart(10, "0")} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 255;
+  return bytes;
+}
@@ -0,0 +1,178 @@
+import { DAY_MS } from "@/lib/calendars";
+import { csvCell } from "@/lib/utils";
+import type { LogicLoop } from "@/lib/logic-loops";
+import type { Relationship, ScheduleRow, SheetRow } from "@/lib/schedule-types";
+
+/**
+ * Import diagnostics
+ * - Row-level problems found while ingesting a schedule (dates, IDs, logic)
+ * - Relationships the Gantt and simulateScenario would otherwise drop silently
+ * - CSV serialisation of the report
+ */
+
+export interface ImportDiagnostic {
+  severity: "error" | "warning";
+  category: string;
+  rowIndex: number | null;
+  sourceRow: number | null;
+  activityId: unknown;
+  message: string;
+}
+
+const DATE_ALIASES: Record<string, string[]> = {
+  ES: ["ES", "Start", "StartDate", "Start Date", "Start_Date"],
+  EF: ["EF", "Finish", "FinishDate", "Finish Date", "Finish_Date"],
+  LS: ["LS", "LateStart"],
+  LF: ["LF", "LateFinish"],
+  ActualStart: ["ActualStart", "Actual Start"],
+  ActualFinish: ["ActualFinish", "Actual Finish"],
+};
+
+function rawValue(raw: SheetRow | undefined, keys: string[]): unknown {
+  for (const k of keys) {
+    const v = raw?.[k];
+    if (v !== undefined && v !== null && v !== "") return v;
+  }
+  return undefined;
+}
+
+const hasId = (row: ScheduleRow) =>
+  row.ActivityID !== undefined && row.ActivityID !== null && row.ActivityID !== "" && !Number.isNaN(row.ActivityID);
+
+/**
+ * @param rows normalized rows, in chart order
+ * @param rawRows the same rows before normalizeRow (for date values that failed to parse)
+ * @param rels relationship edges
+ * @param rejectedTokens predecessor tokens parseLinkToken could not read
+ * @param loops logic loops from findLogicLoops
+ * @param sourceRows source row number per row (sheet rows skip blank lines); defaults to the 1-based row index
+ */
+export function buildImportDiagnostics({
+  rows,
+  rawRows = [],
+  rels = [],
+  rejectedTokens = [],
+  loops = [],
+  sourceRows = [],
+}: {
+  rows: ScheduleRow[];
+  rawRows?: SheetRow[];
+  rels?: Relationship[];
+  rejectedTokens?: { succId: unknown; token: string }[];
+  loops?: LogicLoop[];
+  sourceRows?: number[];
+}): ImportDiagnostic[] {
+  const out: ImportDiagnostic[] = [];
+  const sourceRow = (rowIndex: number) => sourceRows[rowIndex] ?? rowIndex + 1;
+  const add = (severity: ImportDiagnostic["severity"], category: string, rowIndex: number | null, message: string) => {
+    const row = rowIndex != null ? rows[rowIndex] : null;
+    out.push({
+      severity,
+      category,
+      rowIndex,
+      sourceRow: rowIndex != null ? sourceRow(rowIndex) : null,
+      activityId: row && hasId(row) ? row.ActivityID : "",
+      message,
+    });
+  };
+
+  const indexById = new Map<unknown, number>();
+  const summaryIds = new Set<unknown>();
+  rows.forEach((row, idx) => {
+    const isSummary = Boolean(row.IsSummary || row.IsSummaryExcel);
+    if (!hasId(row)) {
+      if (!isSummary) add("warning", "Missing ID", idx, `Row has no ActivityID; it cannot take part in logic or scenarios.`);
+    } else if (indexById.has(row.ActivityID)) {
+      add(
+        "error",
+        "Duplicate ID",
+        idx,
+        `ActivityID ${row.ActivityID} also appears on row ${sourceRow(indexById.get(row.ActivityID)!)}.`
+      );
+    } else {
+      indexById.set(row.ActivityID, idx);
+      if (isSummary) summaryIds.add(row.ActivityID);
+    }
+
+    const raw = rawRows[idx];
+    for (const field of Object.keys(DATE_ALIASES)) {
+      const value = rawValue(raw, DATE_ALIASES[field]);
+      if (value !== undefined && !row[field]) {
+        add("error", "Invalid date", idx, `${field} value "${value}" could not be read as a date.`);
+      }
+    }
+    if (!isSummary && !row.ES && rawValue(raw, DATE_ALIASES.ES) === undefined) {
+      add("warning", "Missing date", idx, "Row has no start date; its bar cannot be drawn.");
+    }
+
+    const es = row.ES ? new Date(row.ES).getTime() : NaN;
+    const ef = row.EF ? new Date(row.EF).getTime() : NaN;
+    if (Number.isFinite(es) && Number.isFinite(ef) && ef < es) {
+      add(
+        "error",
+        "Finish before start",
+        idx,
+        `Finish ${row.EF} is ${Math.round((es - ef) / DAY_MS)}d before start ${row.ES}.`
+      );
+    }
+    const as = row.ActualStart ? new Date(row.ActualStart).getTime() : NaN;
+    const af = row.ActualFinish ? new Date(row.ActualFinish).getTime() : NaN;
+    if (Number.isFinite(as) && Number.isFinite(af) && af < as) {
+      add("error", "Finish before start", idx, `Actual finish ${row.ActualFinish} is before actual start ${row.ActualStart}.`);
+    }
+    const dur = Number(row.DurDays);
+    if (row.Milestone === true && Number.isFinite(dur) && dur !== 0) {
+      add("warning", "Milestone duration", idx, `Milestone has a duration of ${dur}d; milestones should be zero duration.`);
+    }
+  });
+
+  rejectedTokens.forEach(({ succId, token }) => {
+    add(
+      "warning",
+      "Unparsed predecessor",
+      indexById.get(succId) ?? null,
+      `Predecessor token "${token}" on activity ${succId} could not be parsed and was skipped.`
+    );
+  });
+
+  rels.forEach((rel) => {
+    const predIdx = indexById.get(rel.PredID);
+    const succIdx = indexById.get(rel.SuccID);
+    const label = `${rel.PredID} → ${rel.SuccID} (${rel.RelType || "FS"})`;
+    if (predIdx === undefined || succIdx === undefined) {
+      const missing = [predIdx === undefined && rel.PredID, succIdx === undefined && rel.SuccID]
+        .filter((v) => v !== false)
+        .join(" and ");
+      add(
+        "error",
+        "Missing link target",
+        succIdx ?? predIdx ?? null,
+        `Relationship ${label} references missing activity ${missing}; it is not drawn or scheduled.`
+      );
+    } else if (summaryIds.has(rel.PredID) || summaryIds.has(rel.SuccID)) {
+      add(
+        "warning",
+        "Summary link",
+        succIdx,
+        `Relationship ${label} touches a summary activity; scenario runs ignore it.`
+      );
+    }
+  });
+
+  loops.forEach((loop) => {
+    add(
+      "error",
+      "Logic loop",
+      indexById.get(loop.path[0]) ?? null,
+      `Activities ${loop.path.join(" → ")} form a closed loop (${loop.ids.length} activit${loop.ids.length === 1 ? "y" : "ies"}, ${loop.links.length} link${loop.links.length === 1 ? "" : "s"}); scenario runs cannot schedule them from logic.`
+    );
+  });
+
+  return out;
+}
+
+export function diagnosticsToCSV(entries: ImportDiagnostic[]): string {
+  const header = ["Severity", "Category", "Row", "ActivityID", "Message"];
+  const lines = entries.map((e) => [e.severity, e.category, e.sourceRow ?? "", e.activityId, e.message].map(csvCell).join(","));
+  return [header.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,128 @@
+import { normalizeActivityId } from "@/lib/cpm";
+import type { Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Logic loop detection
+ * - Strongly connected components of the relationship graph (iterative Tarjan)
+ * - Each loop lists its activities, the links inside it and one closed path for display
+ */
+
+export interface LogicLoop {
+  ids: string[];
+  links: Relationship[];
+  // Closed walk for display, first id repeated at the end
+  path: string[];
+}
+
+export function findLogicLoops(rows: ScheduleRow[], rels: Relationship[]): LogicLoop[] {
+  const nodes = new Set<string>();
+  rows.forEach((row) => {
+    const id = normalizeActivityId(row.ActivityID);
+    if (id !== undefined && !row.IsSummary) nodes.add(id);
+  });
+  const succ = new Map<string, string[]>();
+  const links: Relationship[] = [];
+  rels.forEach((rel) => {
+    const from = normalizeActivityId(rel.PredID);
+    const to = normalizeActivityId(rel.SuccID);
+    if (from === undefined || to === undefined || !nodes.has(from) || !nodes.has(to)) return;
+    const arr = succ.get(from) || [];
+    arr.push(to);
+    succ.set(from, arr);
+    links.push({ ...rel, PredID: from, SuccID: to });
+  });
+
+  // Iterative Tarjan so 10k-activity chains don't overflow the call stack
+  let counter = 0;
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  for (const start of Array.from(nodes)) {
+    if (index.has(start)) continue;
+    const work = [{ id: start, next: 0 }];
+    index.set(start, counter);
+    low.set(start, counter);
+    counter++;
+    stack.push(start);
+    onStack.add(start);
+    while (work.length) {
+      const frame = work[work.length - 1];
+      const outs = succ.get(frame.id) || [];
+      if (frame.next < outs.length) {
+        const to = outs[frame.next++];
+        if (!index.has(to)) {
+          index.set(to, counter);
+          low.set(to, counter);
+          counter++;
+          stack.push(to);
+          onStack.add(to);
+          work.push({ id: to, next: 0 });
+        } else if (onStack.has(to)) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, index.get(to)!));
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length) {
+        const parent = work[work.length - 1].id;
+        low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+      }
+      if (low.get(frame.id) === index.get(frame.id)) {
+        const comp: string[] = [];
+        let n: string;
+        do {
+          n = stack.pop()!;
+          onStack.delete(n);
+          comp.push(n);
+        } while (n !== frame.id);
+        const selfLoop = comp.length === 1 && (succ.get(comp[0]) || []).includes(comp[0]);
+        if (comp.length > 1 || selfLoop) components.push(comp);
+      }
+    }
+  }
+
+  return components.map((comp) => {
+    const members = new Set(comp);
+    const loopLinks = links.filter((l) => members.has(l.PredID) && members.has(l.SuccID));
+    return {
+      ids: comp.slice().sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+      links: loopLinks,
+      path: closedPath(comp[comp.length - 1], members, succ),
+    };
+  });
+}
+
+// Shortest cycle back to the start within the component (BFS), e.g. [A, B, C, A]
+function closedPath(start: string, members: Set<string>, succ: Map<string, string[]>): string[] {
+  const prev = new Map<string, string>();
+  const queue = [start];
+  const seen = new Set([start]);
+  while (queue.length) {
+    const n = queue.shift()!;
+    for (const m of succ.get(n) || []) {
+      if (!members.has(m)) continue;
+      if (m === start) {
+        const path = [start];
+        let cur = n;
+        while (cur !== start) {
+          path.push(cur);
+          cur = prev.get(cur)!;
+        }
+        path.push(start);
+        return [path[0], ...path.slice(1, -1).reverse(), start];
+      }
+      if (!seen.has(m)) {
+        seen.add(m);
+        prev.set(m, n);
+        queue.push(m);
+      }
+    }
+  }
+  return [start];
+}
+
+export function loopLinkKey(rel: Relationship): string {
+  return `${rel.PredID}->${rel.SuccID}`;
+}
@@ -0,0 +1,160 @@
+import type { Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Microsoft Project XML (MSPDI) ingestion
+ * - Tasks -> rows keyed the way normalizeRow expects (ActivityID, TaskName, ES, EF, ...)
+ * - PredecessorLink -> { PredID, SuccID, RelType, Lag_d } edges
+ * - Durations, slack and lags are converted to working days using the project's MinutesPerDay
+ * - Actual dates, remaining duration and the project StatusDate carry progress
+ */
+
+// MSPDI PredecessorLink/Type codes
+const MSPDI_LINK_TYPES: Record<number, string> = { 0: "FF", 1: "FS", 2: "SF", 3: "SS" };
+
+// MSPDI ConstraintType codes -> labels used by the viewer
+const MSPDI_CONSTRAINTS: Record<number, string> = {
+  0: "ASAP",
+  1: "ALAP",
+  2: "MSO",
+  3: "MFO",
+  4: "SNET",
+  5: "SNLT",
+  6: "FNET",
+  7: "FNLT",
+};
+
+// LagFormat codes that count elapsed (24h) time rather than working time
+const ELAPSED_LAG_FORMATS = [4, 6, 8, 10, 12, 20];
+const PERCENT_LAG_FORMATS = [19, 20];
+
+function childText(el: Element | null | undefined, tag: string): string | undefined {
+  if (!el) return undefined;
+  for (const child of Array.from(el.children || [])) {
+    if (child.localName === tag) return child.textContent?.trim();
+  }
+  return undefined;
+}
+
+function childElements(el: Element | null | undefined, tag: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children || []).filter((child) => child.localName === tag);
+}
+
+function mspdiDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const s = String(value).trim();
+  return /^\d{4}-\d{2}-\d{2}/.test(s) ? s.slice(0, 10) : undefined;
+}
+
+// ISO 8601 duration (PT40H0M0S, P2DT4H...) -> working days
+export function parseMSPDIDuration(value: string | undefined, minutesPerDay = 480): number {
+  if (!value) return NaN;
+  const m = String(value)
+    .trim()
+    .match(/^(-)?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!m) return NaN;
+  const [, neg, , , d, h, min, sec] = m;
+  const minutes =
+    (Number(d) || 0) * minutesPerDay +
+    (Number(h) || 0) * 60 +
+    (Number(min) || 0) +
+    (Number(sec) || 0) / 60;
+  const days = minutes / minutesPerDay;
+  return Math.round((neg ? -days : days) * 100) / 100;
+}
+
+// Slack and LinkLag are stored in tenths of a minute
+function tenthsToDays(value: unknown, minutesPerDay: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return NaN;
+  return Math.round((n / 10 / minutesPerDay) * 100) / 100;
+}
+
+export function parseMSPDI(text: string): {
+  rows: ScheduleRow[];
+  rels: Relationship[];
+  projectName: string | undefined;
+  statusDate: string | undefined;
+} {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new Error("File is not valid XML.");
+  }
+  const project = doc.documentElement;
+  if (!project || project.localName !== "Project") {
+    throw new Error("File is not a Microsoft Project XML (MSPDI) export.");
+  }
+  const minutesPerDay = Number(childText(project, "MinutesPerDay")) || 480;
+  const projectName = childText(project, "Title") || childText(project, "Name");
+  const statusDate = mspdiDate(childText(project, "StatusDate"));
+  const tasksEl = childElements(project, "Tasks")[0];
+  const taskEls = childElements(tasksEl, "Task");
+
+  const rows: ScheduleRow[] = [];
+  const durById = new Map<string, number>();
+  const links: { succ: string; link: Element }[] = [];
+  for (const el of taskEls) {
+    const uid = childText(el, "UID");
+    if (uid === undefined || uid === "") continue;
+    if (childText(el, "IsNull") === "1") continue;
+    const outline = Number(childText(el, "OutlineLevel"));
+    // UID 0 / outline 0 is the project summary task MS Project adds itself
+    if (outline === 0) continue;
+    const dur = parseMSPDIDuration(childText(el, "Duration"), minutesPerDay);
+    const remaining = parseMSPDIDuration(childText(el, "RemainingDuration"), minutesPerDay);
+    const constraintCode = Number(childText(el, "ConstraintType"));
+    const pct = Number(childText(el, "PercentComplete"));
+    const id = String(uid);
+    durById.set(id, Number.isFinite(dur) ? dur : 0);
+    rows.push({
+      ActivityID: id,
+      TaskName: childText(el, "Name") ?? "",
+      ES: mspdiDate(childText(el, "Start")),
+      EF: mspdiDate(childText(el, "Finish")),
+      LS: mspdiDate(childText(el, "LateStart")),
+      LF: mspdiDate(childText(el, "LateFinish")),
+      DurDays: Number.isFinite(dur) ? dur : "",
+      TotalFloat_d: tenthsToDays(childText(el, "TotalSlack"), minutesPerDay),
+      FreeFloat_d: tenthsToDays(childText(el, "FreeSlack"), minutesPerDay),
+      PctComplete: Number.isFinite(pct) ? pct : 0,
+      WBSLevel: Number.isFinite(outline) ? outline : "",
+      WBS: childText(el, "WBS") ?? childText(el, "OutlineNumber"),
+      Summary: childText(el, "Summary") === "1",
+      Milestone: childText(el, "Milestone") === "1",
+      ConstraintType: MSPDI_CONSTRAINTS[constraintCode],
+      ConstraintDate: mspdiDate(childText(el, "ConstraintDate")),
+      ActualStart: mspdiDate(childText(el, "ActualStart")),
+      ActualFinish: mspdiDate(childText(el, "ActualFinish")),
+      RemainingDuration: Number.isFinite(remaining) ? remaining : undefined,
+    });
+    for (const link of childElements(el, "PredecessorLink")) {
+      links.push({ succ: id, link });
+    }
+  }
+
+  const rels: Relationship[] = [];
+  for (const { succ, link } of links) {
+    const pred = childText(link, "PredecessorUID");
+    if (!pred || !durById.has(pred)) continue;
+    const typeCode = Number(childText(link, "Type") ?? 1);
+    const lagFormat = Number(childText(link, "LagFormat"));
+    const rawLag = Number(childText(link, "LinkLag")) || 0;
+    let Lag_d: number;
+    if (PERCENT_LAG_FORMATS.includes(lagFormat)) {
+      // Percentage lags are stored as tenths of a percent of the predecessor duration
+      Lag_d = Math.round(((rawLag / 1000) * (durById.get(pred) ?? 0)) * 100) / 100;
+    } else if (ELAPSED_LAG_FORMATS.includes(lagFormat)) {
+      Lag_d = tenthsToDays(rawLag, 24 * 60);
+    } else {
+      Lag_d = tenthsToDays(rawLag, minutesPerDay);
+    }
+    rels.push({
+      PredID: pred,
+      SuccID: succ,
+      RelType: MSPDI_LINK_TYPES[typeCode] ?? "FS",
+      Lag_d: Number.isFinite(Lag_d) ? Lag_d : 0,
+    });
+  }
+
+  return { rows, rels, projectName, statusDate };
+}
@@ -0,0 +1,221 @@
+/**
+ * Browser project store (IndexedDB)
+ * - Projects: the loaded schedule (rows, relationships, calendars), baselines, scenario library and analysis inputs
+ * - Project summaries (name, source file, activity count, size, saved/opened times) for the recent-projects list
+ * - View settings (labels, zoom, filters, thresholds) shared by every project
+ * - Storage usage from the browser's estimate, with the size of each stored project
+ * Every call resolves to null / [] where IndexedDB is unavailable (server render, blocked storage)
+ */
+
+import type { ScheduleRow } from "@/lib/schedule-types";
+
+const DB_NAME = "gantt-viewer-pro";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const SUMMARIES = "summaries";
+const SETTINGS = "settings";
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  fileName: string;
+  activityCount: number;
+  bytes: number;
+  savedAt: string;
+  openedAt: string;
+}
+
+export interface StoredProject extends ProjectSummary {
+  // The schedule (rows, rels, calendars) and its analysis inputs, as the page saved them
+  data: { rows?: ScheduleRow[]; [key: string]: unknown };
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      let req: IDBOpenDBRequest;
+      try {
+        req = indexedDB.open(DB_NAME, DB_VERSION);
+      } catch {
+        resolve(null);
+        return;
+      }
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        [PROJECTS, SUMMARIES, SETTINGS].forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" });
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+// One transaction; body issues requests and reports its result through done()
+function transact<T>(
+  names: string[],
+  mode: IDBTransactionMode,
+  body: (stores: IDBObjectStore[], done: (value: T) => void) => void
+): Promise<T | null> {
+  return openDb().then(
+    (db) =>
+      db &&
+      new Promise<T | null>((resolve, reject) => {
+        let result: T | null = null;
+        const tx = db.transaction(names, mode);
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error ?? new Error("Browser storage request failed."));
+        tx.onabort = () => reject(tx.error ?? new Error("Browser storage request was aborted."));
+        body(
+          names.map((name) => tx.objectStore(name)),
+          (value) => {
+            result = value;
+          }
+        );
+      })
+  );
+}
+
+export function newProjectId(): string {
+  return `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Approximate stored size (structured clone is not measurable directly)
+function byteSize(value: unknown): number {
+  try {
+    const json = JSON.stringify(value, (key, v) => (v instanceof Map ? Array.from(v) : v instanceof Set ? Array.from(v) : v));
+    return new Blob([json ?? ""]).size;
+  } catch {
+    return 0;
+  }
+}
+
+const summaryOf = (project: ProjectSummary): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  fileName: project.fileName,
+  activityCount: project.activityCount,
+  bytes: project.bytes,
+  savedAt: project.savedAt,
+  openedAt: project.openedAt,
+});
+
+// Most recently opened first
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const list = await transact<ProjectSummary[]>([SUMMARIES], "readonly", ([store], done) => {
+    const req = store.getAll();
+    req.onsuccess = () => done(req.result);
+  });
+  return (list ?? []).sort((a, b) => String(b.openedAt ?? b.savedAt).localeCompare(String(a.openedAt ?? a.savedAt)));
+}
+
+/**
+ * @param project { id, name, fileName, data } where data holds the schedule and its analysis inputs
+ * @returns the stored summary, or null without IndexedDB; rejects when the browser refuses the write (quota)
+ * A save keeps the stored opened time, so auto-saves do not reorder the recent-projects list
+ */
+export async function saveProject(
+  project: Pick<StoredProject, "id" | "name" | "fileName" | "data"> & { openedAt?: string }
+): Promise<ProjectSummary | null> {
+  const now = new Date().toISOString();
+  const record = {
+    ...project,
+    savedAt: now,
+    activityCount: (project.data?.rows ?? []).filter((r) => !r.IsSummary).length,
+    bytes: byteSize(project.data),
+    // Settled in the transaction, once the stored record is read
+    openedAt: project.openedAt ?? now,
+  };
+  return transact<ProjectSummary>([PROJECTS, SUMMARIES], "readwrite", ([projects, summaries], done) => {
+    const req = projects.get(record.id);
+    req.onsuccess = () => {
+      record.openedAt = project.openedAt ?? req.result?.openedAt ?? now;
+      const summary = summaryOf(record);
+      projects.put(record);
+      summaries.put(summary);
+      done(summary);
+    };
+  });
+}
+
+// Marks the project as opened now
+export async function loadProject(id: string): Promise<StoredProject | null> {
+  return transact<StoredProject>([PROJECTS, SUMMARIES], "readwrite", ([projects, summaries], done) => {
+    const req = projects.get(id);
+    req.onsuccess = () => {
+      const record: StoredProject | undefined = req.result;
+      if (!record) return;
+      record.openedAt = new Date().toISOString();
+      projects.put(record);
+      summaries.put(summaryOf(record));
+      done(record);
+    };
+  });
+}
+
+export async function renameProject(id: string, name: string): Promise<ProjectSummary | null> {
+  return transact<ProjectSummary>([PROJECTS, SUMMARIES], "readwrite", ([projects, summaries], done) => {
+    const req = projects.get(id);
+    req.onsuccess = () => {
+      const record: StoredProject | undefined = req.result;
+      if (!record) return;
+      record.name = name;
+      projects.put(record);
+      summaries.put(summaryOf(record));
+      done(summaryOf(record));
+    };
+  });
+}
+
+export async function deleteProject(id: string): Promise<boolean | null> {
+  return transact<boolean>([PROJECTS, SUMMARIES], "readwrite", ([projects, summaries], done) => {
+    projects.delete(id);
+    summaries.delete(id);
+    done(true);
+  });
+}
+
+export async function loadSetting(key: string): Promise<unknown> {
+  return transact<unknown>([SETTINGS], "readonly", ([store], done) => {
+    const req = store.get(key);
+    req.onsuccess = () => done(req.result?.value ?? null);
+  });
+}
+
+export async function saveSetting(key: string, value: unknown): Promise<boolean | null> {
+  return transact<boolean>([SETTINGS], "readwrite", ([store], done) => {
+    store.put({ id: key, value });
+    done(true);
+  });
+}
+
+// { used, quota } from the browser (null where it gives no estimate) and the bytes the stored projects take
+export async function storageUsage(
+  projects: Pick<ProjectSummary, "bytes">[] = []
+): Promise<{ used: number | null; quota: number | null; projects: number }> {
+  let estimate: StorageEstimate | null = null;
+  try {
+    estimate = typeof navigator !== "undefined" && navigator.storage?.estimate ? await navigator.storage.estimate() : null;
+  } catch {
+    estimate = null;
+  }
+  return {
+    used: estimate?.usage !== undefined && Number.isFinite(estimate.usage) ? estimate.usage : null,
+    quota: estimate?.quota !== undefined && Number.isFinite(estimate.quota) ? estimate.quota : null,
+    projects: projects.reduce((sum, p) => sum + (Number(p.bytes) || 0), 0),
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes)) return "—";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
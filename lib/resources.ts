@@ -0,0 +1,189 @@
+import { DAY_MS, dayMs, resolveCalendar, workDayList } from "@/lib/calendars";
+import { normalizeActivityId } from "@/lib/cpm";
+import type { Assignment, Calendar, CalendarSet, ScheduleRow, SheetRow } from "@/lib/schedule-types";
+
+/**
+ * Resource assignments and loading
+ * - Assignments from a resource column ("Crew A[2]; Crane", "Crew A:2", "Crane[50%]") or a Resources/Assignments sheet
+ * - Capacity per resource (max units per working day) from the sheet, 1 unit where none is given
+ * - Daily loading over each activity's working days, merged into periods of constant load
+ * - Over-allocated days and the activities loading them
+ */
+
+export const DEFAULT_CAPACITY = 1;
+
+const RESOURCE_COLORS = ["#0ea5e9", "#8b5cf6", "#14b8a6", "#f97316", "#84cc16", "#ec4899", "#6366f1", "#eab308", "#06b6d4", "#a855f7"];
+
+export interface AssignmentSheet {
+  assignments: Map<string, Assignment[]>;
+  // Units per day by resource
+  capacity: Record<string, number>;
+}
+
+export function resourceColor(idx: number): string {
+  return RESOURCE_COLORS[idx % RESOURCE_COLORS.length];
+}
+
+// "2", "0.5", "50%" -> units per day; blank is one unit
+function parseUnits(value: unknown): number {
+  if (value === undefined || value === null || value === "") return 1;
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value : 0;
+  const m = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*(%?)/);
+  if (!m) return 0;
+  const n = Number(m[1]);
+  return m[2] ? n / 100 : n;
+}
+
+function mergeAssignments(list: Assignment[]): Assignment[] {
+  const byName = new Map<string, number>();
+  list.forEach((a) => {
+    if (!a.resource || !(a.units > 0)) return;
+    byName.set(a.resource, (byName.get(a.resource) ?? 0) + a.units);
+  });
+  return Array.from(byName, ([resource, units]) => ({ resource, units }));
+}
+
+export function parseResourceCell(value: unknown): Assignment[] {
+  if (value === undefined || value === null || value === "") return [];
+  return mergeAssignments(
+    String(value)
+      .split(/[;,\n]+/)
+      .map((token) => token.trim())
+      .filter(Boolean)
+      .map((token) => {
+        const bracket = token.match(/^(.*?)\s*\[\s*([^\]]*)\]$/);
+        const colon = !bracket && token.match(/^(.*?)\s*:\s*(\d+(?:\.\d+)?\s*%?)$/);
+        const hit = bracket || colon;
+        return hit ? { resource: hit[1].trim(), units: parseUnits(hit[2]) } : { resource: token, units: 1 };
+      })
+  );
+}
+
+// Inverse of parseResourceCell, for the export
+export function formatAssignments(assignments: Assignment[] | null | undefined): string {
+  return (assignments ?? []).map((a) => (a.units === 1 ? a.resource : `${a.resource}[${a.units}]`)).join("; ");
+}
+
+/**
+ * Resources/Assignments sheet rows: one row per assignment (ActivityID, Resource, Units per day)
+ * and/or one row per resource with its capacity (Resource, Max Units / Capacity).
+ * @returns { assignments: Map(activityId -> [{ resource, units }]), capacity: { [resource]: units } } or null
+ */
+export function readAssignmentRows(raw: SheetRow[]): AssignmentSheet | null {
+  const lists = new Map<string, Assignment[]>();
+  const capacity: Record<string, number> = {};
+  for (const r of raw) {
+    const activityId = normalizeActivityId(r.ActivityID ?? r["Activity ID"] ?? r.TaskID ?? r["Task ID"] ?? r.Activity);
+    const resource = String(
+      r.Resource ?? r["Resource Name"] ?? r.ResourceName ?? r["Resource ID"] ?? r.ResourceID ?? (activityId === undefined ? r.Name : "") ?? ""
+    ).trim();
+    if (!resource) continue;
+    const cap = Number(r.MaxUnits ?? r["Max Units"] ?? r.Capacity ?? r["Max Units/Day"] ?? r["Max Units per Day"] ?? r.Available);
+    if (Number.isFinite(cap) && cap > 0) capacity[resource] = cap;
+    if (activityId === undefined) continue;
+    const units = parseUnits(r.Units ?? r.UnitsPerDay ?? r["Units/Day"] ?? r["Units per Day"] ?? r["Units Per Day"] ?? r.Quantity);
+    const list = lists.get(activityId) ?? [];
+    list.push({ resource, units });
+    lists.set(activityId, list);
+  }
+  if (!lists.size && !Object.keys(capacity).length) return null;
+  const assignments = new Map(Array.from(lists, ([id, list]) => [id, mergeAssignments(list)]));
+  return { assignments, capacity };
+}
+
+// Assignments onto rows as row.Assignments; the sheet wins over the row's own resource column
+export function attachAssignments(rows: ScheduleRow[], sheet: AssignmentSheet | null = null): ScheduleRow[] {
+  return rows.map((row) => {
+    const id = normalizeActivityId(row.ActivityID);
+    const fromSheet = id === undefined ? undefined : sheet?.assignments.get(id);
+    const assignments: Assignment[] =
+      fromSheet ??
+      (Array.isArray(row.Assignments)
+        ? row.Assignments
+        : parseResourceCell(row.Resources ?? row.Resource ?? row["Resource Names"] ?? row.ResourceNames));
+    return assignments.length ? { ...row, Assignments: assignments } : row;
+  });
+}
+
+// Working days an activity occupies; imported finishes name the last working day
+function activityDays(row: ScheduleRow, cal: Calendar, finishInclusive: boolean): number[] {
+  const start = dayMs(row.ES);
+  let finish = dayMs(row.EF);
+  if (!Number.isFinite(start) || !Number.isFinite(finish)) return [];
+  if (row.Milestone === true || Number(row.DurDays) === 0) return [];
+  if (finishInclusive) finish += DAY_MS;
+  return workDayList(cal, start, finish);
+}
+
+/**
+ * @param rows schedule rows with Assignments
+ * @param capacity { [resource]: units per day } overrides; others get DEFAULT_CAPACITY
+ * @param finishInclusive whether EF is inclusive (imported) rather than engine output
+ * @returns { resources: [{ name, capacity, color, peak, overDays }], periods: [{ start, end, loads }],
+ *   overloaded: Map(activityId -> resource names), peak } or null when nothing is assigned
+ */
+export function resourceLoading(
+  rows: ScheduleRow[],
+  {
+    calendars = null,
+    capacity = {},
+    finishInclusive = false,
+  }: { calendars?: CalendarSet | null; capacity?: Record<string, number>; finishInclusive?: boolean } = {}
+) {
+  const work = rows.filter((row) => !row.IsSummary && row.Assignments?.length);
+  if (!work.length) return null;
+  const assigned = (row: ScheduleRow) => row.Assignments ?? [];
+  const names = Array.from(new Set(work.flatMap((row) => assigned(row).map((a) => a.resource)))).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+  const index = new Map(names.map((name, idx) => [name, idx]));
+  const resources = names.map((name, idx) => {
+    const cap = Number(capacity[name]);
+    return { name, capacity: Number.isFinite(cap) && cap > 0 ? cap : DEFAULT_CAPACITY, color: resourceColor(idx), peak: 0, overDays: 0 };
+  });
+
+  const byDay = new Map<number, number[]>();
+  const spans = work.map((row) => {
+    const days = activityDays(row, resolveCalendar(calendars, row.CalendarID), finishInclusive);
+    days.forEach((day) => {
+      const loads = byDay.get(day) ?? new Array(names.length).fill(0);
+      assigned(row).forEach((a) => {
+        loads[index.get(a.resource)!] += Number(a.units) || 0;
+      });
+      byDay.set(day, loads);
+    });
+    return { row, days };
+  });
+
+  const over = names.map(() => new Set<number>());
+  let peak = 0;
+  const periods: { start: number; end: number; loads: number[] }[] = [];
+  Array.from(byDay.keys())
+    .sort((a, b) => a - b)
+    .forEach((day) => {
+      const loads = byDay.get(day)!;
+      let total = 0;
+      loads.forEach((units, idx) => {
+        total += units;
+        resources[idx].peak = Math.max(resources[idx].peak, units);
+        if (units > resources[idx].capacity + 1e-9) over[idx].add(day);
+      });
+      peak = Math.max(peak, total);
+      const last = periods[periods.length - 1];
+      if (last && last.end === day && last.loads.every((u, idx) => u === loads[idx])) last.end = day + DAY_MS;
+      else periods.push({ start: day, end: day + DAY_MS, loads });
+    });
+  resources.forEach((r, idx) => {
+    r.overDays = over[idx].size;
+  });
+
+  const overloaded = new Map<string | undefined, string[]>();
+  spans.forEach(({ row, days }) => {
+    const hit = assigned(row).filter((a) => {
+      const set = over[index.get(a.resource)!];
+      return set.size && days.some((day) => set.has(day));
+    }).map((a) => a.resource);
+    if (hit.length) overloaded.set(normalizeActivityId(row.ActivityID), hit);
+  });
+  return { resources, periods, overloaded, peak };
+}
@@ -0,0 +1,222 @@
+import { DAY_MS } from "@/lib/calendars";
+import type { ActivityImpact, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Monte Carlo schedule risk analysis (QSRA)
+ * - Three-point (min / most likely / max) durations per activity
+ * - Triangular, PERT (Beta) and uniform sampling
+ * - Iterations re-run the CPM passes; finish percentiles, histogram and criticality index
+ */
+
+export const RISK_DISTRIBUTIONS = [
+  { key: "triangular", label: "Triangular" },
+  { key: "pert", label: "PERT (Beta)" },
+  { key: "uniform", label: "Uniform" },
+];
+
+export const RISK_PERCENTILES = [10, 50, 80, 90];
+
+export interface ThreePointRange {
+  min: number;
+  ml: number;
+  max: number;
+}
+
+export interface RiskRun {
+  // Sampled project finishes, ms
+  finishes: number[];
+  // Activity id -> iterations it was critical in
+  critical: Map<string, number>;
+  iterations: number;
+  cancelled: boolean;
+}
+
+type Random = () => number;
+
+// Seeded generator (mulberry32) so a run can be repeated; no seed falls back to Math.random
+export function createRandom(seed: unknown): Random {
+  const n = Number(seed);
+  if (seed === "" || seed === null || seed === undefined || !Number.isFinite(n)) return Math.random;
+  let a = n >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Valid range: finite, min <= ml <= max, with some spread
+export function readThreePoint(row: ScheduleRow): ThreePointRange | null {
+  const min = Number(row.DurMin);
+  const max = Number(row.DurMax);
+  const mlRaw = row.DurMostLikely ?? row.DurDays;
+  const ml = Number(mlRaw);
+  if (![min, ml, max].every(Number.isFinite)) return null;
+  if (min < 0 || min > ml || ml > max || max === min) return null;
+  return { min, ml, max };
+}
+
+function sampleNormal(random: Random): number {
+  let u = 0;
+  while (u === 0) u = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Marsaglia–Tsang; shapes below 1 use the boost trick
+function sampleGamma(shape: number, random: Random): number {
+  if (shape < 1) return sampleGamma(shape + 1, random) * Math.pow(random() || 1e-12, 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x;
+    let v;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleDuration(range: ThreePointRange, distribution: string, random: Random = Math.random): number {
+  const { min, ml, max } = range;
+  const span = max - min;
+  if (!(span > 0)) return ml;
+  if (distribution === "uniform") return min + random() * span;
+  if (distribution === "pert") {
+    const alpha = 1 + (4 * (ml - min)) / span;
+    const beta = 1 + (4 * (max - ml)) / span;
+    const x = sampleGamma(alpha, random);
+    const y = sampleGamma(beta, random);
+    return min + (x / (x + y)) * span;
+  }
+  // Triangular by inverse CDF
+  const u = random();
+  const cut = (ml - min) / span;
+  return u < cut ? min + Math.sqrt(u * span * (ml - min)) : max - Math.sqrt((1 - u) * span * (max - ml));
+}
+
+export function readThreePointRanges(rows: ScheduleRow[]): Record<string, ThreePointRange> {
+  const ranges: Record<string, ThreePointRange> = {};
+  rows.forEach((row) => {
+    if (row.IsSummary || row.ActivityID === undefined || row.ActivityID === null) return;
+    const range = readThreePoint(row);
+    if (range) ranges[String(row.ActivityID)] = range;
+  });
+  return ranges;
+}
+
+export function scheduleFinish(rows: ScheduleRow[]): number {
+  let finish = -Infinity;
+  rows.forEach((row) => {
+    if (row.IsSummary) return;
+    const t = row.EF ? new Date(row.EF).getTime() : NaN;
+    if (Number.isFinite(t)) finish = Math.max(finish, t);
+  });
+  return finish;
+}
+
+/**
+ * Runs the iterations in chunks so the page stays responsive.
+ * @param simulate (impacts) => scheduled rows; one CPM run with duration deltas applied
+ * @param ranges { [activityId]: { min, ml, max } }
+ * @param baseDurations { [activityId]: deterministic duration } the deltas are measured from
+ */
+export async function runRiskAnalysis({
+  simulate,
+  ranges,
+  baseDurations,
+  distribution = "triangular",
+  iterations = 1000,
+  random = Math.random,
+  chunkSize = 20,
+  onProgress = null,
+  isCancelled = null,
+}: {
+  simulate: (impacts: ActivityImpact[]) => ScheduleRow[];
+  ranges: Record<string, ThreePointRange>;
+  baseDurations: Record<string, number>;
+  distribution?: string;
+  iterations?: number;
+  random?: Random;
+  chunkSize?: number;
+  onProgress?: ((done: number, total: number) => void) | null;
+  isCancelled?: (() => boolean) | null;
+}): Promise<RiskRun> {
+  const ids = Object.keys(ranges);
+  const finishes: number[] = [];
+  const critical = new Map<string, number>();
+  for (let i = 0; i < iterations; i++) {
+    if (isCancelled?.()) return { finishes, critical, iterations: i, cancelled: true };
+    const impacts = ids.map((activityId) => ({
+      activityId,
+      deltaDays: sampleDuration(ranges[activityId], distribution, random) - (baseDurations[activityId] ?? 0),
+    }));
+    const scheduled = simulate(impacts);
+    const finish = scheduleFinish(scheduled);
+    if (Number.isFinite(finish)) finishes.push(finish);
+    scheduled.forEach((row) => {
+      if (row.IsSummary || row.ActivityID === undefined) return;
+      if (Number(row.TotalFloat_d) <= 0) {
+        const id = String(row.ActivityID);
+        critical.set(id, (critical.get(id) ?? 0) + 1);
+      }
+    });
+    if ((i + 1) % chunkSize === 0) {
+      onProgress?.(i + 1, iterations);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(iterations, iterations);
+  return { finishes, critical, iterations, cancelled: false };
+}
+
+export function percentileOf(sorted: number[], p: number): number {
+  if (!sorted.length) return NaN;
+  const rank = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[rank];
+}
+
+/**
+ * @param result output of runRiskAnalysis
+ * @param rows schedule rows (for criticality names)
+ * @param deterministicFinish finish of the plain CPM run, in ms
+ */
+export function summariseRisk(result: RiskRun, rows: ScheduleRow[], deterministicFinish: number, bins = 20) {
+  const sorted = result.finishes.slice().sort((a, b) => a - b);
+  const percentiles = RISK_PERCENTILES.map((p) => ({ p, finish: percentileOf(sorted, p) }));
+  const onTime = Number.isFinite(deterministicFinish)
+    ? sorted.filter((f) => f <= deterministicFinish).length / Math.max(1, sorted.length)
+    : NaN;
+
+  // Whole-day bins across the sampled range
+  const histogram: { start: number; count: number; cumulative: number }[] = [];
+  if (sorted.length) {
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const width = Math.max(DAY_MS, Math.ceil((last - first) / bins / DAY_MS) * DAY_MS);
+    let cumulative = 0;
+    for (let start = first; start <= last; start += width) {
+      const end = start + width;
+      const count = sorted.filter((f) => f >= start && (f < end || (end > last && f <= last))).length;
+      cumulative += count;
+      histogram.push({ start, count, cumulative: Math.round((cumulative / sorted.length) * 100) });
+    }
+  }
+
+  const names = new Map(rows.map((r): [string, string | undefined] => [String(r.ActivityID), r.TaskName]));
+  const criticality = Array.from(result.critical.entries())
+    .map(([id, count]) => ({
+      id,
+      name: names.get(id) ?? "",
+      index: Math.round((count / Math.max(1, result.iterations)) * 100),
+    }))
+    .sort((a, b) => b.index - a.index || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+  return { iterations: result.iterations, cancelled: result.cancelled, percentiles, onTime, histogram, criticality };
+}
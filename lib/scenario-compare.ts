@@ -0,0 +1,190 @@
+import { DAY_MS, dayMs, resolveCalendar, workDaysBetween } from "@/lib/calendars";
+import { normalizeActivityId, toISODate } from "@/lib/cpm";
+import { projectFinish } from "@/lib/fragnet";
+import type { CalendarSet, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Scenario comparison
+ * - Two or more saved scenarios run against the same unimpacted network
+ * - Per activity: ES/EF/TF under the current schedule and each scenario, with finish and float deltas
+ * - Milestone finish table with the project finish, ghost-bar dates for the Gantt
+ * - Sheet rows for the Excel export
+ */
+
+export const COMPARISON_COLORS = ["#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#4f46e5"];
+
+export interface ComparedDates {
+  es: number;
+  ef: number;
+  start: string | undefined;
+  finish: string | undefined;
+  tf: number;
+}
+
+export interface ScenarioDates extends ComparedDates {
+  startDelta: number;
+  finishDelta: number;
+  floatDelta: number;
+}
+
+export interface ScenarioComparison {
+  scenarios: { id: string; title: string; color: string; finish: ComparedDates | null; finishDelta: number }[];
+  baseFinish: ComparedDates | null;
+  activities: {
+    id: string;
+    name: string;
+    milestone: boolean;
+    base: ComparedDates | null;
+    runs: (ScenarioDates | null)[];
+    changed: boolean;
+  }[];
+}
+
+const num = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return NaN;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isMilestone = (row: ScheduleRow) => row.Milestone === true || Number(row.DurDays) === 0;
+
+// Engine rows: exclusive finishes, reported as the last working day
+function datesOf(row: ScheduleRow | null | undefined): ComparedDates | null {
+  if (!row) return null;
+  const es = dayMs(row.ES);
+  const ef = dayMs(row.EF);
+  const milestone = isMilestone(row);
+  return {
+    es,
+    ef,
+    start: Number.isFinite(es) ? toISODate(es) : "",
+    finish: Number.isFinite(ef) ? toISODate(milestone ? ef : ef - DAY_MS) : "",
+    tf: num(row.TotalFloat_d),
+  };
+}
+
+/**
+ * @param base engine rows without any scenario
+ * @param runs [{ id, title, rows }] engine rows per scenario
+ * @returns { scenarios: [{ id, title, color, finish, finishDelta }], baseFinish,
+ *   activities: [{ id, name, milestone, base, runs: [{ es, ef, start, finish, tf, startDelta, finishDelta, floatDelta } | null], changed }] }
+ *   with deltas in working days against the current schedule
+ */
+export function compareScenarios(
+  base: ScheduleRow[],
+  runs: { id: string; title: string; rows: ScheduleRow[] }[],
+  { calendars = null }: { calendars?: CalendarSet | null } = {}
+): ScenarioComparison {
+  const index = (rows: ScheduleRow[]) =>
+    new Map(rows.filter((row) => !row.IsSummary).map((row) => [normalizeActivityId(row.ActivityID), row]));
+  const baseById = index(base);
+  const runById = runs.map((run) => index(run.rows));
+  const order: string[] = [];
+  const seen = new Set<string>();
+  [base, ...runs.map((run) => run.rows)].forEach((rows) =>
+    rows.forEach((row) => {
+      const id = normalizeActivityId(row.ActivityID);
+      if (row.IsSummary || id === undefined || seen.has(id)) return;
+      seen.add(id);
+      order.push(id);
+    })
+  );
+
+  const activities = order.map((id) => {
+    const row = (baseById.get(id) ?? runById.map((m) => m.get(id)).find(Boolean)) as ScheduleRow;
+    const cal = resolveCalendar(calendars, row.CalendarID);
+    const b = datesOf(baseById.get(id));
+    const delta = (from: number, to: number) => {
+      const d = workDaysBetween(cal, from, to);
+      return Number.isFinite(d) ? round2(d) : NaN;
+    };
+    const scenarioDates = runById.map((m): ScenarioDates | null => {
+      const d = datesOf(m.get(id));
+      if (!d) return null;
+      return {
+        ...d,
+        startDelta: b ? delta(b.es, d.es) : NaN,
+        finishDelta: b ? delta(b.ef, d.ef) : NaN,
+        floatDelta: b && Number.isFinite(b.tf) && Number.isFinite(d.tf) ? round2(d.tf - b.tf) : NaN,
+      };
+    });
+    const changed =
+      !b ||
+      scenarioDates.some((d) => !d || d.startDelta !== 0 || d.finishDelta !== 0 || (Number.isFinite(d.floatDelta) && d.floatDelta !== 0));
+    return { id, name: row.TaskName ?? "", milestone: isMilestone(row), base: b, runs: scenarioDates, changed };
+  });
+
+  const baseFinish = datesOf(projectFinish(base));
+  const projectCal = resolveCalendar(calendars, null);
+  const scenarios = runs.map((run, idx) => {
+    const finish = datesOf(projectFinish(run.rows));
+    const d = baseFinish && finish ? workDaysBetween(projectCal, baseFinish.ef, finish.ef) : NaN;
+    return {
+      id: run.id,
+      title: run.title,
+      color: COMPARISON_COLORS[idx % COMPARISON_COLORS.length],
+      finish,
+      finishDelta: Number.isFinite(d) ? round2(d) : NaN,
+    };
+  });
+  return { scenarios, baseFinish, activities };
+}
+
+// Column prefixes for the export; repeated titles get a counter
+function scenarioLabels(comparison: ScenarioComparison): string[] {
+  const used = new Map<string, number>();
+  return comparison.scenarios.map((s) => {
+    const n = (used.get(s.title) ?? 0) + 1;
+    used.set(s.title, n);
+    return n > 1 ? `${s.title} (${n})` : s.title;
+  });
+}
+
+const cell = (n: number | undefined) => (Number.isFinite(n) ? n : "");
+
+export function comparisonSheetRows(comparison: ScenarioComparison): Record<string, unknown>[] {
+  const labels = scenarioLabels(comparison);
+  return comparison.activities.map((a) => {
+    const row: Record<string, unknown> = {
+      ActivityID: a.id,
+      TaskName: a.name,
+      "Current ES": a.base?.start ?? "",
+      "Current EF": a.base?.finish ?? "",
+      "Current TF": cell(a.base?.tf),
+    };
+    a.runs.forEach((d, idx) => {
+      row[`${labels[idx]} ES`] = d?.start ?? "";
+      row[`${labels[idx]} EF`] = d?.finish ?? "";
+      row[`${labels[idx]} TF`] = cell(d?.tf);
+      row[`${labels[idx]} ΔEF (d)`] = cell(d?.finishDelta);
+      row[`${labels[idx]} ΔTF (d)`] = cell(d?.floatDelta);
+    });
+    return row;
+  });
+}
+
+export function milestoneComparisonRows(comparison: ScenarioComparison): Record<string, unknown>[] {
+  const labels = scenarioLabels(comparison);
+  const project: Record<string, unknown> = {
+    ActivityID: "",
+    TaskName: "Project finish",
+    Current: comparison.baseFinish?.finish ?? "",
+  };
+  comparison.scenarios.forEach((s, idx) => {
+    project[labels[idx]] = s.finish?.finish ?? "";
+    project[`${labels[idx]} Δ (d)`] = cell(s.finishDelta);
+  });
+  const milestones = comparison.activities
+    .filter((a) => a.milestone)
+    .map((a) => {
+      const row: Record<string, unknown> = { ActivityID: a.id, TaskName: a.name, Current: a.base?.finish ?? "" };
+      a.runs.forEach((d, idx) => {
+        row[labels[idx]] = d?.finish ?? "";
+        row[`${labels[idx]} Δ (d)`] = cell(d?.finishDelta);
+      });
+      return row;
+    });
+  return [...milestones, project];
+}
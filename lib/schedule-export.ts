@@ -0,0 +1,185 @@
+import { DAY_MS } from "@/lib/calendars";
+import { normalizeActivityId, toISODate } from "@/lib/cpm";
+import { LINK_ACTIONS } from "@/lib/fragnet";
+import { formatAssignments } from "@/lib/resources";
+import type { Fragnet } from "@/lib/fragnet";
+import type { ActivityImpact, CalendarSet, Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Schedule export (sheet rows for an XLSX workbook)
+ * - Activities with ES/EF/LS/LF, duration, floats and criticality, in the columns the importer reads
+ * - Relationships in the PredID/SuccID/RelType/Lag_d shape of the Relationships sheet
+ * - Scenario description, calendars and resource capacities, so the file loads back into the viewer
+ */
+
+const isMilestone = (row: ScheduleRow) => row.Milestone === true || Number(row.DurDays) === 0;
+
+const isoDay = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "";
+  const t = new Date(value as string | number | Date).getTime();
+  return Number.isFinite(t) ? toISODate(t) ?? "" : "";
+};
+
+// Engine finishes are exclusive; the sheet names the last working day like an imported schedule
+const inclusiveFinish = (row: ScheduleRow, start: string | undefined, finish: string | undefined, finishInclusive: boolean) => {
+  if (finishInclusive || !finish || isMilestone(row)) return isoDay(finish);
+  const s = new Date(start as string).getTime();
+  const f = new Date(finish).getTime();
+  return Number.isFinite(s) && Number.isFinite(f) && f > s ? toISODate(f - DAY_MS) : isoDay(finish);
+};
+
+const num = (value: unknown): number | "" => {
+  const n = Number(value);
+  return value === undefined || value === null || value === "" || !Number.isFinite(n) ? "" : n;
+};
+
+/**
+ * @param rows schedule rows to write, in display order
+ * @param finishInclusive whether EF/LF are already inclusive (imported) rather than engine output
+ * @param nearThreshold total float (days) up to which an activity counts as near-critical
+ */
+export function activitySheetRows(
+  rows: ScheduleRow[],
+  { finishInclusive = false, nearThreshold = 5 }: { finishInclusive?: boolean; nearThreshold?: number } = {}
+) {
+  return rows.map((row) => {
+    const tf = Number(row.TotalFloat_d);
+    const criticality = row.IsSummary
+      ? ""
+      : tf <= 0
+      ? "Critical"
+      : tf <= nearThreshold
+      ? "Near-critical"
+      : Number.isFinite(tf)
+      ? "Non-critical"
+      : "";
+    return {
+      ActivityID: row.ActivityID ?? "",
+      TaskName: row.TaskName ?? "",
+      WBSLevel: num(row.WBSLevel),
+      IsSummary: row.IsSummary ? "Yes" : "",
+      Milestone: row.Milestone ? "true" : "",
+      DurDays: num(row.DurDays),
+      ES: isoDay(row.ES),
+      EF: inclusiveFinish(row, row.ES, row.EF, finishInclusive),
+      LS: isoDay(row.LS),
+      LF: inclusiveFinish(row, row.LS, row.LF, finishInclusive),
+      TotalFloat_d: num(row.TotalFloat_d),
+      FreeFloat_d: num(row.FreeFloat_d),
+      Criticality: criticality,
+      PctComplete: num(row.PctComplete),
+      ActualStart: isoDay(row.ActualStart),
+      ActualFinish: isoDay(row.ActualFinish),
+      RemainingDuration: num(row.RemainingDuration),
+      ConstraintType: row.ConstraintType ?? "",
+      ConstraintDate: isoDay(row.ConstraintDate),
+      ConstraintViolated: row.ConstraintViolated ? "Yes" : "",
+      CalendarID: row.CalendarID ?? "",
+      Resources: formatAssignments(row.Assignments),
+      BudgetCost: num(row.BudgetCost),
+      BudgetHours: num(row.BudgetHours),
+      ActualCost: num(row.ActualCost),
+      ActualHours: num(row.ActualHours),
+      DurMin: num(row.DurMin),
+      DurMostLikely: num(row.DurMostLikely),
+      DurMax: num(row.DurMax),
+    };
+  });
+}
+
+// Only links whose both ends are exported, so a filtered file stays self-consistent
+export function relationshipSheetRows(rels: Relationship[], rows: ScheduleRow[]): Relationship[] {
+  const ids = new Set<string | undefined>(rows.map((r) => normalizeActivityId(r.ActivityID)).filter((id) => id !== undefined));
+  return rels
+    .filter((e) => ids.has(normalizeActivityId(e.PredID)) && ids.has(normalizeActivityId(e.SuccID)))
+    .map((e) => ({
+      PredID: e.PredID,
+      SuccID: e.SuccID,
+      RelType: String(e.RelType || "FS").toUpperCase(),
+      Lag_d: Number(e.Lag_d) || 0,
+    }));
+}
+
+/**
+ * Key/value header followed by the impact table and, for a fragnet, its inserted activities and link changes,
+ * as an array of arrays
+ * @param scenario { title, impacts: [{ activityId, deltaDays }] } or null for the schedule as loaded
+ * @param fragnet the scenario's { activities, links } (see applyFragnet) or null
+ */
+export function scenarioSheetRows({
+  scenario,
+  impacts = [],
+  fragnet = null,
+  rowById,
+  source,
+  dataDate,
+  progressMode,
+  filtered,
+  exportedAt,
+}: {
+  scenario: { title: string } | null;
+  impacts?: ActivityImpact[];
+  fragnet?: Fragnet | null;
+  rowById: Map<unknown, ScheduleRow>;
+  source?: string;
+  dataDate?: string;
+  progressMode?: string;
+  filtered?: boolean;
+  exportedAt: string;
+}): unknown[][] {
+  const aoa: unknown[][] = [
+    ["Scenario", scenario ? scenario.title : "Baseline (no impacts applied)"],
+    ["Source", source ?? ""],
+    ["Data date", dataDate || ""],
+    ["Progress mode", dataDate ? progressMode : ""],
+    ["Rows", filtered ? "Filtered view only" : "All activities"],
+    ["Exported", exportedAt],
+    [],
+    ["ActivityID", "TaskName", "DeltaDays", "Effect"],
+  ];
+  impacts.forEach((impact) => {
+    const delta = Number(impact.deltaDays) || 0;
+    aoa.push([
+      impact.activityId,
+      rowById.get(impact.activityId)?.TaskName ?? "",
+      delta,
+      delta >= 0 ? `Delay by ${delta} day${delta === 1 ? "" : "s"}` : `Accelerate by ${-delta} day${delta === -1 ? "" : "s"}`,
+    ]);
+  });
+  if (fragnet?.activities?.length) {
+    aoa.push([], ["Inserted activities"], ["ActivityID", "TaskName", "DurDays", "CalendarID"]);
+    fragnet.activities.forEach((a) => aoa.push([a.ActivityID, a.TaskName ?? "", Number(a.DurDays) || 0, a.CalendarID ?? ""]));
+  }
+  if (fragnet?.links?.length) {
+    const labels = new Map(LINK_ACTIONS.map((a) => [a.key, a.label]));
+    aoa.push([], ["Link changes"], ["Action", "PredID", "SuccID", "RelType", "Lag_d"]);
+    fragnet.links.forEach((link) =>
+      aoa.push([
+        labels.get(link.action) ?? link.action,
+        link.PredID,
+        link.SuccID,
+        link.action === "remove" ? "" : link.RelType || "FS",
+        link.action === "remove" ? "" : Number(link.Lag_d) || 0,
+      ])
+    );
+  }
+  return aoa;
+}
+
+// One row per calendar in the shape readCalendarRows accepts
+export function calendarSheetRows(calendars: CalendarSet | null | undefined) {
+  if (!calendars?.list?.length) return [];
+  return calendars.list.map((cal) => ({
+    CalendarID: cal.id,
+    Name: cal.name,
+    WorkDays: cal.workWeek.map((d) => (d ? "1" : "0")).join(""),
+    HoursPerDay: cal.hoursPerDay,
+    Holidays: cal.holidays.join(", "),
+    Default: cal.id === calendars.projectId ? "Yes" : "",
+  }));
+}
+
+// Capacities in the shape readAssignmentRows accepts (one row per resource, no ActivityID)
+export function resourceSheetRows(resources: { name: string; capacity: number }[] | null | undefined) {
+  return (resources ?? []).map((r) => ({ Resource: r.name, MaxUnits: r.capacity }));
+}
@@ -0,0 +1,90 @@
+/**
+ * Schedule shapes shared by the lib modules
+ * - Rows keep every column they were read with, so the fields the engine knows sit beside an open index
+ * - Relationship edges, calendars and calendar sets as the importers produce them
+ */
+
+// A workbook row as sheet_to_json returns it (header -> cell)
+export type SheetRow = Record<string, unknown>;
+
+export interface ScheduleRow {
+  // Normalised with normalizeActivityId; summary rows may have none
+  ActivityID?: string;
+  TaskName?: string;
+  ES?: string;
+  EF?: string;
+  LS?: string;
+  LF?: string;
+  ActualStart?: string;
+  ActualFinish?: string;
+  // Blank where the source gives no value
+  DurDays?: number | "";
+  // Set when the source gives the duration in hours, converted to DurDays with the row's calendar
+  DurHours?: number;
+  TotalFloat_d?: number | "";
+  FreeFloat_d?: number | "";
+  Milestone?: boolean;
+  IsSummary?: boolean;
+  CalendarID?: string;
+  Assignments?: Assignment[];
+  __rowIndex?: number;
+  // Baseline dates (epoch ms) captured on load; the engine anchors unconstrained work to them
+  __baselineES?: number;
+  __baselineEF?: number;
+  [field: string]: unknown;
+}
+
+export interface Relationship {
+  PredID: string;
+  SuccID: string;
+  RelType: string;
+  Lag_d: number;
+  // Lag as written in hours, converted to Lag_d with the successor's calendar
+  LagHours?: number;
+}
+
+export interface Calendar {
+  id: string;
+  name: string;
+  // Sun..Sat
+  workWeek: boolean[];
+  // ISO dates
+  holidays: string[];
+  hoursPerDay: number;
+}
+
+export interface CalendarSet {
+  projectId: string;
+  list: Calendar[];
+}
+
+export interface Assignment {
+  resource: string;
+  // Units per working day
+  units: number;
+}
+
+export interface ActivityImpact {
+  activityId: unknown;
+  deltaDays: number;
+}
+
+export interface LevelingOptions {
+  // Units per day for each resource; resources left out are unlimited
+  capacity: Record<string, number>;
+  priority?: string;
+  beyondFloat?: boolean;
+}
+
+// A single { activityId, deltaDays } or a scenario's impacts list, with optional levelling
+export interface ScenarioImpact {
+  activityId?: unknown;
+  deltaDays?: number;
+  impacts?: ActivityImpact[];
+  leveling?: LevelingOptions | null;
+}
+
+export interface ProgressOptions {
+  dataDate?: string;
+  mode?: "retained" | "override";
+}
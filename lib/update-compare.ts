@@ -0,0 +1,186 @@
+import { DAY_MS, dayMs } from "@/lib/calendars";
+import { normalizeActivityId, normalizeConstraintType, toISODate } from "@/lib/cpm";
+import type { Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Schedule update comparison
+ * - Previous vs current update matched by ActivityID
+ * - Added/deleted activities, duration and date changes, relationship and constraint changes, float erosion
+ * - Change-log rows for the Excel export
+ */
+
+export const CHANGE_GROUPS = [
+  { key: "activities", label: "Added / deleted" },
+  { key: "durations", label: "Durations" },
+  { key: "dates", label: "Dates" },
+  { key: "logic", label: "Relationships" },
+  { key: "constraints", label: "Constraints" },
+  { key: "float", label: "Float erosion" },
+];
+
+export interface ChangeEntry {
+  group: string;
+  activityId: string;
+  TaskName: string;
+  change: string;
+  before: string | number;
+  after: string | number;
+  // Days, or "" where the change has no size
+  delta: number | "";
+}
+
+export interface UpdateComparison {
+  entries: ChangeEntry[];
+  changedIds: Map<string, Set<string>>;
+  counts: Record<string, number>;
+}
+
+const isoDay = (value: unknown) => {
+  const t = dayMs(value);
+  return Number.isFinite(t) ? toISODate(t) ?? "" : "";
+};
+
+const num = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return NaN;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+};
+
+// Parallel links (SS and FF between the same pair) are separate relationships, so a type change reads as remove + add
+const relKey = (rel: Relationship) => `${rel.PredID}->${rel.SuccID}:${rel.RelType}`;
+const relText = (rel: Relationship) => {
+  const lag = Number(rel.Lag_d) || 0;
+  return `${rel.RelType || "FS"}${lag ? `${lag > 0 ? "+" : ""}${lag}d` : ""}`;
+};
+
+function indexRows(rows: ScheduleRow[]): Map<string, ScheduleRow> {
+  const map = new Map<string, ScheduleRow>();
+  rows.forEach((row) => {
+    const id = normalizeActivityId(row.ActivityID);
+    if (id !== undefined && !map.has(id)) map.set(id, row);
+  });
+  return map;
+}
+
+function indexRels(rels: Relationship[]): Map<string, Relationship> {
+  const map = new Map<string, Relationship>();
+  rels.forEach((rel) => {
+    const PredID = normalizeActivityId(rel.PredID);
+    const SuccID = normalizeActivityId(rel.SuccID);
+    if (PredID === undefined || SuccID === undefined) return;
+    const edge = { PredID, SuccID, RelType: String(rel.RelType || "FS").toUpperCase(), Lag_d: Number(rel.Lag_d) || 0 };
+    if (!map.has(relKey(edge))) map.set(relKey(edge), edge);
+  });
+  return map;
+}
+
+/**
+ * @param previous { rows, rels } of the earlier update
+ * @param current { rows, rels } of the update being reviewed
+ * @returns { entries, changedIds: Map(activityId -> Set of groups), counts: { [group]: n } }
+ */
+export function compareScheduleUpdates(
+  previous: { rows: ScheduleRow[]; rels: Relationship[] },
+  current: { rows: ScheduleRow[]; rels: Relationship[] }
+): UpdateComparison {
+  const before = indexRows(previous.rows);
+  const after = indexRows(current.rows);
+  const entries: ChangeEntry[] = [];
+  const changedIds = new Map<string, Set<string>>();
+  const add = (group: string, activityId: string, entry: Pick<ChangeEntry, "change" | "before" | "after" | "delta">) => {
+    const row = after.get(activityId) ?? before.get(activityId);
+    entries.push({ group, activityId, TaskName: row?.TaskName ?? "", ...entry });
+    const groups = changedIds.get(activityId) ?? new Set<string>();
+    groups.add(group);
+    changedIds.set(activityId, groups);
+  };
+
+  after.forEach((row, id) => {
+    if (!before.has(id)) add("activities", id, { change: "Added activity", before: "", after: isoDay(row.ES), delta: "" });
+  });
+  before.forEach((row, id) => {
+    if (!after.has(id)) add("activities", id, { change: "Deleted activity", before: isoDay(row.ES), after: "", delta: "" });
+  });
+
+  after.forEach((row, id) => {
+    const prev = before.get(id);
+    if (!prev) return;
+    const durBefore = num(prev.DurDays);
+    const durAfter = num(row.DurDays);
+    if (Number.isFinite(durBefore) && Number.isFinite(durAfter) && durBefore !== durAfter) {
+      add("durations", id, { change: "Duration", before: durBefore, after: durAfter, delta: durAfter - durBefore });
+    }
+    [
+      ["Start", "ES"],
+      ["Finish", "EF"],
+    ].forEach(([label, field]) => {
+      const a = dayMs(prev[field]);
+      const b = dayMs(row[field]);
+      if (!Number.isFinite(a) || !Number.isFinite(b) || a === b) return;
+      add("dates", id, { change: label, before: isoDay(prev[field]), after: isoDay(row[field]), delta: Math.round((b - a) / DAY_MS) });
+    });
+    const typeBefore = normalizeConstraintType(prev.ConstraintType) || "";
+    const typeAfter = normalizeConstraintType(row.ConstraintType) || "";
+    const dateBefore = isoDay(prev.ConstraintDate);
+    const dateAfter = isoDay(row.ConstraintDate);
+    if (typeBefore !== typeAfter || dateBefore !== dateAfter) {
+      add("constraints", id, {
+        change: "Constraint",
+        before: [typeBefore, dateBefore].filter(Boolean).join(" ") || "none",
+        after: [typeAfter, dateAfter].filter(Boolean).join(" ") || "none",
+        delta: "",
+      });
+    }
+    const tfBefore = num(prev.TotalFloat_d);
+    const tfAfter = num(row.TotalFloat_d);
+    if (Number.isFinite(tfBefore) && Number.isFinite(tfAfter) && tfAfter < tfBefore) {
+      add("float", id, { change: "Float erosion", before: tfBefore, after: tfAfter, delta: tfAfter - tfBefore });
+    }
+  });
+
+  // Relationships are logged against their successor
+  const relsBefore = indexRels(previous.rels);
+  const relsAfter = indexRels(current.rels);
+  relsAfter.forEach((rel, key) => {
+    const prev = relsBefore.get(key);
+    const link = `${rel.PredID} → ${rel.SuccID}`;
+    if (!prev) {
+      add("logic", rel.SuccID, { change: "Relationship added", before: "", after: `${link} ${relText(rel)}`, delta: "" });
+    } else if (prev.Lag_d !== rel.Lag_d) {
+      add("logic", rel.SuccID, {
+        change: "Relationship modified",
+        before: `${link} ${relText(prev)}`,
+        after: `${link} ${relText(rel)}`,
+        delta: rel.Lag_d - prev.Lag_d,
+      });
+    }
+  });
+  relsBefore.forEach((rel, key) => {
+    if (relsAfter.has(key)) return;
+    add("logic", rel.SuccID, { change: "Relationship removed", before: `${rel.PredID} → ${rel.SuccID} ${relText(rel)}`, after: "", delta: "" });
+  });
+
+  const order = new Map(CHANGE_GROUPS.map((g, idx) => [g.key, idx]));
+  entries.sort(
+    (a, b) =>
+      (order.get(a.group) ?? 0) - (order.get(b.group) ?? 0) ||
+      String(a.activityId).localeCompare(String(b.activityId), undefined, { numeric: true })
+  );
+  const counts: Record<string, number> = Object.fromEntries(CHANGE_GROUPS.map((g) => [g.key, 0]));
+  entries.forEach((e) => counts[e.group]++);
+  return { entries, changedIds, counts };
+}
+
+// Flat rows for the "Change log" sheet
+export function changeLogRows(log: UpdateComparison) {
+  const labels = new Map(CHANGE_GROUPS.map((g) => [g.key, g.label]));
+  return log.entries.map((e) => ({
+    Category: labels.get(e.group),
+    Change: e.change,
+    ActivityID: e.activityId,
+    TaskName: e.TaskName,
+    Before: e.before,
+    After: e.after,
+    Delta: e.delta,
+  }));
+}
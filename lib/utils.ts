@@ -3,3 +3,9 @@ export function cn(
 ): string {
   return classes.filter(Boolean).join(" ");
 }
+
+// One CSV field, quoted when it holds a quote, comma or line break
+export function csvCell(value: unknown): string {
+  const s = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,124 @@
+import { buildSummaryMeta, normalizeActivityId } from "@/lib/cpm";
+import type { Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Collapsible WBS tree
+ * - Outline depth and parent/child links from buildSummaryMeta
+ * - Collapsed summaries hide their descendants; state is keyed by row position so it survives scenario runs
+ * - Links to hidden activities re-point to the nearest visible ancestor
+ */
+
+export interface WbsNode {
+  key: string;
+  parentIndex: number | null;
+  level: number | null;
+  depth: number;
+  hasChildren: boolean;
+}
+
+export interface WbsTree {
+  rows: ScheduleRow[];
+  nodes: WbsNode[];
+  // Outline levels that have summaries, for the collapse-to-level menu
+  levels: number[];
+  hasTree: boolean;
+}
+
+export const wbsRowKey = (row: ScheduleRow, idx: number): string => String(row.__rowIndex ?? idx);
+
+// Link end standing for a row: its activity ID, or for a summary without one (XER WBS nodes) its row key
+export const wbsLinkId = (row: ScheduleRow, idx: number): string =>
+  normalizeActivityId(row.ActivityID) ?? `wbs:${wbsRowKey(row, idx)}`;
+
+export function buildWbsTree(rows: ScheduleRow[]): WbsTree {
+  const meta = buildSummaryMeta(rows);
+  // Parents always precede their children, so one forward pass settles depths
+  const depth: number[] = [];
+  meta.forEach((m, idx) => {
+    depth[idx] = m.parentIndex == null ? 0 : depth[m.parentIndex] + 1;
+  });
+  const nodes = rows.map((row, idx): WbsNode => ({
+    key: wbsRowKey(row, idx),
+    parentIndex: meta[idx].parentIndex,
+    level: meta[idx].level,
+    depth: depth[idx],
+    hasChildren: meta[idx].children.length > 0,
+  }));
+  const levels = Array.from(
+    new Set(nodes.filter((n) => n.hasChildren && n.level !== null && Number.isFinite(n.level)).map((n) => n.level as number))
+  ).sort((a, b) => a - b);
+  return { rows, nodes, levels, hasTree: nodes.some((n) => n.hasChildren) };
+}
+
+/**
+ * @param collapsed Set of row keys whose children are hidden
+ * @returns { info: Map(key -> { depth, hasChildren, collapsed }), hidden: Set of keys, anchorIds: Map(hidden id -> visible ancestor's wbsLinkId) }
+ */
+export function collapseWbsTree(tree: WbsTree, collapsed: Set<string>) {
+  const info = new Map<string, { depth: number; hasChildren: boolean; collapsed: boolean }>();
+  const hidden = new Set<string>();
+  const anchorIds = new Map<string, string>();
+  // Index of the visible row standing in for each row (itself when shown)
+  const anchor: number[] = [];
+  tree.nodes.forEach((node, idx) => {
+    const parent = node.parentIndex;
+    let shownAs = idx;
+    if (parent != null) {
+      const parentAnchor = anchor[parent];
+      if (parentAnchor !== parent) shownAs = parentAnchor;
+      else if (collapsed.has(tree.nodes[parent].key)) shownAs = parent;
+    }
+    anchor[idx] = shownAs;
+    info.set(node.key, {
+      depth: node.depth,
+      hasChildren: node.hasChildren,
+      collapsed: node.hasChildren && collapsed.has(node.key),
+    });
+    if (shownAs === idx) return;
+    hidden.add(node.key);
+    const id = normalizeActivityId(tree.rows[idx].ActivityID);
+    if (id !== undefined) anchorIds.set(id, wbsLinkId(tree.rows[shownAs], shownAs));
+  });
+  return { info, hidden, anchorIds };
+}
+
+// Summaries at or below the level are collapsed, so rows down to that level stay visible
+export function collapseToLevel(tree: WbsTree, level: number | null | undefined): Set<string> {
+  const keys = tree.nodes
+    .filter((n) => n.hasChildren && (level == null || n.level === null || !Number.isFinite(n.level) || n.level >= level))
+    .map((n) => n.key);
+  return new Set(keys);
+}
+
+// Expands every collapsed ancestor of the given rows
+export function revealWbsRows(tree: WbsTree, collapsed: Set<string>, rowIndexes: number[]): Set<string> {
+  const next = new Set(collapsed);
+  const byKey = new Map(tree.nodes.map((n, idx) => [n.key, idx]));
+  rowIndexes.forEach((rowIndex) => {
+    let idx: number | null | undefined = byKey.get(String(rowIndex));
+    while (idx != null) {
+      const parent: number | null = tree.nodes[idx].parentIndex;
+      if (parent != null) next.delete(tree.nodes[parent].key);
+      idx = parent;
+    }
+  });
+  return next.size === collapsed.size ? collapsed : next;
+}
+
+// Relationship ends inside collapsed summaries move to the summary; links folded into one row are dropped
+export function repointLinks<E extends Relationship>(rels: E[], anchorIds: Map<string, string>): E[] {
+  if (!anchorIds.size) return rels;
+  const seen = new Set<string>();
+  const out: E[] = [];
+  rels.forEach((rel) => {
+    const PredID = anchorIds.get(rel.PredID) ?? rel.PredID;
+    const SuccID = anchorIds.get(rel.SuccID) ?? rel.SuccID;
+    if (PredID === SuccID) return;
+    const moved = PredID !== rel.PredID || SuccID !== rel.SuccID;
+    const key = `${PredID}->${SuccID}:${rel.RelType || "FS"}`;
+    if (moved && seen.has(key)) return;
+    seen.add(key);
+    out.push(moved ? { ...rel, PredID, SuccID, Rolled: true } : rel);
+  });
+  return out;
+}
@@ -0,0 +1,282 @@
+import { createCalendar } from "@/lib/calendars";
+import type { CalendarSet, Relationship, ScheduleRow } from "@/lib/schedule-types";
+
+/**
+ * Primavera P6 XER ingestion
+ * - Reads the tab-delimited %T/%F/%R tables (PROJECT, TASK, TASKPRED, PROJWBS, CALENDAR)
+ * - WBS parent chains become summary rows with outline levels for buildSummaryMeta
+ * - Hour-based durations, floats and lags are converted to days with each calendar's day_hr_cnt
+ * - CALENDAR clndr_data work weeks and holiday exceptions become viewer calendars
+ */
+
+// One %R line keyed by the table's %F field names
+export type XerRecord = Record<string, string>;
+
+export interface XerProject {
+  id: string;
+  name: string;
+  calendarId?: string;
+  dataDate?: string;
+}
+
+export interface ParsedXER {
+  projects: XerProject[];
+  tasks: XerRecord[];
+  preds: XerRecord[];
+  wbs: XerRecord[];
+  calendars: XerRecord[];
+}
+
+const XER_LINK_TYPES: Record<string, string> = { PR_FS: "FS", PR_SS: "SS", PR_FF: "FF", PR_SF: "SF" };
+
+const XER_CONSTRAINTS: Record<string, string> = {
+  CS_ALAP: "ALAP",
+  CS_MSO: "MSO",
+  CS_MSOA: "SNET",
+  CS_MSOB: "SNLT",
+  CS_MEO: "MFO",
+  CS_MEOA: "FNET",
+  CS_MEOB: "FNLT",
+  CS_MANDSTART: "MANDSTART",
+  CS_MANDFIN: "MANDFIN",
+};
+
+const DEFAULT_DAY_HOURS = 8;
+
+export function decodeXER(buffer: ArrayBuffer | Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    // P6 writes XER in the Windows code page by default
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+export function parseXER(text: string): ParsedXER {
+  const tables: Record<string, { name: string; fields: string[]; records: XerRecord[] }> = {};
+  let current: { name: string; fields: string[]; records: XerRecord[] } | null = null;
+  for (const line of String(text).split(/\r?\n/)) {
+    if (!line) continue;
+    const cells = line.split("\t");
+    const tag = cells[0];
+    if (tag === "%T") {
+      current = { name: cells[1], fields: [], records: [] };
+      tables[current.name] = current;
+    } else if (tag === "%F" && current) {
+      current.fields = cells.slice(1);
+    } else if (tag === "%R" && current) {
+      const rec: XerRecord = {};
+      current.fields.forEach((f, i) => {
+        rec[f] = cells[i + 1] ?? "";
+      });
+      current.records.push(rec);
+    } else if (tag === "%E") {
+      current = null;
+    }
+  }
+  if (!tables.TASK) {
+    throw new Error("File is not a Primavera P6 XER export (no TASK table).");
+  }
+  const records = (name: string) => tables[name]?.records ?? [];
+  const projectIds = new Set(records("TASK").map((t) => t.proj_id));
+  const projects: XerProject[] = records("PROJECT")
+    .filter((p) => projectIds.has(p.proj_id))
+    .map((p) => ({
+      id: p.proj_id,
+      name: p.proj_short_name || p.proj_name || `Project ${p.proj_id}`,
+      calendarId: p.clndr_id,
+      // P6's data date is the last scheduling date
+      dataDate: xerDate(p.last_recalc_date),
+    }));
+  // Some exports omit PROJECT; fall back to the ids seen on TASK
+  projectIds.forEach((id) => {
+    if (!projects.some((p) => p.id === id)) projects.push({ id, name: `Project ${id}` });
+  });
+  return {
+    projects,
+    tasks: records("TASK"),
+    preds: records("TASKPRED"),
+    wbs: records("PROJWBS"),
+    calendars: records("CALENDAR"),
+  };
+}
+
+// clndr_data: (0||DaysOfWeek()( (0||1()()) (0||2()( (0||0(s|08:00|f|16:00)()) ... (0||Exceptions()( (0||0(d|45292)()) ...
+// Days run 1=Sunday..7=Saturday; a day or exception with no s|start entries is non-working.
+function parseClndrData(data: string | undefined): { workWeek: boolean[] | null; holidays: string[] } {
+  const text = String(data || "");
+  const dowAt = text.indexOf("DaysOfWeek");
+  const excAt = text.indexOf("Exceptions");
+  let workWeek: boolean[] | null = null;
+  if (dowAt !== -1) {
+    const section = text.slice(dowAt, excAt > dowAt ? excAt : undefined);
+    const headers = Array.from(section.matchAll(/\(0\|\|([1-7])\(\)\(/g));
+    if (headers.length) {
+      const week = [false, false, false, false, false, false, false];
+      headers.forEach((h, i) => {
+        const body = section.slice((h.index ?? 0) + h[0].length, headers[i + 1]?.index);
+        week[Number(h[1]) - 1] = /s\|\d/.test(body);
+      });
+      workWeek = week;
+    }
+  }
+  const holidays: string[] = [];
+  if (excAt !== -1) {
+    const section = text.slice(excAt);
+    const entries = Array.from(section.matchAll(/\(d\|(\d+)\)\(/g));
+    entries.forEach((e, i) => {
+      const body = section.slice((e.index ?? 0) + e[0].length, entries[i + 1]?.index);
+      if (/s\|\d/.test(body)) return;
+      // Excel-style serial day numbers
+      const ms = (Number(e[1]) - 25569) * 24 * 60 * 60 * 1000;
+      if (Number.isFinite(ms)) holidays.push(new Date(ms).toISOString().slice(0, 10));
+    });
+  }
+  return { workWeek, holidays };
+}
+
+export function buildXERCalendars(parsed: ParsedXER, projId: string | undefined): CalendarSet | null {
+  const project = parsed.projects.find((p) => p.id === projId) ?? parsed.projects[0];
+  const list = parsed.calendars.map((c) => {
+    const { workWeek, holidays } = parseClndrData(c.clndr_data);
+    const hrs = Number(c.day_hr_cnt);
+    return createCalendar({
+      id: c.clndr_id,
+      name: c.clndr_name || `Calendar ${c.clndr_id}`,
+      ...(workWeek && workWeek.some(Boolean) ? { workWeek } : {}),
+      holidays: holidays.sort(),
+      hoursPerDay: Number.isFinite(hrs) && hrs > 0 ? hrs : DEFAULT_DAY_HOURS,
+    });
+  });
+  if (!list.length) return null;
+  const defaultCal = parsed.calendars.find((c) => c.default_flag === "Y");
+  const projectId = [project?.calendarId, defaultCal?.clndr_id, list[0].id].find((id) =>
+    list.some((c) => c.id === id)
+  );
+  return { projectId: projectId ?? list[0].id, list };
+}
+
+function xerDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const s = String(value).trim();
+  return /^\d{4}-\d{2}-\d{2}/.test(s) ? s.slice(0, 10) : undefined;
+}
+
+function hoursToDays(value: string | undefined, dayHours: number): number {
+  if (value === undefined || value === null || value === "") return NaN;
+  const n = Number(value);
+  if (!Number.isFinite(n)) return NaN;
+  return Math.round((n / dayHours) * 100) / 100;
+}
+
+export function buildXERSchedule(
+  parsed: ParsedXER,
+  projId?: string
+): { rows: ScheduleRow[]; rels: Relationship[]; calendars: CalendarSet | null; dataDate: string | undefined } {
+  const projectId = projId ?? parsed.projects[0]?.id;
+  const dayHoursByCal = new Map<string | undefined, number>();
+  parsed.calendars.forEach((c) => {
+    const hrs = Number(c.day_hr_cnt);
+    dayHoursByCal.set(c.clndr_id, Number.isFinite(hrs) && hrs > 0 ? hrs : DEFAULT_DAY_HOURS);
+  });
+  const dayHours = (clndrId: string | undefined) => dayHoursByCal.get(clndrId) ?? DEFAULT_DAY_HOURS;
+
+  const tasks = parsed.tasks.filter((t) => t.proj_id === projectId);
+  const wbsNodes = parsed.wbs.filter((w) => w.proj_id === projectId);
+  const wbsById = new Map(wbsNodes.map((w) => [w.wbs_id, w]));
+  const childrenOf = new Map<string, XerRecord[]>();
+  const roots: XerRecord[] = [];
+  wbsNodes.forEach((w) => {
+    if (w.proj_node_flag === "Y" || !wbsById.has(w.parent_wbs_id)) {
+      roots.push(w);
+      return;
+    }
+    const arr = childrenOf.get(w.parent_wbs_id) || [];
+    arr.push(w);
+    childrenOf.set(w.parent_wbs_id, arr);
+  });
+  const tasksByWbs = new Map<string, XerRecord[]>();
+  const orphanTasks: XerRecord[] = [];
+  tasks.forEach((t) => {
+    if (!wbsById.has(t.wbs_id)) {
+      orphanTasks.push(t);
+      return;
+    }
+    const arr = tasksByWbs.get(t.wbs_id) || [];
+    arr.push(t);
+    tasksByWbs.set(t.wbs_id, arr);
+  });
+  const bySeq = (a: XerRecord, b: XerRecord) => (Number(a.seq_num) || 0) - (Number(b.seq_num) || 0);
+  const byStart = (a: XerRecord, b: XerRecord) =>
+    String(a.early_start_date || a.target_start_date).localeCompare(
+      String(b.early_start_date || b.target_start_date)
+    ) || String(a.task_code).localeCompare(String(b.task_code));
+
+  const taskRow = (t: XerRecord, level: number): ScheduleRow => {
+    const hrs = dayHours(t.clndr_id);
+    const isMilestone = t.task_type === "TT_Mile" || t.task_type === "TT_FinMile";
+    const dur = hoursToDays(t.target_drtn_hr_cnt, hrs);
+    const start = t.early_start_date || t.act_start_date || t.target_start_date;
+    const finish = t.early_end_date || t.act_end_date || t.target_end_date;
+    return {
+      ActivityID: t.task_code || t.task_id,
+      TaskName: t.task_name ?? "",
+      ES: xerDate(isMilestone && t.task_type === "TT_FinMile" ? finish : start),
+      EF: xerDate(isMilestone && t.task_type === "TT_Mile" ? start : finish),
+      LS: xerDate(t.late_start_date),
+      LF: xerDate(t.late_end_date),
+      DurDays: isMilestone ? 0 : Number.isFinite(dur) ? dur : "",
+      TotalFloat_d: hoursToDays(t.total_float_hr_cnt, hrs),
+      FreeFloat_d: hoursToDays(t.free_float_hr_cnt, hrs),
+      PctComplete: Number(t.phys_complete_pct) || 0,
+      WBSLevel: level,
+      Milestone: isMilestone,
+      ConstraintType: XER_CONSTRAINTS[t.cstr_type],
+      ConstraintDate: xerDate(t.cstr_date),
+      CalendarID: t.clndr_id,
+      ActualStart: xerDate(t.act_start_date),
+      ActualFinish: xerDate(t.act_end_date),
+      RemainingDuration: isMilestone ? 0 : hoursToDays(t.remain_drtn_hr_cnt, hrs),
+    };
+  };
+
+  // The project node itself is not drawn; its children start at level 1
+  const rows: ScheduleRow[] = [];
+  const emit = (node: XerRecord, level: number) => {
+    const isProjectNode = node.proj_node_flag === "Y";
+    const nextLevel = isProjectNode ? level : level + 1;
+    if (!isProjectNode) {
+      rows.push({
+        ActivityID: undefined,
+        TaskName: node.wbs_name || node.wbs_short_name || "",
+        WBSLevel: level,
+        Summary: true,
+        WBS: node.wbs_short_name,
+      });
+    }
+    (tasksByWbs.get(node.wbs_id) || []).sort(byStart).forEach((t) => rows.push(taskRow(t, nextLevel)));
+    (childrenOf.get(node.wbs_id) || []).sort(bySeq).forEach((child) => emit(child, nextLevel));
+  };
+  roots.sort(bySeq).forEach((root) => emit(root, 1));
+  orphanTasks.sort(byStart).forEach((t) => rows.push(taskRow(t, 1)));
+
+  const taskIds = new Set(tasks.map((t) => t.task_id));
+  const calById = new Map(tasks.map((t) => [t.task_id, t.clndr_id]));
+  // TASKPRED refers to internal task_id; rows and edges use the task_code users see
+  const codeById = new Map(tasks.map((t) => [t.task_id, t.task_code || t.task_id]));
+  const rels = parsed.preds
+    .filter((p) => taskIds.has(p.task_id) && taskIds.has(p.pred_task_id))
+    .map((p) => {
+      // P6 measures lag on the successor's calendar by default
+      const lag = hoursToDays(p.lag_hr_cnt, dayHours(calById.get(p.task_id)));
+      return {
+        PredID: codeById.get(p.pred_task_id) as string,
+        SuccID: codeById.get(p.task_id) as string,
+        RelType: XER_LINK_TYPES[p.pred_type] ?? "FS",
+        Lag_d: Number.isFinite(lag) ? lag : 0,
+      };
+    });
+
+  const project = parsed.projects.find((p) => p.id === projectId);
+  return { rows, rels, calendars: buildXERCalendars(parsed, projectId), dataDate: project?.dataDate };
+}